@@ -0,0 +1,75 @@
+/**
+ * Apply an RFC 7386 JSON merge patch, returning a new value
+ *
+ * Objects are merged recursively, `null` removes a key and everything else,
+ * arrays included, replaces the previous value.
+ */
+export function applyMergePatch<T>(target: T, patch: unknown): T {
+  if (!isPlainObject(patch)) {
+    return patch as T;
+  }
+
+  const result: Record<string, unknown> = isPlainObject(target)
+    ? { ...target }
+    : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = applyMergePatch(result[key], value);
+    }
+  }
+  return result as T;
+}
+
+/**
+ * Map over items with at most `concurrency` calls in flight, keeping order
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = Array.from({ length: items.length });
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(
+    Array.from(
+      { length: Math.min(Math.max(1, concurrency), items.length) },
+      worker,
+    ),
+  );
+  return results;
+}
+
+/**
+ * Compare two JSON-compatible values structurally
+ */
+export function isJsonEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((value, index) => isJsonEqual(value, b[index]))
+    );
+  }
+  if (!isPlainObject(a) || !isPlainObject(b)) return false;
+
+  const keys = Object.keys(a);
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every((key) => key in b && isJsonEqual(a[key], b[key]))
+  );
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
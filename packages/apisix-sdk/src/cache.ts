@@ -0,0 +1,213 @@
+import type { CacheOptions, CacheStats } from "./types";
+
+interface CacheEntry {
+  data: unknown;
+  expires: number;
+  staleUntil: number;
+  resource?: string;
+  id?: string;
+}
+
+/**
+ * Bounded LRU cache for GET responses with write-through invalidation
+ *
+ * Entries are tagged with the Admin API resource and ID they were read from,
+ * so a write only drops the lists of that resource and the written item.
+ */
+export class QueryCache {
+  private entries = new Map<string, CacheEntry>();
+  private ttl = 30000;
+  private maxSize = 1000;
+  private staleWhileRevalidate = 0;
+  private resourceTTL: Record<string, number> = {};
+  private revalidating = new Set<string>();
+  private stats = {
+    hits: 0,
+    staleHits: 0,
+    misses: 0,
+    evictions: 0,
+    invalidations: 0,
+  };
+
+  // Bumped on every invalidation so reads started before a write are not stored
+  private _generation = 0;
+
+  constructor(options: CacheOptions = {}) {
+    this.configure(options);
+  }
+
+  get generation(): number {
+    return this._generation;
+  }
+
+  /**
+   * Update cache settings, evicting entries when the size bound shrinks
+   */
+  configure(options: CacheOptions): void {
+    if (options.ttl !== undefined) {
+      this.ttl = Math.max(1000, options.ttl);
+    }
+    if (options.maxSize !== undefined) {
+      this.maxSize = Math.max(0, options.maxSize);
+      this.evict();
+    }
+    if (options.staleWhileRevalidate !== undefined) {
+      this.staleWhileRevalidate = Math.max(0, options.staleWhileRevalidate);
+    }
+    if (options.resourceTTL) {
+      this.resourceTTL = { ...this.resourceTTL, ...options.resourceTTL };
+    }
+  }
+
+  /**
+   * Look up an entry, `stale` is set when it should be revalidated
+   */
+  get<T>(key: string): { data: T; stale: boolean } | undefined {
+    const entry = this.entries.get(key);
+    const now = Date.now();
+
+    if (!entry || now > entry.staleUntil) {
+      if (entry) this.entries.delete(key);
+      this.stats.misses++;
+      return undefined;
+    }
+
+    // Re-insert to mark the entry as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    const stale = now > entry.expires;
+    if (stale) {
+      this.stats.staleHits++;
+    } else {
+      this.stats.hits++;
+    }
+    return { data: entry.data as T, stale };
+  }
+
+  /**
+   * Store a response read from `endpoint`
+   */
+  set(key: string, endpoint: string, data: unknown): void {
+    const { resource, id } = parseAdminEndpoint(endpoint);
+    const ttl = (resource ? this.resourceTTL[resource] : undefined) ?? this.ttl;
+    const expires = Date.now() + ttl;
+
+    this.entries.delete(key);
+    this.entries.set(key, {
+      data,
+      expires,
+      staleUntil: expires + this.staleWhileRevalidate,
+      resource,
+      id,
+    });
+    this.evict();
+  }
+
+  /**
+   * Drop the entries a write to `endpoint` makes outdated: every list of the
+   * resource and the written item, or the whole resource for writes without ID
+   */
+  invalidate(endpoint: string): number {
+    const { resource, id } = parseAdminEndpoint(endpoint);
+    if (!resource) return 0;
+
+    this._generation++;
+    const deleted = this.deleteWhere(
+      (entry) =>
+        entry.resource === resource &&
+        (id === undefined || entry.id === undefined || entry.id === id),
+    );
+    this.stats.invalidations += deleted;
+    return deleted;
+  }
+
+  /**
+   * Drop entries whose key contains `pattern`
+   */
+  deleteMatching(pattern: string): number {
+    this._generation++;
+    return this.deleteWhere((_entry, key) => key.includes(pattern));
+  }
+
+  /**
+   * Mark a key as being revalidated, returns false if it already is
+   */
+  startRevalidation(key: string): boolean {
+    if (this.revalidating.has(key)) return false;
+    this.revalidating.add(key);
+    return true;
+  }
+
+  /**
+   * Mark a key as no longer being revalidated
+   */
+  endRevalidation(key: string): void {
+    this.revalidating.delete(key);
+  }
+
+  /**
+   * Remove every entry
+   */
+  clear(): void {
+    this._generation++;
+    this.entries.clear();
+  }
+
+  /**
+   * Get cache statistics
+   */
+  getStats(): CacheStats {
+    const now = Date.now();
+    let expiredEntries = 0;
+    let sizeInBytes = 0;
+
+    for (const [key, entry] of this.entries) {
+      if (now > entry.expires) {
+        expiredEntries++;
+      }
+      sizeInBytes += key.length + JSON.stringify(entry.data ?? null).length;
+    }
+
+    return {
+      totalEntries: this.entries.size,
+      expiredEntries,
+      sizeInBytes,
+      maxSize: this.maxSize,
+      ...this.stats,
+    };
+  }
+
+  private deleteWhere(
+    predicate: (entry: CacheEntry, key: string) => boolean,
+  ): number {
+    let deleted = 0;
+    for (const [key, entry] of this.entries) {
+      if (predicate(entry, key)) {
+        this.entries.delete(key);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  private evict(): void {
+    // Map iteration order is insertion order, so the first key is the LRU one
+    while (this.entries.size > this.maxSize) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.stats.evictions++;
+    }
+  }
+}
+
+/**
+ * Split an Admin API path into resource and ID, e.g. `/apisix/admin/routes/1`
+ */
+function parseAdminEndpoint(endpoint: string): {
+  resource?: string;
+  id?: string;
+} {
+  const match = /^\/apisix\/admin\/([^/?]+)(?:\/([^/?]+))?/.exec(endpoint);
+  return match ? { resource: match[1], id: match[2] } : {};
+}
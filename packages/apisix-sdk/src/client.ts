@@ -1,29 +1,88 @@
-import { $fetch } from "ofetch";
+import type { AsyncLocalStorage } from "node:async_hooks";
+import { type $Fetch, createFetch } from "ofetch";
+import {
+  ApisixAuthError,
+  ApisixError,
+  ApisixNetworkError,
+  ApisixNotFoundError,
+  ApisixRateLimitError,
+  ApisixRevisionConflictError,
+  ApisixServerError,
+  ApisixTimeoutError,
+  ApisixValidationError,
+  createApisixError,
+  findCause,
+} from "./errors";
+import { applyMergePatch, isJsonEqual, mapConcurrent } from "./bulk";
+import { QueryCache } from "./cache";
+import { EndpointPool } from "./endpoints";
+import { StandaloneFileStore } from "./filestore";
+import { matchesFilter, splitFilter } from "./filters";
+import { HookPipeline } from "./hooks";
+import { RateLimiter } from "./limiter";
+import { getRevision, setRevision } from "./revision";
+import { matchesLabels, parseSelector } from "./selector";
+import {
+  getRetryDelay,
+  isAborted,
+  isRetryable,
+  mergeRetryPolicies,
+  parseRetryAfter,
+  type ResolvedRetryPolicy,
+  resolveRetryPolicy,
+} from "./retry";
+import {
+  type ConnectionOptions,
+  Transport,
+  type TransportKind,
+} from "./transport";
+import { parseYamlDocuments, stringifyYaml } from "./yaml";
 import type {
+  ApiKind,
+  ApisixHooks,
   ApisixListResponse,
   ApisixResponse,
   ApisixSDKConfig,
+  ApisixTransport,
+  BulkItemResult,
+  BulkOptions,
+  BulkReport,
+  CacheOptions,
+  CacheStats,
+  CoalescingStats,
+  EndpointStats,
   ErrorResponse,
+  FilterResult,
+  HttpMethod,
+  LabelSelector,
   ListOptions,
+  MergePatch,
+  ModifyOptions,
+  RateLimitOptions,
+  RateLimitStats,
+  RequestContext,
+  RequestOptions,
+  ResourceFilter,
+  ResourceRevision,
+  ResourceSelection,
+  ResponseContext,
+  RetryPolicy,
   ServerInfo,
 } from "./types";
 
-interface ConnectionPool {
-  admin: Map<string, Connection>;
-  control: Map<string, Connection>;
-  maxSize: number;
-  ttl: number;
-}
-
-interface Connection {
-  url: string;
-  lastUsed: number;
-  keepAlive: boolean;
+interface ClientRequestOptions {
+  method?: HttpMethod;
+  headers?: Record<string, string>;
+  body?: Record<string, unknown> | string;
+  params?: Record<string, string | number | boolean | string[] | undefined>;
+  signal?: AbortSignal;
+  skipCache?: boolean;
+  baseURL?: string; // Target a specific node, bypassing endpoint selection
+  retry?: RetryPolicy | false;
 }
 
 export class ApisixClient {
-  private adminBaseURL: string;
-  private controlBaseURL: string;
+  private endpoints: Record<ApiKind, EndpointPool>;
   private apiKey?: string;
   private adminTimeout: number;
   private controlTimeout: number;
@@ -31,32 +90,83 @@ export class ApisixClient {
   private controlHeaders: Record<string, string>;
   private _serverInfo?: ServerInfo;
   private _apiVersion?: string;
-  private connectionPool: ConnectionPool;
-  private retryAttempts: number = 3;
-  private retryDelay: number = 1000;
-  private queryCache: Map<string, { data: unknown; expires: number }>;
-  private cacheTTL: number = 30000; // 30 seconds
+  private transports: Record<ApiKind, Transport>;
+  private fetchers: Record<ApiKind, $Fetch>;
+  private limiters: Record<ApiKind, RateLimiter>;
+  private activeRequests: Record<ApiKind, number> = { admin: 0, control: 0 };
+  private retryPolicy: RetryPolicy;
+  private retryScope?: AsyncLocalStorage<RetryPolicy | false>;
+  private cache: QueryCache;
+  private inFlight = new Map<
+    string,
+    { promise: Promise<unknown>; generation: number }
+  >();
+  private coalescing = { requests: 0, coalesced: 0 };
+  private hooks: HookPipeline;
 
   constructor(config: ApisixSDKConfig) {
-    this.adminBaseURL = config.adminAPI.baseURL.replace(/\/$/, ""); // Remove trailing slash
-    this.controlBaseURL =
-      config.controlAPI?.baseURL?.replace(/\/$/, "") || "http://127.0.0.1:9090";
-    this.apiKey = config.adminAPI.apiKey;
-    this.adminTimeout = config.adminAPI.timeout || 30000;
+    this.endpoints = {
+      admin: new EndpointPool(
+        config.adminAPI?.baseURL || "http://127.0.0.1:9180",
+        config.adminAPI?.failover,
+      ),
+      control: new EndpointPool(
+        config.controlAPI?.baseURL || "http://127.0.0.1:9090",
+        config.controlAPI?.failover,
+      ),
+    };
+    this.apiKey = config.adminAPI?.apiKey;
+    this.adminTimeout = config.adminAPI?.timeout || 30000;
     this.controlTimeout = config.controlAPI?.timeout || this.adminTimeout;
-    this.adminHeaders = config.adminAPI.headers || {};
+    this.adminHeaders = config.adminAPI?.headers || {};
     this.controlHeaders = config.controlAPI?.headers || {};
 
-    // Initialize connection pool
-    this.connectionPool = {
-      admin: new Map(),
-      control: new Map(),
-      maxSize: 10,
-      ttl: 300000, // 5 minutes
+    // Initialize transports, connection pooling is delegated to them
+    const transport = this.createTransportOptions(config);
+    const sharedTransport = new Transport(transport);
+    const createTransport = (connection: ConnectionOptions) =>
+      connection.tls || connection.proxy
+        ? new Transport(transport, connection)
+        : sharedTransport;
+    this.transports = {
+      admin: createTransport(config.adminAPI ?? {}),
+      control: createTransport(config.controlAPI ?? {}),
+    };
+    this.fetchers = {
+      admin: createFetch({ fetch: this.transports.admin.fetch }),
+      control: createFetch({ fetch: this.transports.control.fetch }),
+    };
+
+    // Initialize per-API rate limiters
+    this.limiters = {
+      admin: new RateLimiter(config.adminAPI?.rateLimit),
+      control: new RateLimiter(config.controlAPI?.rateLimit),
     };
 
     // Initialize query cache
-    this.queryCache = new Map();
+    this.cache = new QueryCache(config.cache);
+
+    // Initialize retry policy
+    this.retryPolicy = config.retry ?? {};
+
+    // Initialize hook pipeline
+    this.hooks = new HookPipeline(config.hooks);
+  }
+
+  /**
+   * Serve requests from a standalone config file when one is configured
+   */
+  private createTransportOptions(
+    config: ApisixSDKConfig,
+  ): ApisixTransport | undefined {
+    if (!config.standalone) return config.transport;
+    if (config.transport) {
+      throw new ApisixValidationError(
+        "standalone cannot be combined with transport options",
+      );
+    }
+    const store = new StandaloneFileStore(config.standalone);
+    return { handler: (request) => store.handle(request) };
   }
 
   /**
@@ -169,38 +279,6 @@ export class ApisixClient {
     };
   }
 
-  /**
-   * Get or create connection from pool
-   */
-  private getConnection(url: string, isControlAPI: boolean): string {
-    const pool = isControlAPI
-      ? this.connectionPool.control
-      : this.connectionPool.admin;
-    const now = Date.now();
-
-    // Clean expired connections
-    for (const [key, conn] of pool.entries()) {
-      if (now - conn.lastUsed > this.connectionPool.ttl) {
-        pool.delete(key);
-      }
-    }
-
-    // Remove oldest connection if pool is full
-    if (pool.size >= this.connectionPool.maxSize) {
-      const oldestKey = pool.keys().next().value;
-      pool.delete(oldestKey);
-    }
-
-    // Add new connection
-    pool.set(url, {
-      url,
-      lastUsed: now,
-      keepAlive: true,
-    });
-
-    return url;
-  }
-
   /**
    * Generate cache key for request
    */
@@ -209,91 +287,79 @@ export class ApisixClient {
     options: {
       method?: string;
       params?: Record<string, string | number | boolean | string[] | undefined>;
+      baseURL?: string;
     },
   ): string {
     const method = options.method || "GET";
     const params = options.params ? JSON.stringify(options.params) : "";
-    return `${method}:${endpoint}:${params}`;
-  }
-
-  /**
-   * Get cached response if available and not expired
-   */
-  private getCachedResponse<T>(cacheKey: string): T | null {
-    const cached = this.queryCache.get(cacheKey);
-    if (!cached) return null;
-
-    if (Date.now() > cached.expires) {
-      this.queryCache.delete(cacheKey);
-      return null;
-    }
-
-    return cached.data as T;
+    return `${method}:${options.baseURL ?? ""}${endpoint}:${params}`;
   }
 
   /**
-   * Cache response data
+   * Refresh a stale cache entry in the background
    */
-  private cacheResponse(cacheKey: string, data: unknown): void {
-    this.queryCache.set(cacheKey, {
-      data,
-      expires: Date.now() + this.cacheTTL,
-    });
+  private revalidate(
+    cacheKey: string,
+    endpoint: string,
+    options: ClientRequestOptions,
+  ): void {
+    if (!this.cache.startRevalidation(cacheKey)) return;
+
+    const generation = this.cache.generation;
+    // The caller's signal must not cancel a refresh other callers benefit from
+    this.request(endpoint, { ...options, skipCache: true, signal: undefined })
+      .then((data) => {
+        if (this.cache.generation === generation) {
+          this.cache.set(cacheKey, endpoint, data);
+        }
+      })
+      // The stale entry keeps being served until its window ends
+      .catch(() => {})
+      .finally(() => this.cache.endRevalidation(cacheKey));
   }
 
   /**
-   * Smart retry with exponential backoff
+   * Smart retry driven by a retry policy
    */
   private async retryRequest<T>(
-    requestFn: () => Promise<T>,
-    maxAttempts: number = this.retryAttempts,
-    baseDelay: number = this.retryDelay,
+    requestFn: (attempt: number) => Promise<T>,
+    policy: ResolvedRetryPolicy,
+    onRetry?: (error: Error, delay: number) => Promise<void>,
   ): Promise<T> {
-    let lastError: Error = new Error("Unknown error");
+    const startTime = Date.now();
 
-    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    for (let attempt = 1; ; attempt++) {
       try {
-        return await requestFn();
+        return await requestFn(attempt);
       } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error));
+        const lastError =
+          error instanceof Error ? error : new Error(String(error));
 
-        // Don't retry on certain error types
-        if (this.isNonRetryableError(lastError)) {
+        if (!(await isRetryable(lastError, attempt, policy))) {
           throw lastError;
         }
 
-        if (attempt === maxAttempts) {
-          break;
+        // Stop when waiting would exceed the elapsed time budget
+        const delay = getRetryDelay(lastError, attempt, policy);
+        if (Date.now() - startTime + delay > policy.maxElapsedTime) {
+          throw lastError;
         }
 
-        // Exponential backoff with jitter
-        const delay = Math.min(
-          baseDelay * Math.pow(2, attempt - 1) + Math.random() * 100,
-          10000, // Max 10 seconds
-        );
-
+        await onRetry?.(lastError, delay);
         await new Promise((resolve) => setTimeout(resolve, delay));
       }
     }
-
-    throw lastError;
   }
 
   /**
-   * Check if error should not be retried
+   * Get the retry policy for a call: global, then scoped, then per call
    */
-  private isNonRetryableError(error: Error): boolean {
-    const nonRetryableMessages = [
-      "unauthorized",
-      "forbidden",
-      "not found",
-      "invalid",
-      "validation",
-      "already exists",
-    ];
-
-    const message = error.message.toLowerCase();
-    return nonRetryableMessages.some((msg) => message.includes(msg));
+  private getRetryPolicy(perCall?: RetryPolicy | false): RetryPolicy | false {
+    const scoped = this.retryScope?.getStore();
+    if (perCall === false || scoped === false) {
+      return false;
+    }
+    return mergeRetryPolicies(this.retryPolicy, scoped, perCall);
   }
 
   /**
@@ -301,14 +367,7 @@ export class ApisixClient {
    */
   protected async request<T>(
     endpoint: string,
-    options: {
-      method?: "GET" | "POST" | "PUT" | "PATCH" | "DELETE" | "HEAD";
-      headers?: Record<string, string>;
-      body?: Record<string, unknown> | string;
-      params?: Record<string, string | number | boolean | string[] | undefined>;
-      signal?: AbortSignal;
-      skipCache?: boolean;
-    } = {},
+    options: ClientRequestOptions = {},
   ): Promise<T> {
     // Determine if this is a Control API call based on endpoint
     const isControlAPI =
@@ -320,127 +379,347 @@ export class ApisixClient {
           endpoint.includes("healthcheck") ||
           endpoint.includes("discovery")));
 
-    const baseUrl = isControlAPI ? this.controlBaseURL : this.adminBaseURL;
+    const api = isControlAPI ? "control" : "admin";
+    const pool = this.endpoints[api];
     const timeout = isControlAPI ? this.controlTimeout : this.adminTimeout;
     const baseHeaders = isControlAPI ? this.controlHeaders : this.adminHeaders;
+    const method = options.method || "GET";
 
-    const url = `${baseUrl}${endpoint}`;
+    // Every attempt goes to an endpoint not tried yet, when one is available
+    const tried = new Set<string>();
+    let baseUrl = "";
+    const selectURL = () => {
+      baseUrl = options.baseURL?.replace(/\/$/, "") ?? pool.select(tried);
+      tried.add(baseUrl);
+      return `${baseUrl}${endpoint}`;
+    };
 
     // Check cache for GET requests (unless skipped)
-    if (options.method === "GET" || !options.method) {
-      const cacheKey = this.getCacheKey(endpoint, options);
-      const cached = this.getCachedResponse<T>(cacheKey);
-      if (cached && !options.skipCache) {
-        return cached;
+    const cacheKey = this.getCacheKey(endpoint, options);
+    if (method === "GET" && !options.skipCache) {
+      const cached = this.cache.get<T>(cacheKey);
+      if (cached) {
+        if (cached.stale) {
+          this.revalidate(cacheKey, endpoint, options);
+        }
+        return cached.data;
+      }
+    }
+    // Responses read while a write went through may already be outdated
+    const generation = this.cache.generation;
+
+    // Identical GETs join the call already in flight; a caller-owned signal
+    // could otherwise cancel the request for everyone sharing it
+    const coalesce = method === "GET" && !options.signal;
+    if (coalesce) {
+      const inFlight = this.inFlight.get(cacheKey);
+      if (inFlight && inFlight.generation === generation) {
+        this.coalescing.coalesced++;
+        return inFlight.promise as Promise<T>;
       }
     }
 
-    // Get connection from pool
-    this.getConnection(url, isControlAPI);
-
-    const requestConfig = {
-      timeout,
-      headers: {
-        "Content-Type": "application/json",
-        Connection: "keep-alive",
-        ...baseHeaders,
-        ...(!isControlAPI && this.apiKey && { "X-API-KEY": this.apiKey }),
-        ...options.headers,
-      },
-      method: options.method || "GET",
-      body: options.body,
-      params: options.params,
-      signal: options.signal,
+    const headers = {
+      "Content-Type": "application/json",
+      Connection: "keep-alive",
+      ...baseHeaders,
+      ...(!isControlAPI && this.apiKey && { "X-API-KEY": this.apiKey }),
+      ...options.headers,
     };
 
-    try {
-      // Use smart retry for the request
-      const response = await this.retryRequest(async () => {
-        const result = await $fetch<T>(url, requestConfig);
-
-        // Cache successful GET responses
-        if (
-          (options.method === "GET" || !options.method) &&
-          !options.skipCache
-        ) {
-          const cacheKey = this.getCacheKey(endpoint, options);
-          this.cacheResponse(cacheKey, result);
+    // Use smart retry for the request
+    const promise = this.runWithHooks<T>(
+      {
+        api,
+        method,
+        endpoint,
+        url: selectURL,
+        headers,
+        body: options.body,
+        params: options.params,
+      },
+      async (context) => {
+        const target = baseUrl;
+        const limiter = this.limiters[api];
+        let release: (() => void) | undefined;
+        try {
+          release = await limiter.acquire(options.signal);
+        } catch (error) {
+          throw this.toApisixError(
+            error,
+            context.method,
+            context.endpoint,
+            context.url,
+          );
         }
 
-        return result;
-      });
-
-      return response;
-    } catch (error: unknown) {
-      // Handle APISIX specific error responses
-      if (error && typeof error === "object" && "data" in error) {
-        const errorData = (error as { data?: unknown }).data;
-        if (
-          errorData &&
-          typeof errorData === "object" &&
-          "error_msg" in errorData
-        ) {
-          const apisixError = errorData as ErrorResponse;
-          throw new Error(
-            `APISIX API Error: ${apisixError.error_msg} [${options.method || "GET"} ${endpoint}]`,
+        const startTime = Date.now();
+        this.activeRequests[api]++;
+        try {
+          const data = await this.fetchers[api]<T>(context.url, {
+            timeout,
+            headers: context.headers,
+            method: context.method as typeof method,
+            body: context.body,
+            params: context.params,
+            signal: options.signal,
+            // Retries are handled by retryRequest so hooks observe every attempt
+            retry: false,
+          });
+          if (!options.baseURL) {
+            pool.reportSuccess(target, Date.now() - startTime);
+          }
+          limiter.reportSuccess();
+          return data;
+        } catch (error) {
+          const apisixError = this.toApisixError(
+            error,
+            context.method,
+            context.endpoint,
+            context.url,
           );
+          if (!options.baseURL && this.isEndpointFailure(apisixError)) {
+            pool.reportFailure(target);
+          }
+          if (apisixError.status === 429 || apisixError.status === 503) {
+            limiter.reportThrottle(apisixError.retryAfter);
+          }
+          throw apisixError;
+        } finally {
+          this.activeRequests[api]--;
+          release();
         }
+      },
+      this.getRetryPolicy(options.retry),
+    ).finally(() => {
+      // Failed writes may still have been applied, so invalidate regardless
+      if (method !== "GET" && method !== "HEAD") {
+        this.cache.invalidate(endpoint);
       }
+    });
+
+    if (coalesce) {
+      this.inFlight.set(cacheKey, { promise, generation });
+      this.coalescing.requests++;
+      promise
+        .finally(() => {
+          if (this.inFlight.get(cacheKey)?.promise === promise) {
+            this.inFlight.delete(cacheKey);
+          }
+        })
+        .catch(() => {});
+    }
+    const result = await promise;
+
+    // Cache successful GET responses
+    if (
+      method === "GET" &&
+      !options.skipCache &&
+      this.cache.generation === generation
+    ) {
+      this.cache.set(cacheKey, endpoint, result);
+    }
+
+    return result;
+  }
+
+  /**
+   * Send a raw request through the configured transport
+   */
+  public async rawFetch(
+    url: string,
+    init: RequestInit = {},
+    api: ApiKind = "control",
+  ): Promise<Response> {
+    this.activeRequests[api]++;
+    try {
+      return await this.transports[api].fetch(url, init);
+    } finally {
+      this.activeRequests[api]--;
+    }
+  }
+
+  /**
+   * Send a request through the hook pipeline, retrying according to `retry`
+   */
+  public async runWithHooks<T>(
+    init: Omit<RequestContext, "attempt" | "startTime" | "metadata" | "url"> & {
+      url: string | ((attempt: number) => string); // Resolved per attempt
+    },
+    send: (context: RequestContext) => Promise<T>,
+    retry: RetryPolicy | false = false,
+  ): Promise<T> {
+    const metadata: Record<string, unknown> = {};
+    const createContext = (attempt: number): RequestContext => ({
+      ...init,
+      url: typeof init.url === "function" ? init.url(attempt) : init.url,
+      headers: { ...init.headers },
+      attempt,
+      startTime: Date.now(),
+      metadata,
+    });
+    let context: RequestContext | undefined;
 
-      // Handle network and other errors
-      const message = error instanceof Error ? error.message : "Unknown error";
-      throw new Error(
-        `APISIX SDK Request failed: [${options.method || "GET"}] "${url}" - ${this.getErrorMessage(message, options.method || "GET", endpoint)}`,
+    try {
+      return await this.retryRequest(
+        async (attempt) => {
+          context = createContext(attempt);
+          await this.hooks.runRequest(context);
+
+          const data = await send(context);
+          const responseContext: ResponseContext = {
+            ...context,
+            data,
+            duration: Date.now() - context.startTime,
+          };
+          await this.hooks.runResponse(responseContext);
+
+          return responseContext.data as T;
+        },
+        resolveRetryPolicy(init.method as HttpMethod, retry),
+        async (error, delay) => {
+          if (!context) return;
+          await this.hooks.runRetry({
+            ...context,
+            error,
+            delay,
+            duration: Date.now() - context.startTime,
+          });
+        },
       );
+    } catch (error) {
+      if (context) {
+        await this.hooks.runError({
+          ...context,
+          error: error instanceof Error ? error : new Error(String(error)),
+          duration: Date.now() - context.startTime,
+        });
+      }
+      throw error;
     }
   }
 
   /**
-   * Get error message with suggestions
+   * Check if an error means the endpoint itself is unavailable
+   */
+  private isEndpointFailure(error: ApisixError): boolean {
+    if (error instanceof ApisixServerError) {
+      return true;
+    }
+    return error instanceof ApisixNetworkError && !isAborted(error);
+  }
+
+  /**
+   * Convert a transport failure into a typed SDK error
    */
-  private getErrorMessage(
-    originalMessage: string,
+  private toApisixError(
+    error: unknown,
     method: string,
     endpoint: string,
-  ): string {
-    const message = originalMessage.toLowerCase();
+    url: string,
+  ): ApisixError {
+    if (error instanceof ApisixError) {
+      return error;
+    }
 
-    // Network connectivity issues
-    if (
-      message.includes("econnrefused") ||
-      message.includes("connection refused")
-    ) {
-      return "Connection refused. Please check if APISIX is running and accessible.";
+    const fetchError = (error ?? {}) as {
+      status?: unknown;
+      data?: unknown;
+      response?: Response;
+    };
+    const status =
+      typeof fetchError.status === "number" ? fetchError.status : undefined;
+    const retryAfter = parseRetryAfter(
+      fetchError.response?.headers?.get("retry-after"),
+    );
+    const data = fetchError.data;
+    const errorMsg =
+      data && typeof data === "object" && "error_msg" in data
+        ? String((data as ErrorResponse).error_msg)
+        : undefined;
+    const options = {
+      status,
+      method,
+      endpoint,
+      url,
+      errorMsg,
+      retryAfter,
+      cause: error,
+    };
+
+    // Handle APISIX specific error responses
+    if (errorMsg !== undefined) {
+      return createApisixError(
+        `APISIX API Error: ${errorMsg} [${method} ${endpoint}]`,
+        options,
+      );
+    }
+
+    // Handle network and other errors
+    const originalMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    let apisixError: ApisixError;
+    if (status !== undefined) {
+      apisixError = createApisixError(originalMessage, options);
+    } else if (findCause(error, "TimeoutError")) {
+      apisixError = new ApisixTimeoutError(originalMessage, options);
+    } else {
+      apisixError = new ApisixNetworkError(originalMessage, options);
     }
 
+    apisixError.message = `APISIX SDK Request failed: [${method}] "${url}" - ${this.getErrorMessage(apisixError, originalMessage)}`;
+    return apisixError;
+  }
+
+  /**
+   * Get error message with suggestions
+   */
+  private getErrorMessage(error: ApisixError, originalMessage: string): string {
     // Timeout issues
-    if (message.includes("timeout")) {
+    if (error instanceof ApisixTimeoutError) {
       return "Request timeout. Consider increasing timeout or checking APISIX performance.";
     }
 
+    // Network connectivity issues
+    if (error instanceof ApisixNetworkError) {
+      if (isAborted(error)) {
+        return "Request was aborted.";
+      }
+      const message = originalMessage.toLowerCase();
+      if (
+        message.includes("econnrefused") ||
+        message.includes("connection refused") ||
+        message.includes("fetch failed")
+      ) {
+        return "Connection refused. Please check if APISIX is running and accessible.";
+      }
+      return originalMessage;
+    }
+
     // Authentication issues
-    if (message.includes("unauthorized") || message.includes("401")) {
+    if (error instanceof ApisixAuthError) {
       return "Authentication failed. Please check your API key and permissions.";
     }
 
     // Not found errors
-    if (message.includes("not found") || message.includes("404")) {
-      return `Resource not found. Check if the endpoint ${endpoint} exists.`;
+    if (error instanceof ApisixNotFoundError) {
+      return `Resource not found. Check if the endpoint ${error.endpoint} exists.`;
     }
 
     // Validation errors
-    if (message.includes("validation") || message.includes("invalid")) {
+    if (error instanceof ApisixValidationError) {
       return "Invalid request data. Please check your request format and required fields.";
     }
 
     // Rate limiting
-    if (
-      message.includes("rate limit") ||
-      message.includes("too many requests")
-    ) {
+    if (error instanceof ApisixRateLimitError) {
       return "Rate limit exceeded. Please wait before making another request.";
     }
 
+    if (error instanceof ApisixServerError) {
+      return `APISIX server error (${error.status}). ${originalMessage}`;
+    }
+
     // Return original message if no specific suggestion is available
     return originalMessage;
   }
@@ -451,10 +730,12 @@ export class ApisixClient {
   public async get<T>(
     endpoint: string,
     params?: Record<string, string | number | boolean | string[] | undefined>,
+    options?: RequestOptions,
   ): Promise<T> {
     return this.request<T>(endpoint, {
       method: "GET",
       params,
+      ...options,
     });
   }
 
@@ -464,14 +745,12 @@ export class ApisixClient {
   public async post<T>(
     endpoint: string,
     body?: Record<string, unknown> | string,
-    options?: {
-      signal?: AbortSignal;
-    },
+    options?: RequestOptions,
   ): Promise<T> {
     return this.request<T>(endpoint, {
       method: "POST",
       body,
-      signal: options?.signal,
+      ...options,
     });
   }
 
@@ -481,10 +760,12 @@ export class ApisixClient {
   public async put<T>(
     endpoint: string,
     body?: Record<string, unknown> | string,
+    options?: RequestOptions,
   ): Promise<T> {
     return this.request<T>(endpoint, {
       method: "PUT",
       body,
+      ...options,
     });
   }
 
@@ -494,19 +775,25 @@ export class ApisixClient {
   protected async patch<T>(
     endpoint: string,
     body?: Record<string, unknown> | string,
+    options?: RequestOptions,
   ): Promise<T> {
     return this.request<T>(endpoint, {
       method: "PATCH",
       body,
+      ...options,
     });
   }
 
   /**
    * DELETE request
    */
-  protected async delete<T>(endpoint: string): Promise<T> {
+  protected async delete<T>(
+    endpoint: string,
+    options?: RequestOptions,
+  ): Promise<T> {
     return this.request<T>(endpoint, {
       method: "DELETE",
+      ...options,
     });
   }
 
@@ -526,6 +813,16 @@ export class ApisixClient {
     endpoint: string,
     options?: ListOptions,
   ): Promise<ApisixListResponse<T>> {
+    // Label selectors are evaluated here, APISIX does not understand them
+    if (options?.selector !== undefined) {
+      const { selector, ...rest } = options;
+      const requirements = parseSelector(selector);
+      const response = await this.list<T>(endpoint, rest);
+      return this.filterListResponse(response, (item) =>
+        matchesLabels(item, requirements),
+      );
+    }
+
     // If pagination parameters are provided, check if supported
     if (options && (options.page || options.page_size)) {
       const supportsPag = await this.supportsPagination();
@@ -543,6 +840,307 @@ export class ApisixClient {
     return this.get<ApisixListResponse<T>>(endpoint, options);
   }
 
+  /**
+   * Drop list entries whose value fails a predicate, keeping the response shape
+   * The server-reported total is kept, so pagination still lines up
+   */
+  private filterListResponse<T>(
+    response: ApisixListResponse<T>,
+    predicate: (item: T) => boolean,
+  ): ApisixListResponse<T> {
+    if (Array.isArray(response?.list)) {
+      return {
+        ...response,
+        list: response.list.filter((entry) => predicate(entry.value)),
+      };
+    }
+    if (Array.isArray(response?.node?.nodes)) {
+      return {
+        ...response,
+        node: {
+          ...response.node,
+          nodes: response.node.nodes.filter((entry) => predicate(entry.value)),
+        },
+      };
+    }
+    return response;
+  }
+
+  /**
+   * Iterate over every item of a list endpoint, fetching pages lazily
+   *
+   * APISIX 3.x is walked page by page; 2.x has no pagination, so everything
+   * is listed at once. Pages bypass the query cache to keep it small.
+   */
+  public async *iterate<T>(
+    endpoint: string,
+    options: ListOptions = {},
+    requestOptions: RequestOptions = {},
+  ): AsyncGenerator<T, void, undefined> {
+    if (options.selector !== undefined) {
+      const { selector, ...rest } = options;
+      const requirements = parseSelector(selector);
+      for await (const item of this.iterate<T>(
+        endpoint,
+        rest,
+        requestOptions,
+      )) {
+        if (matchesLabels(item, requirements)) yield item;
+      }
+      return;
+    }
+
+    const { signal } = requestOptions;
+    const fetchPage = (params: ListOptions) =>
+      this.get<ApisixListResponse<T>>(endpoint, params, {
+        ...requestOptions,
+        skipCache: true,
+      });
+    const throwIfAborted = () => {
+      if (signal?.aborted) {
+        throw this.toApisixError(signal.reason, "GET", endpoint, endpoint);
+      }
+    };
+
+    throwIfAborted();
+    if (!(await this.supportsPagination())) {
+      const { page: _page, page_size: _page_size, ...params } = options;
+      for (const item of this.extractList<T>(await fetchPage(params))) {
+        throwIfAborted();
+        yield item;
+      }
+      return;
+    }
+
+    // APISIX accepts page sizes between 10 and 500
+    const pageSize = Math.min(500, Math.max(10, options.page_size ?? 100));
+    for (let page = options.page ?? 1; ; page++) {
+      throwIfAborted();
+      const response = await fetchPage({
+        ...options,
+        page,
+        page_size: pageSize,
+      });
+      const items = this.extractList<T>(response);
+      for (const item of items) {
+        throwIfAborted();
+        yield item;
+      }
+
+      // A short page ends the walk even when the total is missing
+      const { total } = response;
+      if (
+        items.length < pageSize ||
+        (typeof total === "number" && page * pageSize >= total)
+      ) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Find resources matching a filter
+   * Filters APISIX 3.x understands are sent as query parameters, the rest are
+   * applied to the fetched items
+   */
+  public async query<T>(
+    endpoint: string,
+    filter: ResourceFilter<T> = {},
+    requestOptions: RequestOptions = {},
+  ): Promise<FilterResult<T>> {
+    const { params, pushedDown, clientSide } = splitFilter(
+      filter,
+      await this.isVersion3OrLater(),
+    );
+
+    const items: T[] = [];
+    for await (const item of this.iterate<T>(
+      endpoint,
+      params,
+      requestOptions,
+    )) {
+      if (matchesFilter(item, filter, clientSide)) {
+        items.push(item);
+      }
+    }
+    return { items, pushedDown, clientSide };
+  }
+
+  /**
+   * Delete every resource whose labels match a selector
+   * Matches are collected before the first deletion, then removed one by one;
+   * resolves with the IDs that were deleted
+   */
+  public async deleteMany<T>(
+    endpoint: string,
+    selector: LabelSelector,
+    remove: (id: string) => Promise<unknown>,
+  ): Promise<string[]> {
+    const requirements =
+      typeof selector === "string" ? parseSelector(selector) : selector;
+    if (requirements.length === 0) {
+      throw new ApisixValidationError(
+        "deleteMany requires a non-empty label selector",
+      );
+    }
+
+    const ids: string[] = [];
+    for await (const item of this.iterate<T>(endpoint)) {
+      const { id, username } = item as { id?: string; username?: string };
+      const key = id ?? username;
+      if (key !== undefined && matchesLabels(item, requirements)) {
+        ids.push(String(key));
+      }
+    }
+
+    for (const id of ids) {
+      await remove(id);
+    }
+    return ids;
+  }
+
+  /**
+   * Apply a JSON merge patch, or a function, to every selected resource
+   */
+  public async updateMany<T>(
+    endpoint: string,
+    selection: ResourceSelection<T>,
+    patch: MergePatch<T> | ((item: T) => T),
+    options?: BulkOptions,
+  ): Promise<BulkReport<T>> {
+    const mutate =
+      typeof patch === "function"
+        ? (patch as (item: T) => T)
+        : (item: T) => applyMergePatch(item, patch);
+    return this.mutateMany(endpoint, selection, mutate, options);
+  }
+
+  /**
+   * Add or replace a plugin on every selected resource
+   */
+  public async addPluginToMany<T>(
+    endpoint: string,
+    selection: ResourceSelection<T>,
+    pluginName: string,
+    config: Record<string, unknown>,
+    options?: BulkOptions,
+  ): Promise<BulkReport<T>> {
+    return this.mutateMany<T>(
+      endpoint,
+      selection,
+      (item) => {
+        const { plugins } = item as { plugins?: Record<string, unknown> };
+        return { ...item, plugins: { ...plugins, [pluginName]: config } };
+      },
+      options,
+    );
+  }
+
+  /**
+   * Remove a plugin from every selected resource that has it
+   */
+  public async removePluginFromMany<T>(
+    endpoint: string,
+    selection: ResourceSelection<T>,
+    pluginName: string,
+    options?: BulkOptions,
+  ): Promise<BulkReport<T>> {
+    return this.mutateMany<T>(
+      endpoint,
+      selection,
+      (item) => {
+        const { plugins } = item as { plugins?: Record<string, unknown> };
+        if (!plugins || !(pluginName in plugins)) return item;
+        const { [pluginName]: _removed, ...rest } = plugins;
+        return { ...item, plugins: rest };
+      },
+      options,
+    );
+  }
+
+  /**
+   * Merge labels into every selected resource, `null` removes a label
+   */
+  public async setLabelsOnMany<T>(
+    endpoint: string,
+    selection: ResourceSelection<T>,
+    labels: Record<string, string | null>,
+    options?: BulkOptions,
+  ): Promise<BulkReport<T>> {
+    return this.mutateMany<T>(
+      endpoint,
+      selection,
+      (item) => applyMergePatch(item, { labels }),
+      options,
+    );
+  }
+
+  /**
+   * Select resources, then rewrite each one through modify()
+   * Items whose mutation changes nothing are skipped; failures are reported
+   * per item instead of aborting the run
+   */
+  private async mutateMany<T>(
+    endpoint: string,
+    selection: ResourceSelection<T>,
+    mutate: (item: T) => T,
+    options: BulkOptions = {},
+  ): Promise<BulkReport<T>> {
+    const { dryRun = false, concurrency = 5, ...modifyOptions } = options;
+    const filter =
+      typeof selection === "string" || Array.isArray(selection)
+        ? { selector: selection }
+        : selection;
+    const { items } = await this.query<T>(endpoint, filter);
+
+    const results = await mapConcurrent(
+      items,
+      concurrency,
+      async (before): Promise<BulkItemResult<T>> => {
+        const { id: key, username } = before as {
+          id?: string;
+          username?: string;
+        };
+        const id = String(key ?? username);
+        try {
+          const after = mutate(structuredClone(before));
+          if (isJsonEqual(before, after)) {
+            return { id, status: "unchanged", before };
+          }
+          if (dryRun) {
+            return { id, status: "planned", before, after };
+          }
+          const updated = await this.modify<T>(
+            endpoint,
+            id,
+            mutate,
+            modifyOptions,
+          );
+          return { id, status: "updated", before, after: updated };
+        } catch (error) {
+          return {
+            id,
+            status: "failed",
+            before,
+            error: error instanceof Error ? error.message : "Unknown error",
+          };
+        }
+      },
+    );
+
+    const count = (status: BulkItemResult<T>["status"]) =>
+      results.filter((result) => result.status === status).length;
+    return {
+      dryRun,
+      matched: items.length,
+      updated: count("updated"),
+      planned: count("planned"),
+      unchanged: count("unchanged"),
+      failed: count("failed"),
+      results,
+    };
+  }
+
   /**
    * Get single resource
    */
@@ -627,21 +1225,19 @@ export class ApisixClient {
     const isV3 = await this.isVersion3OrLater();
 
     // Handle version-specific response formats
-    let value: T | undefined;
-    let key: string | undefined;
+    let item: { key?: string; value?: T } & Omit<ResourceRevision, "key">;
 
     if (!isV3 && response.node) {
       // Legacy format (v2.x): { node: { value: {} } }
-      value = response.node.value;
-      key = response.node.key;
+      item = response.node;
     } else if ("value" in response && "key" in response) {
       // New format (v3.x): { key: "", value: {} }
-      value = (response as ApisixResponse<T>).value;
-      key = (response as ApisixResponse<T>).key;
+      item = response;
     } else {
       return {} as T;
     }
 
+    const { value, key } = item;
     if (!value) {
       return {} as T;
     }
@@ -649,8 +1245,138 @@ export class ApisixClient {
     // Set additional metadata
     if (key && typeof value === "object" && value !== null) {
       (value as Record<string, unknown>).id = key.split("/").pop() || key;
+      setRevision(value, {
+        key,
+        createdIndex: item.createdIndex,
+        modifiedIndex: item.modifiedIndex,
+      });
+    }
+
+    return value;
+  }
+
+  /**
+   * Read the current revision of a resource, bypassing the cache
+   */
+  public async getRevision(
+    endpoint: string,
+    id: string,
+  ): Promise<ResourceRevision | undefined> {
+    try {
+      const response = await this.get<ApisixResponse<unknown>>(
+        `${endpoint}/${id}`,
+        undefined,
+        { skipCache: true },
+      );
+      const item = response.node ?? response;
+      return {
+        key: item.key ?? `${endpoint}/${id}`,
+        createdIndex: item.createdIndex,
+        modifiedIndex: item.modifiedIndex,
+      };
+    } catch (error) {
+      if (error instanceof ApisixNotFoundError) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Write a resource only if it is still at the expected revision
+   *
+   * APISIX has no conditional writes, so the revision is checked right before
+   * the write; a change landing in between is not detected.
+   */
+  public async compareAndSwap<T>(
+    endpoint: string,
+    id: string,
+    data: Record<string, unknown>,
+    options: { method?: "PUT" | "PATCH"; revision?: number } = {},
+  ): Promise<ApisixResponse<T>> {
+    const method = options.method ?? "PUT";
+    const expected = options.revision ?? getRevision(data)?.modifiedIndex;
+    if (expected === undefined) {
+      throw new ApisixValidationError(
+        `No revision to compare against for ${endpoint}/${id}, read the resource first or pass a revision`,
+        { method, endpoint: `${endpoint}/${id}` },
+      );
+    }
+
+    const current = await this.getRevision(endpoint, id);
+    if (current?.modifiedIndex !== expected) {
+      throw new ApisixRevisionConflictError(
+        `Resource ${endpoint}/${id} was modified concurrently (expected revision ${expected}, found ${current?.modifiedIndex ?? "none"})`,
+        {
+          status: 409,
+          method,
+          endpoint: `${endpoint}/${id}`,
+          expectedRevision: expected,
+          currentRevision: current?.modifiedIndex,
+        },
+      );
+    }
+
+    return method === "PATCH"
+      ? this.partialUpdate<T>(endpoint, id, data)
+      : this.update<T>(endpoint, id, data);
+  }
+
+  /**
+   * Read a resource, apply `fn` and write it back, starting over on conflicts
+   */
+  public async modify<T>(
+    endpoint: string,
+    id: string,
+    fn: (current: T) => T | Promise<T>,
+    options: ModifyOptions = {},
+  ): Promise<T> {
+    const maxAttempts = Math.max(1, options.maxAttempts ?? 5);
+
+    for (let attempt = 1; ; attempt++) {
+      const current = await this.extractValue(
+        await this.get<ApisixResponse<T>>(`${endpoint}/${id}`, undefined, {
+          skipCache: true,
+        }),
+      );
+      const revision = getRevision(current)?.modifiedIndex;
+      const next = await fn(structuredClone(current));
+
+      try {
+        return await this.extractValue(
+          await this.compareAndSwap<T>(
+            endpoint,
+            id,
+            next as Record<string, unknown>,
+            { revision },
+          ),
+        );
+      } catch (error) {
+        if (
+          !(error instanceof ApisixRevisionConflictError) ||
+          attempt >= maxAttempts
+        ) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Unwrap a list item, attaching its revision
+   */
+  private extractListItem<T>(item: unknown): T {
+    if (!item || typeof item !== "object" || !("value" in item)) {
+      return item as T;
     }
 
+    const { key, value, createdIndex, modifiedIndex } = item as {
+      key?: string;
+      value: T;
+    } & Omit<ResourceRevision, "key">;
+    if (key) {
+      setRevision(value, { key, createdIndex, modifiedIndex });
+    }
     return value;
   }
 
@@ -666,12 +1392,7 @@ export class ApisixClient {
 
     // Handle v3.x format with list array
     if (resp.list && Array.isArray(resp.list)) {
-      return resp.list.map((item: unknown) => {
-        if (item && typeof item === "object" && "value" in item) {
-          return (item as { value: T }).value;
-        }
-        return item as T;
-      });
+      return resp.list.map((item: unknown) => this.extractListItem<T>(item));
     }
 
     // Handle legacy v2.x format with node.nodes array
@@ -681,12 +1402,9 @@ export class ApisixClient {
       "nodes" in resp.node &&
       Array.isArray((resp.node as { nodes: unknown[] }).nodes)
     ) {
-      return (resp.node as { nodes: unknown[] }).nodes.map((item: unknown) => {
-        if (item && typeof item === "object" && "value" in item) {
-          return (item as { value: T }).value;
-        }
-        return item as T;
-      });
+      return (resp.node as { nodes: unknown[] }).nodes.map((item: unknown) =>
+        this.extractListItem<T>(item),
+      );
     }
 
     // Handle direct array response
@@ -711,7 +1429,10 @@ export class ApisixClient {
   /**
    * Extract pagination info from response
    */
-  extractPaginationInfo(response: unknown): {
+  extractPaginationInfo(
+    response: unknown,
+    request?: Pick<ListOptions, "page" | "page_size">,
+  ): {
     total: number;
     hasMore: boolean;
   } {
@@ -724,10 +1445,12 @@ export class ApisixClient {
     // Handle v3.x format
     if (typeof resp.total === "number") {
       const data = this.extractList(resp);
+      const page = Number(request?.page) || 1;
+      const pageSize = Number(request?.page_size ?? resp.page_size) || 10;
       return {
         total: resp.total,
         hasMore:
-          data.length > 0 && data.length >= (Number(resp.page_size) || 10),
+          data.length > 0 && (page - 1) * pageSize + data.length < resp.total,
       };
     }
 
@@ -780,6 +1503,8 @@ export class ApisixClient {
       headers?: Record<string, string>;
       body?: Record<string, unknown> | string;
       params?: Record<string, string | number | boolean | string[] | undefined>;
+      skipCache?: boolean;
+      baseURL?: string;
     } = {},
   ): Promise<T> {
     return this.request<T>(endpoint, options);
@@ -827,7 +1552,9 @@ export class ApisixClient {
         switch (operation.operation) {
           case "create": {
             if (!operation.data) {
-              throw new Error("Data is required for create operation");
+              throw new ApisixValidationError(
+                "Data is required for create operation",
+              );
             }
             const createResponse = await this.create<T>(
               endpoint,
@@ -840,7 +1567,9 @@ export class ApisixClient {
 
           case "update": {
             if (!operation.id || !operation.data) {
-              throw new Error("ID and data are required for update operation");
+              throw new ApisixValidationError(
+                "ID and data are required for update operation",
+              );
             }
             const updateResponse = await this.update<T>(
               endpoint,
@@ -853,14 +1582,18 @@ export class ApisixClient {
 
           case "delete":
             if (!operation.id) {
-              throw new Error("ID is required for delete operation");
+              throw new ApisixValidationError(
+                "ID is required for delete operation",
+              );
             }
             await this.remove<T>(endpoint, operation.id);
             result = { success: true } as T;
             break;
 
           default:
-            throw new Error(`Unsupported operation: ${operation.operation}`);
+            throw new ApisixValidationError(
+              `Unsupported operation: ${operation.operation}`,
+            );
         }
 
         results.push({
@@ -903,6 +1636,7 @@ export class ApisixClient {
       strategy?: "replace" | "merge" | "skip_existing";
       validate?: boolean;
       dryRun?: boolean;
+      format?: "json" | "yaml"; // Of string data, default JSON with YAML fallback
     },
   ): Promise<{
     total: number;
@@ -917,12 +1651,7 @@ export class ApisixClient {
     let parsedData: T[];
 
     if (typeof data === "string") {
-      try {
-        parsedData = JSON.parse(data);
-      } catch (error) {
-        console.error("Error parsing JSON:", error);
-        throw new Error("Invalid JSON data provided");
-      }
+      parsedData = this.parseImportData<T>(data, options?.format);
     } else {
       parsedData = data;
     }
@@ -1053,36 +1782,39 @@ export class ApisixClient {
       return JSON.stringify(filteredData, null, options?.pretty ? 2 : 0);
     }
     if (format === "yaml") {
-      // Simple YAML serialization (would typically use a proper YAML library)
-      return this.toYaml(filteredData);
+      return stringifyYaml(filteredData);
     }
 
-    throw new Error(`Unsupported export format: ${format}`);
+    throw new ApisixValidationError(`Unsupported export format: ${format}`);
   }
 
   /**
-   * Simple YAML serialization (basic implementation)
+   * Parse import data; each YAML document holds one resource or a list
    */
-  private toYaml(data: unknown, indent = 0): string {
-    const spaces = " ".repeat(indent);
-
-    if (Array.isArray(data)) {
-      return data
-        .map((item) => `${spaces}- ${this.toYaml(item, indent + 2).trim()}`)
-        .join("\n");
+  private parseImportData<T>(data: string, format?: "json" | "yaml"): T[] {
+    if (format !== "yaml") {
+      try {
+        return JSON.parse(data);
+      } catch (error) {
+        if (format === "json") {
+          throw new ApisixValidationError("Invalid JSON data provided", {
+            cause: error,
+          });
+        }
+      }
     }
-    if (data !== null && typeof data === "object") {
-      const obj = data as Record<string, unknown>;
-      return Object.entries(obj)
-        .map(([key, value]) => {
-          if (typeof value === "object" && value !== null) {
-            return `${spaces}${key}:\n${this.toYaml(value, indent + 2)}`;
-          }
-          return `${spaces}${key}: ${value}`;
-        })
-        .join("\n");
+
+    const items: T[] = [];
+    for (const document of parseYamlDocuments(data)) {
+      if (document === null) continue;
+      if (typeof document !== "object") {
+        throw new ApisixValidationError(
+          "Import data must be a list of resources",
+        );
+      }
+      items.push(...((Array.isArray(document) ? document : [document]) as T[]));
     }
-    return String(data);
+    return items;
   }
 
   /**
@@ -1092,8 +1824,11 @@ export class ApisixClient {
     try {
       await this.getOne(endpoint, id);
       return true;
-    } catch {
-      return false;
+    } catch (error) {
+      if (error instanceof ApisixNotFoundError) {
+        return false;
+      }
+      throw error;
     }
   }
 
@@ -1103,7 +1838,7 @@ export class ApisixClient {
   private async validateData(data: unknown): Promise<boolean> {
     // This would typically use a schema validation library
     if (!data || typeof data !== "object") {
-      throw new Error("Invalid data format");
+      throw new ApisixValidationError("Invalid data format");
     }
     return true;
   }
@@ -1112,110 +1847,161 @@ export class ApisixClient {
    * Clear query cache
    */
   public clearCache(): void {
-    this.queryCache.clear();
+    this.cache.clear();
   }
 
   /**
    * Clear cache for specific endpoint
    */
   public clearCacheForEndpoint(endpoint: string): void {
-    const keysToDelete: string[] = [];
-    for (const [key] of this.queryCache.entries()) {
-      if (key.includes(endpoint)) {
-        keysToDelete.push(key);
-      }
-    }
-    keysToDelete.forEach((key) => this.queryCache.delete(key));
+    this.cache.deleteMatching(endpoint);
   }
 
   /**
    * Get cache statistics
    */
-  public getCacheStats(): {
-    totalEntries: number;
-    expiredEntries: number;
-    sizeInBytes: number;
-  } {
-    const now = Date.now();
-    let expiredCount = 0;
-    let totalSize = 0;
-
-    for (const [key, value] of this.queryCache.entries()) {
-      if (now > value.expires) {
-        expiredCount++;
-      }
-      totalSize += key.length + JSON.stringify(value).length;
-    }
-
-    return {
-      totalEntries: this.queryCache.size,
-      expiredEntries: expiredCount,
-      sizeInBytes: totalSize,
-    };
+  public getCacheStats(): CacheStats {
+    return this.cache.getStats();
   }
 
   /**
-   * Clear connection pool
+   * Release pooled connections of the transports' TLS and proxy dispatchers
+   * Connections close in the background; later requests open new ones
    */
   public clearConnectionPool(): void {
-    this.connectionPool.admin.clear();
-    this.connectionPool.control.clear();
+    for (const transport of new Set(Object.values(this.transports))) {
+      // Closing only fails for a dispatcher that is already gone
+      transport.close().catch(() => undefined);
+    }
   }
 
   /**
-   * Get connection pool statistics
+   * Get connection statistics (requests currently in flight per API)
    */
   public getConnectionPoolStats(): {
     adminConnections: number;
     controlConnections: number;
     totalConnections: number;
-    maxPoolSize: number;
-    ttl: number;
+    transport: Record<ApiKind, TransportKind>;
   } {
     return {
-      adminConnections: this.connectionPool.admin.size,
-      controlConnections: this.connectionPool.control.size,
-      totalConnections:
-        this.connectionPool.admin.size + this.connectionPool.control.size,
-      maxPoolSize: this.connectionPool.maxSize,
-      ttl: this.connectionPool.ttl,
+      adminConnections: this.activeRequests.admin,
+      controlConnections: this.activeRequests.control,
+      totalConnections: this.activeRequests.admin + this.activeRequests.control,
+      transport: {
+        admin: this.transports.admin.kind,
+        control: this.transports.control.kind,
+      },
     };
   }
 
+  /**
+   * Get statistics of identical in-flight GETs sharing one network call
+   */
+  public getCoalescingStats(): CoalescingStats {
+    return {
+      inFlight: this.inFlight.size,
+      ...this.coalescing,
+    };
+  }
+
+  /**
+   * Get rate limiter statistics per API
+   */
+  public getRateLimitStats(): Record<ApiKind, RateLimitStats> {
+    return {
+      admin: this.limiters.admin.getStats(),
+      control: this.limiters.control.getStats(),
+    };
+  }
+
+  /**
+   * Configure rate limiting and concurrency for one API
+   */
+  public configureRateLimit(api: ApiKind, options: RateLimitOptions): void {
+    this.limiters[api].configure(options);
+  }
+
+  /**
+   * Get health statistics of every configured endpoint
+   */
+  public getEndpointStats(): Record<ApiKind, EndpointStats[]> {
+    return {
+      admin: this.endpoints.admin.getStats(),
+      control: this.endpoints.control.getStats(),
+    };
+  }
+
+  /**
+   * Actively probe Admin API endpoints, ejecting or restoring them
+   */
+  public startHealthProbes(
+    probe: (baseURL: string, index: number) => Promise<boolean>,
+    interval: number,
+  ): void {
+    this.endpoints.admin.startProbing(probe, interval);
+  }
+
+  /**
+   * Stop active endpoint probing
+   */
+  public stopHealthProbes(): void {
+    this.endpoints.admin.stopProbing();
+  }
+
   /**
    * Configure retry settings
    */
-  public configureRetry(options: {
-    maxAttempts?: number;
-    baseDelay?: number;
-  }): void {
-    if (options.maxAttempts) {
-      this.retryAttempts = Math.max(1, options.maxAttempts);
-    }
-    if (options.baseDelay) {
-      this.retryDelay = Math.max(100, options.baseDelay);
-    }
+  public configureRetry(options: RetryPolicy): void {
+    this.retryPolicy = mergeRetryPolicies(this.retryPolicy, options);
+  }
+
+  /**
+   * Run `fn` with a retry policy applied to every request it makes
+   *
+   * The scope is tracked with `node:async_hooks`, imported on first use so the
+   * client still loads in runtimes without it.
+   */
+  public async withRetryPolicy<T>(
+    policy: RetryPolicy | false,
+    fn: () => Promise<T>,
+  ): Promise<T> {
+    const { AsyncLocalStorage } = await import("node:async_hooks");
+    this.retryScope ??= new AsyncLocalStorage();
+    const outer = this.retryScope.getStore();
+    const scoped =
+      policy === false || outer === false
+        ? false
+        : mergeRetryPolicies(outer, policy);
+    return this.retryScope.run(scoped, fn);
   }
 
   /**
    * Configure cache settings
    */
-  public configureCache(options: { ttl?: number; maxSize?: number }): void {
-    if (options.ttl) {
-      this.cacheTTL = Math.max(1000, options.ttl);
-    }
-    if (options.maxSize) {
-      // Clean cache if new max size is smaller than current size
-      if (this.queryCache.size > options.maxSize) {
-        const entries = Array.from(this.queryCache.entries());
-        entries.sort((a, b) => a[1].expires - b[1].expires);
-        const toDelete = entries.slice(
-          0,
-          this.queryCache.size - options.maxSize,
-        );
-        toDelete.forEach(([key]) => this.queryCache.delete(key));
-      }
-    }
+  public configureCache(options: CacheOptions): void {
+    this.cache.configure(options);
+  }
+
+  /**
+   * Register request lifecycle hooks, returns a function that unregisters them
+   */
+  public addHooks(hooks: ApisixHooks): () => void {
+    return this.hooks.add(hooks);
+  }
+
+  /**
+   * Unregister request lifecycle hooks
+   */
+  public removeHooks(hooks: ApisixHooks): boolean {
+    return this.hooks.remove(hooks);
+  }
+
+  /**
+   * Remove all registered hooks
+   */
+  public clearHooks(): void {
+    this.hooks.clear();
   }
 
   /**
@@ -0,0 +1,450 @@
+import { isJsonEqual } from "./bulk";
+import {
+  CONFIG_KINDS,
+  getKindInfo,
+  getResourceKey,
+  PLUGIN_DEFAULTS,
+  SERVER_DEFAULTS,
+  SERVER_MANAGED_FIELDS,
+  UPSTREAM_DEFAULTS,
+} from "./kinds";
+import { matchesLabels, parseSelector } from "./selector";
+import type {
+  ApisixConfig,
+  ConfigDiff,
+  ConfigKind,
+  DiffOptions,
+  FieldChange,
+  ResourceDiff,
+} from "./types";
+
+type Item = Record<string, unknown>;
+
+/**
+ * Bring a resource into a canonical shape for comparison
+ *
+ * Drops server-managed fields and the ID (it is the resource key), turns
+ * upstream `nodes` into a sorted array and a single-element route `uris` or
+ * `hosts` into `uri` or `host`.
+ */
+export function normalizeResource(kind: ConfigKind, item: unknown): Item {
+  const omitted = [...SERVER_MANAGED_FIELDS, "id", getKindInfo(kind).idField];
+  if (kind === "credentials") omitted.push("consumer");
+  const result = Object.fromEntries(
+    Object.entries(item as Item).filter(([key]) => !omitted.includes(key)),
+  );
+
+  if (kind === "upstreams") {
+    normalizeNodes(result);
+  } else if (isObject(result.upstream)) {
+    result.upstream = normalizeNodes({ ...result.upstream });
+  }
+  if (kind === "routes") {
+    collapseSingle(result, "uris", "uri");
+    collapseSingle(result, "hosts", "host");
+  }
+  return result;
+}
+
+/**
+ * Field-level changes that turn `live` into `desired`
+ *
+ * A field only set on the live side, at any depth, is removed unless it holds
+ * the value APISIX fills in by default for the resource, an upstream or a
+ * plugin.
+ */
+export function diffResource(
+  kind: ConfigKind,
+  desired: unknown,
+  live: unknown,
+): FieldChange[] {
+  const wanted = normalizeResource(kind, desired);
+  const changes: FieldChange[] = [];
+  compare(
+    wanted,
+    withoutDefaults(kind, normalizeResource(kind, live), wanted, []),
+    "",
+    changes,
+  );
+  return changes;
+}
+
+/**
+ * Compare a configuration document with live state
+ *
+ * Only kinds present in `desired` are compared. Live resources missing from
+ * the document are reported as removed, limited to `selector` when given;
+ * a selector leaves out kinds without labels, such as global rules.
+ */
+export function diffConfig(
+  desired: ApisixConfig,
+  live: ApisixConfig,
+  options: DiffOptions = {},
+): ConfigDiff {
+  const selector =
+    typeof options.selector === "string"
+      ? parseSelector(options.selector)
+      : options.selector;
+  const entries: ResourceDiff[] = [];
+  let unchanged = 0;
+
+  for (const { kind, labelled } of CONFIG_KINDS) {
+    const wanted = desired[kind] as Item[] | undefined;
+    if (wanted === undefined) continue;
+
+    const existing = new Map(
+      ((live[kind] ?? []) as Item[]).map((item) => [
+        getResourceKey(kind, item),
+        item,
+      ]),
+    );
+    for (const item of wanted) {
+      const id = getResourceKey(kind, item);
+      const current = existing.get(id);
+      existing.delete(id);
+
+      const normalized = normalizeResource(kind, item);
+      if (!current) {
+        entries.push({
+          kind,
+          id,
+          type: "added",
+          changes: [{ op: "add", path: "", value: normalized }],
+          desired: normalized,
+        });
+        continue;
+      }
+
+      const changes = diffResource(kind, item, current);
+      if (changes.length === 0) {
+        unchanged++;
+        continue;
+      }
+      entries.push({
+        kind,
+        id,
+        type: "changed",
+        changes,
+        desired: normalized,
+        live: withoutDefaults(
+          kind,
+          normalizeResource(kind, current),
+          normalized,
+          [],
+        ),
+      });
+    }
+
+    for (const [id, current] of existing) {
+      // Kinds without labels cannot be owned, whatever the selector
+      if (selector && (!labelled || !matchesLabels(current, selector))) {
+        continue;
+      }
+      const normalized = normalizeResource(kind, current);
+      entries.push({
+        kind,
+        id,
+        type: "removed",
+        changes: [{ op: "remove", path: "", previous: normalized }],
+        live: normalized,
+      });
+    }
+  }
+
+  const count = (type: ResourceDiff["type"]) =>
+    entries.filter((entry) => entry.type === type).length;
+  return {
+    added: count("added"),
+    changed: count("changed"),
+    removed: count("removed"),
+    unchanged,
+    entries,
+  };
+}
+
+/**
+ * Render a diff as unified text, e.g. for a pull request comment
+ */
+export function formatDiff(diff: ConfigDiff, context = 3): string {
+  const output: string[] = [];
+  for (const entry of diff.entries) {
+    const name = `${entry.kind}/${entry.id}`;
+    const before = entry.live === undefined ? [] : toLines(entry.live);
+    const after = entry.desired === undefined ? [] : toLines(entry.desired);
+
+    output.push(
+      entry.type === "added" ? "--- /dev/null" : `--- live/${name}`,
+      entry.type === "removed" ? "+++ /dev/null" : `+++ desired/${name}`,
+      ...unifiedHunks(before, after, context),
+    );
+  }
+  return output.length ? `${output.join("\n")}\n` : "";
+}
+
+function compare(
+  desired: unknown,
+  live: unknown,
+  path: string,
+  changes: FieldChange[],
+): void {
+  if (isObject(desired) && isObject(live)) {
+    for (const [key, value] of Object.entries(desired)) {
+      const child = `${path}/${escapePointer(key)}`;
+      if (live[key] === undefined) {
+        changes.push({ op: "add", path: child, value });
+      } else {
+        compare(value, live[key], child, changes);
+      }
+    }
+    for (const [key, previous] of Object.entries(live)) {
+      if (desired[key] === undefined) {
+        changes.push({
+          op: "remove",
+          path: `${path}/${escapePointer(key)}`,
+          previous,
+        });
+      }
+    }
+    return;
+  }
+
+  if (
+    Array.isArray(desired) &&
+    Array.isArray(live) &&
+    desired.length === live.length
+  ) {
+    desired.forEach((value, index) =>
+      compare(value, live[index], `${path}/${index}`, changes),
+    );
+    return;
+  }
+
+  if (!isJsonEqual(desired, live)) {
+    changes.push({ op: "replace", path, value: desired, previous: live });
+  }
+}
+
+/**
+ * Drop live fields the document leaves out that hold their APISIX default
+ */
+function withoutDefaults(
+  kind: ConfigKind,
+  live: unknown,
+  desired: unknown,
+  path: string[],
+): unknown {
+  if (Array.isArray(live)) {
+    return live.map((value, index) =>
+      withoutDefaults(
+        kind,
+        value,
+        Array.isArray(desired) ? desired[index] : undefined,
+        [...path, String(index)],
+      ),
+    );
+  }
+  if (!isObject(live)) return live;
+
+  const result: Item = {};
+  for (const [key, value] of Object.entries(live)) {
+    const wanted = isObject(desired) ? desired[key] : undefined;
+    if (wanted === undefined && isDefault(kind, [...path, key], value)) {
+      continue;
+    }
+    result[key] = withoutDefaults(kind, value, wanted, [...path, key]);
+  }
+  return result;
+}
+
+/**
+ * Whether APISIX fills in `value` at `path` when a resource leaves it out
+ *
+ * An object counts as filled in when defaults are known below it and every
+ * one of its fields is a default, e.g. a health check's `healthy` block.
+ */
+function isDefault(kind: ConfigKind, path: string[], value: unknown): boolean {
+  const scopes = defaultScopes(kind, path);
+
+  if (
+    scopes.some(([defaults, rest]) =>
+      Object.entries(defaults).some(
+        ([pattern, expected]) =>
+          matchesPattern(pattern, rest, false) && isJsonEqual(value, expected),
+      ),
+    )
+  ) {
+    return true;
+  }
+  return (
+    isObject(value) &&
+    Object.keys(value).length > 0 &&
+    scopes.some(([defaults, rest]) =>
+      Object.keys(defaults).some((pattern) =>
+        matchesPattern(pattern, rest, true),
+      ),
+    ) &&
+    Object.entries(value).every(([key, field]) =>
+      isDefault(kind, [...path, key], field),
+    )
+  );
+}
+
+// The default tables that apply at `path`, each with the path relative to it
+function defaultScopes(
+  kind: ConfigKind,
+  path: string[],
+): Array<[Item, string[]]> {
+  const scopes: Array<[Item, string[]]> = [[SERVER_DEFAULTS[kind] ?? {}, path]];
+  if (kind === "upstreams") {
+    scopes.push([UPSTREAM_DEFAULTS, path]);
+  } else if (path[0] === "upstream") {
+    scopes.push([UPSTREAM_DEFAULTS, path.slice(1)]);
+  }
+  // Below a plugin's name, so a whole plugin is never taken for a default
+  if (path[0] === "plugins" && path.length > 2) {
+    scopes.push([PLUGIN_DEFAULTS[path[1]] ?? {}, path.slice(2)]);
+  }
+  return scopes;
+}
+
+// Whether a default path names `path`, or with `below` a field inside it
+function matchesPattern(
+  pattern: string,
+  path: string[],
+  below: boolean,
+): boolean {
+  const parts = pattern.split("/");
+  return (
+    (below ? parts.length > path.length : parts.length === path.length) &&
+    path.every((segment, i) => parts[i] === "*" || parts[i] === segment)
+  );
+}
+
+function normalizeNodes(upstream: Item): Item {
+  const { nodes } = upstream;
+  if (nodes === undefined || nodes === null) return upstream;
+
+  const list = Array.isArray(nodes)
+    ? nodes.map((node) => ({ ...node }))
+    : Object.entries(nodes as Record<string, number>).map(
+        ([address, weight]) => {
+          const match = address.match(/^(.*):(\d+)$/);
+          return match
+            ? { host: match[1], port: Number(match[2]), weight }
+            : { host: address, weight };
+        },
+      );
+  upstream.nodes = list.sort((a: Item, b: Item) =>
+    `${String(a.host)}:${String(a.port)}`.localeCompare(
+      `${String(b.host)}:${String(b.port)}`,
+    ),
+  );
+  return upstream;
+}
+
+function collapseSingle(item: Item, plural: string, singular: string): void {
+  const values = item[plural];
+  if (
+    Array.isArray(values) &&
+    values.length === 1 &&
+    item[singular] === undefined
+  ) {
+    item[singular] = values[0];
+    delete item[plural];
+  }
+}
+
+function escapePointer(key: string): string {
+  return key.replaceAll("~", "~0").replaceAll("/", "~1");
+}
+
+function toLines(value: unknown): string[] {
+  return JSON.stringify(sortKeys(value), null, 2).split("\n");
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (!isObject(value)) return value;
+  return Object.fromEntries(
+    Object.keys(value)
+      .sort()
+      .map((key) => [key, sortKeys(value[key])]),
+  );
+}
+
+interface LineOp {
+  type: " " | "-" | "+";
+  line: string;
+}
+
+/**
+ * Line diff through the longest common subsequence, grouped into hunks
+ */
+function unifiedHunks(
+  before: string[],
+  after: string[],
+  context: number,
+): string[] {
+  // lengths[i][j]: LCS length of before[i..] and after[j..]
+  const lengths = Array.from({ length: before.length + 1 }, () =>
+    Array.from<number>({ length: after.length + 1 }).fill(0),
+  );
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        before[i] === after[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const ops: LineOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      ops.push({ type: " ", line: before[i++] });
+      j++;
+    } else if (
+      i < before.length &&
+      (j === after.length || lengths[i + 1][j] >= lengths[i][j + 1])
+    ) {
+      ops.push({ type: "-", line: before[i++] });
+    } else {
+      ops.push({ type: "+", line: after[j++] });
+    }
+  }
+
+  // Merge changed lines that share context into the same hunk
+  const ranges: Array<[number, number]> = [];
+  ops.forEach((op, index) => {
+    if (op.type === " ") return;
+    const start = Math.max(0, index - context);
+    const end = Math.min(ops.length, index + context + 1);
+    const last = ranges.at(-1);
+    if (last && start <= last[1]) {
+      last[1] = end;
+    } else {
+      ranges.push([start, end]);
+    }
+  });
+
+  const lines: string[] = [];
+  for (const [start, end] of ranges) {
+    const prefix = ops.slice(0, start);
+    const hunk = ops.slice(start, end);
+    const oldStart = prefix.filter((op) => op.type !== "+").length;
+    const newStart = prefix.filter((op) => op.type !== "-").length;
+    const oldLength = hunk.filter((op) => op.type !== "+").length;
+    const newLength = hunk.filter((op) => op.type !== "-").length;
+    lines.push(
+      `@@ -${oldLength ? oldStart + 1 : oldStart},${oldLength} +${newLength ? newStart + 1 : newStart},${newLength} @@`,
+      ...hunk.map((op) => `${op.type}${op.line}`),
+    );
+  }
+  return lines;
+}
+
+function isObject(value: unknown): value is Item {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
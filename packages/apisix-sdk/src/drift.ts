@@ -0,0 +1,172 @@
+import type { Reconciler } from "./reconciler";
+import type {
+  ApisixConfig,
+  ConfigKind,
+  DriftOptions,
+  DriftReport,
+  DriftSeverity,
+  ResourceDiff,
+  ResourceDrift,
+} from "./types";
+
+type Baseline = ApisixConfig | (() => ApisixConfig | Promise<ApisixConfig>);
+
+const DRIFT_TYPES = {
+  changed: "modified",
+  removed: "extra",
+  added: "missing",
+} as const;
+
+// Changes to these fields alter who may pass or where traffic goes
+const CRITICAL_FIELDS = [
+  "plugins",
+  "status",
+  "upstream",
+  "upstream_id",
+  "service_id",
+  "plugin_config_id",
+  "nodes",
+];
+
+// Descriptive fields that do not affect traffic
+const INFO_FIELDS = ["name", "desc", "labels"];
+
+// Kinds that serve traffic or grant access on their own
+const TRAFFIC_KINDS: ConfigKind[] = [
+  "routes",
+  "stream_routes",
+  "global_rules",
+  "consumers",
+  "credentials",
+  "ssls",
+];
+
+/**
+ * Default severity of a drifted resource
+ *
+ * Missing resources and changed plugins or traffic targets are critical,
+ * changes to descriptive fields only are info. Extra resources are warnings
+ * when they can serve traffic on their own, info otherwise.
+ */
+export function classifyDrift(drift: ResourceDrift): DriftSeverity {
+  switch (drift.type) {
+    case "missing":
+      return "critical";
+    case "extra":
+      return TRAFFIC_KINDS.includes(drift.kind) ? "warning" : "info";
+    default: {
+      const fields = drift.changes.map((change) => change.path.split("/")[1]);
+      if (fields.some((field) => CRITICAL_FIELDS.includes(field))) {
+        return "critical";
+      }
+      return fields.every((field) => INFO_FIELDS.includes(field))
+        ? "info"
+        : "warning";
+    }
+  }
+}
+
+/**
+ * Detects out-of-band changes by comparing live state with a baseline
+ *
+ * The baseline is a configuration document, or a function loading it, e.g.
+ * from git, before every check.
+ */
+export class DriftDetector {
+  private reconciler: Reconciler;
+  private baseline: Baseline;
+  private options: DriftOptions;
+  private timer?: ReturnType<typeof setInterval>;
+  private checking = false;
+
+  constructor(
+    reconciler: Reconciler,
+    baseline: Baseline,
+    options: DriftOptions = {},
+  ) {
+    this.reconciler = reconciler;
+    this.baseline = baseline;
+    this.options = options;
+  }
+
+  /**
+   * Compare live state with the baseline once
+   */
+  async check(): Promise<DriftReport> {
+    const baseline =
+      typeof this.baseline === "function"
+        ? await this.baseline()
+        : this.baseline;
+    const diff = await this.reconciler.diff(baseline, {
+      selector: this.options.selector,
+    });
+
+    const drifts = diff.entries.map((entry) => this.toDrift(entry));
+    for (const drift of drifts) {
+      await this.options.onDrift?.(drift);
+    }
+
+    const count = (type: ResourceDrift["type"]) =>
+      drifts.filter((drift) => drift.type === type).length;
+    const severities = { critical: 0, warning: 0, info: 0 };
+    for (const drift of drifts) severities[drift.severity]++;
+    return {
+      checkedAt: new Date().toISOString(),
+      drifted: drifts.length > 0,
+      inSync: diff.unchanged,
+      modified: count("modified"),
+      extra: count("extra"),
+      missing: count("missing"),
+      severities,
+      drifts,
+    };
+  }
+
+  /**
+   * Run a check every `interval` milliseconds until stopped
+   * A check still running when the next one is due is not overlapped
+   */
+  start(interval: number): void {
+    this.stop();
+
+    const run = async () => {
+      if (this.checking) return;
+      this.checking = true;
+      try {
+        await this.check();
+      } catch (error) {
+        this.options.onError?.(error);
+      } finally {
+        this.checking = false;
+      }
+    };
+
+    this.timer = setInterval(() => void run(), interval);
+    // Checks must not keep the process alive on their own
+    this.timer.unref?.();
+  }
+
+  /**
+   * Stop scheduled checks
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private toDrift(entry: ResourceDiff): ResourceDrift {
+    const drift: ResourceDrift = {
+      kind: entry.kind,
+      id: entry.id,
+      type: DRIFT_TYPES[entry.type],
+      severity: "info",
+      changes: entry.changes,
+      expected: entry.desired,
+      actual: entry.live,
+    };
+    drift.severity = this.options.classify?.(drift) ?? classifyDrift(drift);
+    return drift;
+  }
+}
@@ -0,0 +1,87 @@
+import type {
+  EffectivePlugin,
+  PluginLayer,
+  PluginLayerConfig,
+  SchemaInfo,
+} from "./types";
+
+/**
+ * Plugin layers from lowest to highest precedence
+ *
+ * Global rules come first but are not merged: their plugins run on every
+ * request before the route's, even when the route configures the same one.
+ */
+export const PLUGIN_LAYERS: readonly PluginLayer[] = [
+  "global_rule",
+  "service",
+  "plugin_config",
+  "route",
+  "consumer_group",
+  "consumer",
+];
+
+// Layers whose authentication plugins hold credentials instead of running
+const CONSUMER_LAYERS: PluginLayer[] = ["consumer_group", "consumer"];
+
+/**
+ * The plugins that run for a request, merged the way APISIX merges them
+ *
+ * A plugin configured in several layers runs with the configuration of the
+ * highest one, which lists the others under `overrides`. The result is in
+ * execution order: APISIX runs global rules in a phase of their own, so
+ * their plugins come first, then the merged ones. Each group is ordered by
+ * priority, `_meta.priority` taking precedence over the schema priority,
+ * with plugins of unknown priority last.
+ */
+export function resolveEffectivePlugins(
+  layers: PluginLayerConfig[],
+  schemas: SchemaInfo["plugins"] = {},
+): EffectivePlugin[] {
+  const rank = (layer: PluginLayer) => PLUGIN_LAYERS.indexOf(layer);
+  const sorted = [...layers].sort((a, b) => rank(a.layer) - rank(b.layer));
+
+  const global: EffectivePlugin[] = [];
+  const merged = new Map<string, EffectivePlugin>();
+  for (const { layer, id, plugins } of sorted) {
+    for (const [name, value] of Object.entries(plugins ?? {})) {
+      if (CONSUMER_LAYERS.includes(layer) && schemas[name]?.type === "auth") {
+        continue;
+      }
+
+      const config = (value ?? {}) as Record<string, unknown>;
+      const meta = config._meta as Record<string, unknown> | undefined;
+      const plugin: EffectivePlugin = {
+        name,
+        layer,
+        id,
+        config,
+        priority:
+          typeof meta?.priority === "number"
+            ? meta.priority
+            : schemas[name]?.priority,
+        overrides: [],
+        ...(meta?.disable === true ? { disabled: true } : {}),
+      };
+
+      if (layer === "global_rule") {
+        global.push(plugin);
+        continue;
+      }
+      const lower = merged.get(name);
+      if (lower) {
+        plugin.overrides = [
+          { layer: lower.layer, id: lower.id, config: lower.config },
+          ...lower.overrides,
+        ];
+      }
+      merged.set(name, plugin);
+    }
+  }
+
+  return [...global.sort(byPriority), ...[...merged.values()].sort(byPriority)];
+}
+
+// Highest priority first, unknown priorities last
+function byPriority(a: EffectivePlugin, b: EffectivePlugin): number {
+  return (b.priority ?? -Infinity) - (a.priority ?? -Infinity);
+}
@@ -0,0 +1,173 @@
+import type { EndpointPolicy, EndpointStats, FailoverOptions } from "./types";
+
+interface EndpointState {
+  url: string;
+  failures: number;
+  ejectedUntil: number;
+  latency?: number;
+  requests: number;
+}
+
+/**
+ * Set of interchangeable base URLs with health-aware selection
+ *
+ * Endpoints failing `ejectAfter` times in a row are skipped for `cooldown`
+ * milliseconds, and again after a single failure until one succeeds. When
+ * every endpoint is ejected the pool still returns one, so a single-node
+ * setup behaves exactly like a plain base URL.
+ */
+export class EndpointPool {
+  public readonly policy: EndpointPolicy;
+  private endpoints: EndpointState[];
+  private ejectAfter: number;
+  private cooldown: number;
+  private cursor = 0;
+  private probeTimer?: ReturnType<typeof setInterval>;
+
+  constructor(urls: string | string[], options: FailoverOptions = {}) {
+    const list = (Array.isArray(urls) ? urls : [urls]).map((url) =>
+      url.replace(/\/$/, ""),
+    );
+    this.endpoints = [...new Set(list)].map((url) => ({
+      url,
+      failures: 0,
+      ejectedUntil: 0,
+      requests: 0,
+    }));
+    this.policy = options.policy ?? "primary-secondary";
+    this.ejectAfter = Math.max(1, options.ejectAfter ?? 1);
+    this.cooldown = Math.max(0, options.cooldown ?? 30000);
+  }
+
+  /**
+   * All configured base URLs in configuration order
+   */
+  get urls(): string[] {
+    return this.endpoints.map((endpoint) => endpoint.url);
+  }
+
+  /**
+   * Pick a base URL, preferring healthy endpoints not in `exclude`
+   */
+  select(exclude: Set<string> = new Set()): string {
+    const now = Date.now();
+    const notExcluded = this.endpoints.filter((e) => !exclude.has(e.url));
+    const healthy = notExcluded.filter((e) => e.ejectedUntil <= now);
+
+    if (healthy.length === 0) {
+      // Nothing healthy left: try the endpoint whose cool-down ends first
+      const pool = notExcluded.length > 0 ? notExcluded : this.endpoints;
+      return [...pool].sort((a, b) => a.ejectedUntil - b.ejectedUntil)[0].url;
+    }
+
+    switch (this.policy) {
+      case "round-robin": {
+        return healthy[this.cursor++ % healthy.length].url;
+      }
+      case "least-latency": {
+        // Unmeasured endpoints go first so every endpoint gets a latency sample
+        const sorted = [...healthy].sort(
+          (a, b) => (a.latency ?? 0) - (b.latency ?? 0),
+        );
+        return sorted[0].url;
+      }
+      default:
+        return healthy[0].url;
+    }
+  }
+
+  /**
+   * Record a successful request against an endpoint
+   */
+  reportSuccess(url: string, latency: number): void {
+    const endpoint = this.find(url);
+    if (!endpoint) return;
+
+    endpoint.requests++;
+    endpoint.failures = 0;
+    endpoint.ejectedUntil = 0;
+    // Exponentially weighted moving average
+    endpoint.latency =
+      endpoint.latency === undefined
+        ? latency
+        : endpoint.latency * 0.7 + latency * 0.3;
+  }
+
+  /**
+   * Record a failed request, ejecting the endpoint once the threshold is hit
+   */
+  reportFailure(url: string): void {
+    const endpoint = this.find(url);
+    if (!endpoint) return;
+
+    endpoint.requests++;
+    endpoint.failures++;
+    if (endpoint.failures >= this.ejectAfter) {
+      this.eject(endpoint);
+    }
+  }
+
+  /**
+   * Periodically probe every endpoint, ejecting or restoring it
+   */
+  startProbing(
+    probe: (url: string, index: number) => Promise<boolean>,
+    interval: number,
+  ): void {
+    this.stopProbing();
+
+    const run = async () => {
+      await Promise.all(
+        this.endpoints.map(async (endpoint, index) => {
+          const healthy = await probe(endpoint.url, index).catch(() => false);
+          if (healthy) {
+            endpoint.failures = 0;
+            endpoint.ejectedUntil = 0;
+          } else {
+            this.eject(endpoint);
+          }
+        }),
+      );
+    };
+
+    this.probeTimer = setInterval(() => void run(), interval);
+    // Probing must not keep the process alive on its own
+    this.probeTimer.unref?.();
+  }
+
+  /**
+   * Stop active health probing
+   */
+  stopProbing(): void {
+    if (this.probeTimer) {
+      clearInterval(this.probeTimer);
+      this.probeTimer = undefined;
+    }
+  }
+
+  /**
+   * Get per-endpoint health statistics
+   */
+  getStats(): EndpointStats[] {
+    const now = Date.now();
+    return this.endpoints.map((endpoint) => ({
+      url: endpoint.url,
+      healthy: endpoint.ejectedUntil <= now,
+      failures: endpoint.failures,
+      requests: endpoint.requests,
+      latency: endpoint.latency,
+      ejectedUntil:
+        endpoint.ejectedUntil > now ? endpoint.ejectedUntil : undefined,
+    }));
+  }
+
+  private find(url: string): EndpointState | undefined {
+    return this.endpoints.find((endpoint) => endpoint.url === url);
+  }
+
+  // The failure count survives the cool-down, so an endpoint coming back is
+  // half-open: one more failure ejects it again until a request succeeds
+  private eject(endpoint: EndpointState): void {
+    endpoint.ejectedUntil = Date.now() + this.cooldown;
+  }
+}
@@ -0,0 +1,192 @@
+export interface ApisixErrorOptions {
+  status?: number;
+  method?: string;
+  endpoint?: string;
+  url?: string;
+  errorMsg?: string;
+  retryAfter?: number;
+  cause?: unknown;
+}
+
+/**
+ * Base class for every error thrown by the SDK
+ */
+export class ApisixError extends Error {
+  public readonly status?: number;
+  public readonly method?: string;
+  public readonly endpoint?: string;
+  public readonly url?: string;
+  /** Raw `error_msg` returned by APISIX, if any */
+  public readonly errorMsg?: string;
+  /** Delay in milliseconds requested by a `Retry-After` header */
+  public readonly retryAfter?: number;
+
+  constructor(message: string, options: ApisixErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = "ApisixError";
+    this.status = options.status;
+    this.method = options.method;
+    this.endpoint = options.endpoint;
+    this.url = options.url;
+    this.errorMsg = options.errorMsg;
+    this.retryAfter = options.retryAfter;
+  }
+}
+
+/**
+ * Resource does not exist (HTTP 404)
+ */
+export class ApisixNotFoundError extends ApisixError {
+  constructor(message: string, options: ApisixErrorOptions = {}) {
+    super(message, options);
+    this.name = "ApisixNotFoundError";
+  }
+}
+
+/**
+ * Request conflicts with the current state of a resource (HTTP 409)
+ */
+export class ApisixConflictError extends ApisixError {
+  constructor(message: string, options: ApisixErrorOptions = {}) {
+    super(message, options);
+    this.name = "ApisixConflictError";
+  }
+}
+
+/**
+ * Resource changed since the revision a compare-and-swap write was based on
+ */
+export class ApisixRevisionConflictError extends ApisixConflictError {
+  public readonly expectedRevision: number;
+  /** Revision found on the server, undefined if the resource was deleted */
+  public readonly currentRevision?: number;
+
+  constructor(
+    message: string,
+    options: ApisixErrorOptions & {
+      expectedRevision: number;
+      currentRevision?: number;
+    },
+  ) {
+    super(message, options);
+    this.name = "ApisixRevisionConflictError";
+    this.expectedRevision = options.expectedRevision;
+    this.currentRevision = options.currentRevision;
+  }
+}
+
+/**
+ * Request data was rejected, either by APISIX (HTTP 400) or by SDK-side checks
+ */
+export class ApisixValidationError extends ApisixError {
+  constructor(message: string, options: ApisixErrorOptions = {}) {
+    super(message, options);
+    this.name = "ApisixValidationError";
+  }
+}
+
+/**
+ * YAML text could not be parsed
+ */
+export class ApisixYamlError extends ApisixValidationError {
+  /** 1-based position of the problem */
+  public readonly line: number;
+  public readonly column: number;
+
+  constructor(
+    message: string,
+    options: ApisixErrorOptions & { line: number; column: number },
+  ) {
+    super(message, options);
+    this.name = "ApisixYamlError";
+    this.line = options.line;
+    this.column = options.column;
+  }
+}
+
+/**
+ * Missing or invalid API key (HTTP 401/403)
+ */
+export class ApisixAuthError extends ApisixError {
+  constructor(message: string, options: ApisixErrorOptions = {}) {
+    super(message, options);
+    this.name = "ApisixAuthError";
+  }
+}
+
+/**
+ * Too many requests (HTTP 429)
+ */
+export class ApisixRateLimitError extends ApisixError {
+  constructor(message: string, options: ApisixErrorOptions = {}) {
+    super(message, options);
+    this.name = "ApisixRateLimitError";
+  }
+}
+
+/**
+ * APISIX failed to handle the request (HTTP 5xx)
+ */
+export class ApisixServerError extends ApisixError {
+  constructor(message: string, options: ApisixErrorOptions = {}) {
+    super(message, options);
+    this.name = "ApisixServerError";
+  }
+}
+
+/**
+ * No response was received (connection refused, DNS failure, aborted, ...)
+ */
+export class ApisixNetworkError extends ApisixError {
+  constructor(message: string, options: ApisixErrorOptions = {}) {
+    super(message, options);
+    this.name = "ApisixNetworkError";
+  }
+}
+
+/**
+ * Request did not complete within the configured timeout
+ */
+export class ApisixTimeoutError extends ApisixNetworkError {
+  constructor(message: string, options: ApisixErrorOptions = {}) {
+    super(message, options);
+    this.name = "ApisixTimeoutError";
+  }
+}
+
+/**
+ * Create the matching error class for an HTTP status code
+ */
+export function createApisixError(
+  message: string,
+  options: ApisixErrorOptions = {},
+): ApisixError {
+  const status = options.status;
+
+  if (status === 404) return new ApisixNotFoundError(message, options);
+  if (status === 409) return new ApisixConflictError(message, options);
+  if (status === 400) return new ApisixValidationError(message, options);
+  if (status === 401 || status === 403) {
+    return new ApisixAuthError(message, options);
+  }
+  if (status === 429) return new ApisixRateLimitError(message, options);
+  if (status !== undefined && status >= 500) {
+    return new ApisixServerError(message, options);
+  }
+
+  return new ApisixError(message, options);
+}
+
+/**
+ * Walk the `cause` chain of an error looking for an error with the given name
+ */
+export function findCause(error: unknown, name: string): Error | undefined {
+  let current: unknown = error;
+  for (let depth = 0; current && depth < 5; depth++) {
+    if (current instanceof Error && current.name === name) {
+      return current;
+    }
+    current = (current as { cause?: unknown }).cause;
+  }
+  return undefined;
+}
@@ -0,0 +1,564 @@
+import { randomBytes } from "node:crypto";
+import { link, open, readFile, rename, stat, unlink } from "node:fs/promises";
+import { hostname } from "node:os";
+import { basename, dirname, join } from "node:path";
+import { applyMergePatch } from "./bulk";
+import {
+  ApisixConflictError,
+  ApisixError,
+  ApisixValidationError,
+} from "./errors";
+import { matchesFilter, SERVER_SIDE_FILTERS } from "./filters";
+import {
+  CONFIG_KINDS,
+  findDanglingReferences,
+  getKindInfo,
+  getResourceKey,
+  getResourceLocation,
+  SECRET_MANAGERS,
+  SERVER_MANAGED_FIELDS,
+} from "./kinds";
+import {
+  describeReference,
+  fromStandaloneDocument,
+  parseStandaloneConfig,
+  STANDALONE_END_MARKER,
+  toStandaloneDocument,
+} from "./standalone";
+import type {
+  ConfigKind,
+  FilterField,
+  ResourceFilter,
+  ServerInfo,
+  StandaloneConfig,
+  StandaloneFileOptions,
+} from "./types";
+import { stringifyYaml } from "./yaml";
+
+type Item = Record<string, unknown>;
+
+const ADMIN_PREFIX = "/apisix/admin/";
+
+// An Admin API path resolved to a kind, e.g. `/consumers/jack/credentials/key`
+interface Target {
+  kind: ConfigKind;
+  parent?: string; // Consumer of a credential, manager of a secret
+  id?: string; // Undefined for the collection itself
+}
+
+interface Revision {
+  content: string;
+  createdIndex: number;
+  modifiedIndex: number;
+}
+
+/**
+ * Serves Admin API requests from a standalone-mode config file
+ *
+ * Resource managers work against it unchanged. Every write reads the file,
+ * applies the change and replaces the file through a temporary file and a
+ * rename, so APISIX and other readers never see a partial write. Writers are
+ * serialised in-process and across processes through a `<path>.lock` file.
+ * References are checked on every write, as APISIX would refuse to load a
+ * file with dangling ones.
+ */
+export class StandaloneFileStore {
+  private path: string;
+  private lockPath: string;
+  private format: "yaml" | "json";
+  private version: string;
+  private lockTimeout: number;
+  private staleLockTimeout: number;
+  private queue: Promise<void> = Promise.resolve();
+  // Revisions are per process, a resource changed on disk gets a new one
+  private revisions = new Map<string, Revision>();
+  private index = 0;
+  private sequence = 0;
+
+  constructor(options: StandaloneFileOptions) {
+    this.path = options.path;
+    this.lockPath = `${options.path}.lock`;
+    this.format =
+      options.format ?? (options.path.endsWith(".json") ? "json" : "yaml");
+    this.version = options.version ?? "3.9.0";
+    this.lockTimeout = options.lockTimeout ?? 10000;
+    this.staleLockTimeout = options.staleLockTimeout ?? 30000;
+  }
+
+  /**
+   * Answer a request the way the Admin API would
+   */
+  async handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    try {
+      if (url.pathname === "/v1/server_info") {
+        return Response.json(this.serverInfo());
+      }
+      const target = url.pathname.startsWith(ADMIN_PREFIX)
+        ? resolveTarget(url.pathname.slice(ADMIN_PREFIX.length))
+        : undefined;
+      if (!target) {
+        return errorResponse(
+          404,
+          `${url.pathname} is not available in standalone file mode`,
+        );
+      }
+
+      if (request.method === "GET") {
+        const config = await this.load();
+        return target.id === undefined
+          ? this.list(config, target, url.searchParams)
+          : this.read(config, target);
+      }
+      if (!["PUT", "POST", "PATCH", "DELETE"].includes(request.method)) {
+        return errorResponse(405, `Method ${request.method} not allowed`);
+      }
+
+      const body = request.body ? ((await request.json()) as Item) : {};
+      return await this.locked(async () => {
+        const config = await this.load();
+        // Dangling references already in the file are left to their owner
+        const before = new Set(
+          findDanglingReferences(withoutPlugins(config)).map(describeReference),
+        );
+        const response = this.write(
+          config,
+          target,
+          request.method,
+          body,
+          before,
+        );
+        if (response.ok) await this.save(config, before);
+        return response;
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (error instanceof ApisixValidationError) {
+        return errorResponse(400, message);
+      }
+      return errorResponse(
+        error instanceof ApisixError ? (error.status ?? 500) : 500,
+        message,
+      );
+    }
+  }
+
+  private list(
+    config: StandaloneConfig,
+    target: Target,
+    params: URLSearchParams,
+  ): Response {
+    const filter: ResourceFilter = {};
+    for (const field of SERVER_SIDE_FILTERS) {
+      const value = params.get(field);
+      if (value !== null) filter[field as "name" | "label" | "uri"] = value;
+    }
+    const fields = Object.keys(filter) as FilterField[];
+
+    const items = ((config[target.kind] ?? []) as Item[]).filter(
+      (item) => isInParent(target, item) && matchesFilter(item, filter, fields),
+    );
+    const pageSize = Number(params.get("page_size"));
+    const page = Number(params.get("page")) || 1;
+    const selected = pageSize
+      ? items.slice((page - 1) * pageSize, page * pageSize)
+      : items;
+
+    return Response.json({
+      total: items.length,
+      list: selected.map((item) => this.toEntry(target.kind, item)),
+    });
+  }
+
+  private read(config: StandaloneConfig, target: Target): Response {
+    const item = findItem(config, target);
+    return item
+      ? Response.json(this.toEntry(target.kind, item))
+      : errorResponse(404, "Key not found");
+  }
+
+  /**
+   * Apply a write to the loaded configuration
+   * Only dangling references not in `before` make it fail
+   */
+  private write(
+    config: StandaloneConfig,
+    target: Target,
+    method: string,
+    body: Item,
+    before: ReadonlySet<string>,
+  ): Response {
+    const { kind } = target;
+    const info = getKindInfo(kind);
+    const items = [...((config[kind] ?? []) as Item[])];
+    const existing = findItem(config, target);
+    const now = Math.floor(Date.now() / 1000);
+
+    let status = 200;
+    let written: Item | undefined;
+    if (method === "DELETE") {
+      if (!existing) return errorResponse(404, "Key not found");
+      items.splice(items.indexOf(existing), 1);
+      if (kind === "consumers") {
+        // Credentials go with their consumer
+        config.credentials = config.credentials?.filter(
+          (credential) => credential.consumer !== existing.username,
+        );
+      }
+    } else if (method === "PATCH") {
+      if (!target.id || !existing) return errorResponse(404, "Key not found");
+      written = {
+        ...applyMergePatch(existing, body),
+        ...identity(target, target.id),
+        update_time: now,
+      };
+      items[items.indexOf(existing)] = written;
+    } else {
+      let id = target.id ?? (body[info.idField] as string | undefined);
+      if (method === "POST") {
+        if (target.id !== undefined || info.idField !== "id") {
+          return errorResponse(405, `Method POST not allowed on ${kind}`);
+        }
+        id = this.generateId(config, target);
+      }
+      if (id === undefined || id === "") {
+        return errorResponse(400, `missing ${info.idField}`);
+      }
+
+      const current = findItem(config, { ...target, id: String(id) });
+      written = {
+        ...withoutServerFields(body),
+        ...identity(target, String(id)),
+        create_time: current?.create_time ?? now,
+        update_time: now,
+      };
+      if (current) {
+        items[items.indexOf(current)] = written;
+      } else {
+        items.push(written);
+        status = 201;
+      }
+    }
+    (config as Record<string, Item[]>)[kind] = items;
+
+    const introduced = findDanglingReferences(withoutPlugins(config)).filter(
+      (ref) => !before.has(describeReference(ref)),
+    );
+    if (introduced.length > 0) {
+      const [ref] = introduced;
+      return errorResponse(
+        400,
+        method === "DELETE"
+          ? `can not delete ${kind}/${target.id}, ${ref.kind}/${ref.id} still references it in ${ref.field}`
+          : describeReference(ref),
+      );
+    }
+
+    if (!written) {
+      return Response.json({
+        deleted: "1",
+        key: toKey(kind, existing as Item),
+      });
+    }
+    this.track(config);
+    return Response.json(this.toEntry(kind, written), { status });
+  }
+
+  private async load(): Promise<StandaloneConfig> {
+    let text: string;
+    try {
+      text = await readFile(this.path, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return {};
+      throw error;
+    }
+    if (text.trim() === "") return {};
+
+    let config: StandaloneConfig;
+    try {
+      config =
+        this.format === "json"
+          ? fromStandaloneDocument(JSON.parse(text))
+          : parseStandaloneConfig(text);
+    } catch (error) {
+      // A broken file is a server-side problem, not a bad request
+      throw new ApisixError(
+        `Cannot read ${this.path}: ${error instanceof Error ? error.message : String(error)}`,
+        { status: 500, cause: error },
+      );
+    }
+    this.track(config);
+    return config;
+  }
+
+  /**
+   * Replace the file atomically: write a temporary file next to it, flush it
+   * to disk and rename it over the original
+   * Timestamps are kept, and so are the dangling references in `tolerated`.
+   */
+  private async save(
+    config: StandaloneConfig,
+    tolerated: ReadonlySet<string>,
+  ): Promise<void> {
+    const document = toStandaloneDocument(config, {
+      tolerated,
+      timestamps: true,
+    });
+    const text =
+      this.format === "json"
+        ? `${JSON.stringify(document, null, 2)}\n`
+        : `${stringifyYaml(document)}${STANDALONE_END_MARKER}\n`;
+    const temp = join(
+      dirname(this.path),
+      `.${basename(this.path)}.${process.pid}.${randomBytes(4).toString("hex")}.tmp`,
+    );
+
+    const file = await open(temp, "w");
+    try {
+      await file.writeFile(text);
+      await file.sync();
+    } finally {
+      await file.close();
+    }
+    try {
+      await rename(temp, this.path);
+    } catch (error) {
+      await unlink(temp).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Run `fn` holding the write lock
+   * Writers of this process queue up here, other processes wait on the lock
+   * file
+   */
+  private async locked<T>(fn: () => Promise<T>): Promise<T> {
+    const previous = this.queue;
+    let done!: () => void;
+    this.queue = new Promise((resolve) => {
+      done = resolve;
+    });
+    await previous;
+
+    try {
+      const token = await this.acquireLock();
+      try {
+        return await fn();
+      } finally {
+        await this.removeLock(token).catch(() => undefined);
+      }
+    } finally {
+      done();
+    }
+  }
+
+  /**
+   * Create the lock file, returning the token that identifies this holder
+   */
+  private async acquireLock(): Promise<string> {
+    const token = `${process.pid}@${hostname()} ${randomBytes(8).toString("hex")}\n`;
+    const deadline = Date.now() + this.lockTimeout;
+    for (let delay = 10; ; delay = Math.min(delay * 2, 200)) {
+      try {
+        const file = await open(this.lockPath, "wx");
+        await file.writeFile(token);
+        await file.close();
+        return token;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+      }
+
+      // The owner is read before the age, so a lock replaced in between is
+      // seen as fresh or fails the owner check when it is removed
+      const owner = await readFile(this.lockPath, "utf8").catch(
+        () => undefined,
+      );
+      const lock = await stat(this.lockPath).catch(() => undefined);
+      if (owner === undefined || !lock) continue; // Released in the meantime
+      // A lock left behind by a crashed writer is taken over once it is old
+      if (Date.now() - lock.mtimeMs > this.staleLockTimeout) {
+        await this.removeLock(owner);
+        continue;
+      }
+      // Another writer holds the file, retrying would only wait longer
+      if (Date.now() >= deadline) {
+        throw new ApisixConflictError(
+          `Timed out after ${this.lockTimeout}ms waiting for the lock on ${this.path}`,
+          { status: 409 },
+        );
+      }
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+
+  /**
+   * Delete the lock file if it still belongs to `owner`
+   *
+   * Renaming claims the file atomically, so of several writers only one gets
+   * it; a lock that turns out to belong to someone else is linked back, which
+   * fails rather than replace a lock created since.
+   */
+  private async removeLock(owner: string): Promise<void> {
+    const claimed = `${this.lockPath}.${randomBytes(4).toString("hex")}`;
+    try {
+      await rename(this.lockPath, claimed);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return;
+      throw error;
+    }
+    try {
+      if ((await readFile(claimed, "utf8")) !== owner) {
+        await link(claimed, this.lockPath).catch(() => undefined);
+      }
+    } finally {
+      await unlink(claimed).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Assign revisions to resources that are new or changed since last seen
+   */
+  private track(config: StandaloneConfig): void {
+    const seen = new Set<string>();
+    for (const { kind } of CONFIG_KINDS) {
+      for (const item of (config[kind] ?? []) as Item[]) {
+        const key = `${kind}/${getResourceKey(kind, item)}`;
+        seen.add(key);
+        this.revisions.set(key, this.nextRevision(kind, item));
+      }
+    }
+    for (const key of this.revisions.keys()) {
+      if (!seen.has(key)) this.revisions.delete(key);
+    }
+  }
+
+  private nextRevision(kind: ConfigKind, item: Item): Revision {
+    const content = JSON.stringify(item);
+    const current = this.revisions.get(`${kind}/${getResourceKey(kind, item)}`);
+    if (current?.content === content) return current;
+    const index = ++this.index;
+    return {
+      content,
+      createdIndex: current?.createdIndex ?? index,
+      modifiedIndex: index,
+    };
+  }
+
+  private toEntry(kind: ConfigKind, item: Item): Item {
+    const revision = this.revisions.get(
+      `${kind}/${getResourceKey(kind, item)}`,
+    );
+    const { path, id } = getResourceLocation(kind, item);
+    const value: Item = { ...item };
+    if (kind === "credentials") delete value.consumer;
+    if (kind === "credentials" || kind === "secrets") value.id = id;
+    return {
+      key: `/apisix${path}/${id}`,
+      value,
+      createdIndex: revision?.createdIndex,
+      modifiedIndex: revision?.modifiedIndex,
+    };
+  }
+
+  // Numeric like the IDs APISIX generates
+  private generateId(config: StandaloneConfig, target: Target): string {
+    for (;;) {
+      const id = String(Date.now() * 1000 + (this.sequence++ % 1000));
+      if (!findItem(config, { ...target, id })) return id;
+    }
+  }
+
+  private serverInfo(): ServerInfo {
+    return {
+      hostname: hostname(),
+      version: this.version,
+      up_time: 0,
+      boot_time: 0,
+      last_report_time: 0,
+      etcd_version: "unknown",
+    };
+  }
+}
+
+function resolveTarget(path: string): Target | undefined {
+  const [collection, ...rest] = path
+    .split("/")
+    .filter(Boolean)
+    .map(decodeURIComponent);
+
+  if (collection === "consumers" && rest[1] === "credentials") {
+    return rest.length <= 3
+      ? { kind: "credentials", parent: rest[0], id: rest[2] }
+      : undefined;
+  }
+  if (collection === "secrets") {
+    return (SECRET_MANAGERS as readonly string[]).includes(rest[0]) &&
+      rest.length <= 2
+      ? { kind: "secrets", parent: rest[0], id: rest[1] }
+      : undefined;
+  }
+
+  // `/ssl` is the pre-3.0 path of `/ssls`
+  const collectionPath = collection === "ssl" ? "/ssls" : `/${collection}`;
+  const info = CONFIG_KINDS.find(
+    (candidate) =>
+      candidate.path === collectionPath && candidate.kind !== "credentials",
+  );
+  return info && rest.length <= 1
+    ? { kind: info.kind, id: rest[0] }
+    : undefined;
+}
+
+// The fields a target's path fixes on the stored item
+function identity(target: Target, id: string): Item {
+  switch (target.kind) {
+    case "credentials":
+      return { consumer: target.parent, id };
+    case "secrets":
+      return { id: `${target.parent}/${id}` };
+    default:
+      return { [getKindInfo(target.kind).idField]: id };
+  }
+}
+
+function findItem(config: StandaloneConfig, target: Target): Item | undefined {
+  if (target.id === undefined) return undefined;
+  const key = getResourceKey(target.kind, identity(target, target.id));
+  return ((config[target.kind] ?? []) as Item[]).find(
+    (item) => getResourceKey(target.kind, item) === key,
+  );
+}
+
+function isInParent(target: Target, item: Item): boolean {
+  switch (target.kind) {
+    case "credentials":
+      return item.consumer === target.parent;
+    case "secrets":
+      return String(item.id).startsWith(`${target.parent}/`);
+    default:
+      return true;
+  }
+}
+
+function toKey(kind: ConfigKind, item: Item): string {
+  const { path, id } = getResourceLocation(kind, item);
+  return `/apisix${path}/${id}`;
+}
+
+function withoutPlugins(config: StandaloneConfig): StandaloneConfig {
+  const { plugins: _plugins, ...resources } = config;
+  return resources;
+}
+
+function withoutServerFields(item: Item): Item {
+  return Object.fromEntries(
+    Object.entries(item).filter(
+      ([key]) => !SERVER_MANAGED_FIELDS.includes(key),
+    ),
+  );
+}
+
+function errorResponse(status: number, message: string): Response {
+  return Response.json({ error_msg: message }, { status });
+}
@@ -0,0 +1,117 @@
+import { matchesLabels } from "./selector";
+import type {
+  FilterField,
+  LabelSelector,
+  ListOptions,
+  ResourceFilter,
+} from "./types";
+
+type Item = Record<string, unknown>;
+
+/**
+ * Filters the APISIX 3.x Admin API evaluates itself on every list endpoint
+ */
+export const SERVER_SIDE_FILTERS: readonly FilterField[] = [
+  "name",
+  "label",
+  "uri",
+];
+
+// Client-side equivalents, matching APISIX semantics for the server-side ones
+const matchers: Record<FilterField, (item: Item, expected: never) => boolean> =
+  {
+    name: (item, expected: string) => includes(item.name, expected),
+    label: (item, expected: string) => {
+      const labels = item.labels as Record<string, string> | undefined;
+      if (!labels) return false;
+      const separator = expected.indexOf(":");
+      if (separator === -1) return expected in labels;
+      return (
+        labels[expected.slice(0, separator)] === expected.slice(separator + 1)
+      );
+    },
+    uri: (item, expected: string) =>
+      includes(item.uri, expected) ||
+      asArray(item.uris).some((uri) => includes(uri, expected)),
+    status: (item, expected: 0 | 1) => (item.status ?? 1) === expected,
+    plugin: (item, expected: string) =>
+      Boolean(item.plugins) && expected in (item.plugins as Item),
+    host: (item, expected: string) =>
+      item.host === expected || asArray(item.hosts).includes(expected),
+    method: (item, expected: string) =>
+      asArray(item.methods).includes(expected.toUpperCase()),
+    type: (item, expected: string) => item.type === expected,
+    upstream_id: (item, expected: string) => item.upstream_id === expected,
+    service_id: (item, expected: string) => item.service_id === expected,
+    plugin_config_id: (item, expected: string) =>
+      item.plugin_config_id === expected,
+    group_id: (item, expected: string) => item.group_id === expected,
+    created_after: (item, expected: number) =>
+      Number(item.create_time) > expected,
+    created_before: (item, expected: number) =>
+      Number(item.create_time) < expected,
+    updated_after: (item, expected: number) =>
+      Number(item.update_time) > expected,
+    updated_before: (item, expected: number) =>
+      Number(item.update_time) < expected,
+    selector: (item, expected: LabelSelector) => matchesLabels(item, expected),
+  };
+
+/**
+ * Split a filter into query parameters for APISIX and client-side checks
+ */
+export function splitFilter<T>(
+  filter: ResourceFilter<T>,
+  serverSide: boolean,
+): {
+  params: ListOptions;
+  pushedDown: FilterField[];
+  clientSide: Array<FilterField | "where">;
+} {
+  const params: ListOptions = {};
+  const pushedDown: FilterField[] = [];
+  const clientSide: Array<FilterField | "where"> = [];
+
+  for (const [field, value] of Object.entries(filter)) {
+    if (value === undefined) continue;
+    if (field === "where") {
+      clientSide.push("where");
+    } else if (serverSide && canPushDown(field as FilterField, value)) {
+      params[field] = value as string;
+      pushedDown.push(field as FilterField);
+    } else if (field in matchers) {
+      clientSide.push(field as FilterField);
+    }
+  }
+
+  return { params, pushedDown, clientSide };
+}
+
+/**
+ * Check an item against the client-side part of a filter
+ */
+export function matchesFilter<T>(
+  item: T,
+  filter: ResourceFilter<T>,
+  fields: Array<FilterField | "where">,
+): boolean {
+  return fields.every((field) =>
+    field === "where"
+      ? (filter.where?.(item) ?? true)
+      : matchers[field](item as Item, filter[field] as never),
+  );
+}
+
+// APISIX only matches label keys, so `key:value` stays client-side
+function canPushDown(field: FilterField, value: unknown): boolean {
+  if (!SERVER_SIDE_FILTERS.includes(field)) return false;
+  return field !== "label" || !String(value).includes(":");
+}
+
+function includes(value: unknown, expected: string): boolean {
+  return typeof value === "string" && value.includes(expected);
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
@@ -0,0 +1,397 @@
+import type { ApisixClient } from "./client";
+import { ApisixConflictError, ApisixNotFoundError } from "./errors";
+import {
+  CONFIG_KINDS,
+  fromResourceKey,
+  getReferences,
+  getReferringKinds,
+  getResourceKey,
+  getResourceLocation,
+} from "./kinds";
+import type { Reconciler } from "./reconciler";
+import { Transaction } from "./transaction";
+import type {
+  ApisixConfig,
+  ConfigKind,
+  GraphEdge,
+  GraphNode,
+  GraphQueryOptions,
+  LiveGraphQueryOptions,
+  SafeDeleteOptions,
+  SafeDeleteResult,
+} from "./types";
+import { parseConfig } from "./yaml";
+
+// Kinds that serve traffic are drawn as boxes, everything else as ellipses
+const ENTRY_KINDS: ConfigKind[] = ["routes", "stream_routes", "global_rules"];
+
+/**
+ * Dependencies between the resources of a configuration
+ *
+ * An edge points from a resource to one it references, e.g. from a route to
+ * the upstream named by its `upstream_id`. References to resources the
+ * configuration does not contain end at nodes marked `missing`.
+ */
+export class ResourceGraph {
+  readonly nodes: GraphNode[] = [];
+  readonly edges: GraphEdge[] = [];
+  private index = new Map<string, GraphNode>();
+
+  constructor(config: ApisixConfig) {
+    for (const { kind } of CONFIG_KINDS) {
+      for (const item of (config[kind] ?? []) as unknown[]) {
+        const name = (item as Record<string, unknown>).name;
+        this.addNode({
+          kind,
+          id: getResourceKey(kind, item),
+          ...(typeof name === "string" && name ? { name } : {}),
+        });
+      }
+    }
+
+    for (const { kind } of CONFIG_KINDS) {
+      for (const item of (config[kind] ?? []) as unknown[]) {
+        const id = getResourceKey(kind, item);
+        for (const ref of getReferences(kind, item)) {
+          if (!this.getNode(ref.target, ref.targetId)) {
+            this.addNode({ kind: ref.target, id: ref.targetId, missing: true });
+          }
+          this.edges.push({
+            from: { kind, id },
+            to: { kind: ref.target, id: ref.targetId },
+            field: ref.field,
+          });
+        }
+      }
+    }
+  }
+
+  /**
+   * Look up a resource, undefined when the graph does not know it
+   */
+  getNode(kind: ConfigKind, id: string): GraphNode | undefined {
+    return this.index.get(`${kind}/${id}`);
+  }
+
+  /**
+   * Resources that reference the given one, and with `recursive` the
+   * resources referencing those in turn
+   */
+  dependentsOf(
+    kind: ConfigKind,
+    id: string,
+    options: GraphQueryOptions = {},
+  ): GraphNode[] {
+    return this.walk(kind, id, "to", options.recursive);
+  }
+
+  /**
+   * Resources the given one references, and with `recursive` the resources
+   * those reference in turn
+   */
+  dependenciesOf(
+    kind: ConfigKind,
+    id: string,
+    options: GraphQueryOptions = {},
+  ): GraphNode[] {
+    return this.walk(kind, id, "from", options.recursive);
+  }
+
+  /**
+   * The resource and everything depending on it, each listed before the
+   * resources it references so they can be deleted in this order
+   */
+  deletionOrder(kind: ConfigKind, id: string): GraphNode[] {
+    const target = this.getNode(kind, id);
+    if (!target) return [];
+    const pending = [
+      target,
+      ...this.dependentsOf(kind, id, { recursive: true }),
+    ];
+    const order: GraphNode[] = [];
+
+    while (pending.length > 0) {
+      // Next is a resource nothing still pending references
+      const index = pending.findIndex(
+        (node) =>
+          !this.dependentsOf(node.kind, node.id).some((dependent) =>
+            pending.includes(dependent),
+          ),
+      );
+      // Reference cycles cannot be ordered, so fall back to discovery order
+      order.push(...pending.splice(Math.max(index, 0), 1));
+    }
+    return order;
+  }
+
+  /**
+   * Render the graph in Graphviz DOT syntax
+   */
+  toDot(): string {
+    const lines = ["digraph apisix {", "  rankdir=LR;"];
+    for (const node of this.nodes) {
+      const attributes = [
+        `label="${escapeDot(label(node).join("\n"))}"`,
+        `shape=${ENTRY_KINDS.includes(node.kind) ? "box" : "ellipse"}`,
+        ...(node.missing ? ["style=dashed"] : []),
+      ];
+      lines.push(`  "${escapeDot(key(node))}" [${attributes.join(", ")}];`);
+    }
+    for (const edge of this.edges) {
+      lines.push(
+        `  "${escapeDot(key(edge.from))}" -> "${escapeDot(key(edge.to))}" [label="${escapeDot(edge.field)}"];`,
+      );
+    }
+    lines.push("}");
+    return `${lines.join("\n")}\n`;
+  }
+
+  /**
+   * Render the graph as a Mermaid flowchart
+   */
+  toMermaid(): string {
+    const ids = new Map(this.nodes.map((node, i) => [key(node), `n${i}`]));
+    const lines = ["flowchart LR"];
+    for (const node of this.nodes) {
+      const text = escapeMermaid(label(node).join("<br/>"));
+      const shape = ENTRY_KINDS.includes(node.kind)
+        ? `["${text}"]`
+        : `("${text}")`;
+      lines.push(`  ${ids.get(key(node))}${shape}`);
+    }
+    for (const edge of this.edges) {
+      lines.push(
+        `  ${ids.get(key(edge.from))} -->|"${escapeMermaid(edge.field)}"| ${ids.get(key(edge.to))}`,
+      );
+    }
+
+    const missing = this.nodes.filter((node) => node.missing);
+    if (missing.length > 0) {
+      lines.push("  classDef missing stroke-dasharray: 5 5");
+      lines.push(
+        `  class ${missing.map((node) => ids.get(key(node))).join(",")} missing`,
+      );
+    }
+    return `${lines.join("\n")}\n`;
+  }
+
+  private addNode(node: GraphNode): void {
+    this.nodes.push(node);
+    this.index.set(key(node), node);
+  }
+
+  private walk(
+    kind: ConfigKind,
+    id: string,
+    along: "from" | "to",
+    recursive = false,
+  ): GraphNode[] {
+    const start = `${kind}/${id}`;
+    const found = new Map<string, GraphNode>();
+    const queue = [start];
+
+    while (queue.length > 0) {
+      const current = queue.shift() as string;
+      for (const edge of this.edges) {
+        if (key(edge[along]) !== current) continue;
+        const next = key(along === "to" ? edge.from : edge.to);
+        if (next === start || found.has(next)) continue;
+        found.set(next, this.index.get(next) as GraphNode);
+        if (recursive) queue.push(next);
+      }
+    }
+    return [...found.values()];
+  }
+}
+
+/**
+ * Dependency graph of the live gateway and deletes that respect it
+ */
+export class DependencyGraph {
+  private client: ApisixClient;
+  private reconciler: Reconciler;
+
+  constructor(client: ApisixClient, reconciler: Reconciler) {
+    this.client = client;
+    this.reconciler = reconciler;
+  }
+
+  /**
+   * Load resources and build the graph of references between them
+   *
+   * Every kind is loaded unless `kinds` limits them, e.g. to answer several
+   * queries from one graph through their `graph` option.
+   */
+  async load(kinds?: readonly ConfigKind[]): Promise<ResourceGraph> {
+    return new ResourceGraph(await this.reconciler.readState(kinds));
+  }
+
+  /**
+   * Build the graph of a configuration document, given as an object or YAML
+   * or JSON text, without contacting APISIX
+   */
+  fromConfig(config: ApisixConfig | string): ResourceGraph {
+    return new ResourceGraph(
+      typeof config === "string" ? parseConfig(config) : config,
+    );
+  }
+
+  /**
+   * Live resources that reference the given one
+   * Only the kinds that can reference it, or its dependents, are loaded
+   */
+  async dependentsOf(
+    kind: ConfigKind,
+    id: string,
+    options: LiveGraphQueryOptions = {},
+  ): Promise<GraphNode[]> {
+    const graph =
+      options.graph ?? (await this.loadDependents(kind, id, options.recursive));
+    return graph.dependentsOf(kind, id, options);
+  }
+
+  /**
+   * Live resources the given one references
+   * Only the kinds it can reference are loaded
+   */
+  async dependenciesOf(
+    kind: ConfigKind,
+    id: string,
+    options: LiveGraphQueryOptions = {},
+  ): Promise<GraphNode[]> {
+    const graph =
+      options.graph ??
+      (await this.load(dependencyKinds(kind, options.recursive)));
+    return graph.dependenciesOf(kind, id, options);
+  }
+
+  /**
+   * Render the live gateway topology in Graphviz DOT syntax
+   */
+  async toDot(): Promise<string> {
+    return (await this.load()).toDot();
+  }
+
+  /**
+   * Render the live gateway topology as a Mermaid flowchart
+   */
+  async toMermaid(): Promise<string> {
+    return (await this.load()).toMermaid();
+  }
+
+  /**
+   * Delete a resource according to a policy for the resources depending on it
+   *
+   * `refuse`, the default, throws an `ApisixConflictError` naming the
+   * dependents, `cascade` deletes them first in a transaction that is rolled
+   * back when any delete fails, and `force` deletes only the resource,
+   * leaving the dependents with dangling references.
+   */
+  async delete(
+    kind: ConfigKind,
+    id: string,
+    options: SafeDeleteOptions = {},
+  ): Promise<SafeDeleteResult> {
+    const policy = options.policy ?? "refuse";
+    const graph = await this.loadDependents(kind, id, true);
+    const target = graph.getNode(kind, id);
+    if (!target || target.missing) {
+      throw new ApisixNotFoundError(`${kind}/${id} does not exist`);
+    }
+
+    const dependents = graph.dependentsOf(kind, id, { recursive: true });
+    if (policy === "refuse" && dependents.length > 0) {
+      throw new ApisixConflictError(
+        `Cannot delete ${kind}/${id}, it is used by ${dependents.map(key).join(", ")}`,
+      );
+    }
+
+    const deleted =
+      policy === "cascade" ? graph.deletionOrder(kind, id) : [target];
+    const result = { target, policy, dependents, deleted, dryRun: false };
+    if (options.dryRun) return { ...result, dryRun: true };
+
+    if (policy === "force") {
+      const { path, id: resourceId } = getResourceLocation(
+        kind,
+        fromResourceKey(kind, id),
+      );
+      await this.client.removeWithQuery(
+        this.client.getAdminEndpoint(path),
+        resourceId,
+        { force: "true" },
+      );
+      return result;
+    }
+
+    const report = await Transaction.run(this.client, async (tx) => {
+      for (const node of deleted) await tx.delete(node.kind, node.id);
+    });
+    if (!report.committed) throw report.cause;
+    return result;
+  }
+
+  /**
+   * Load the resource's kind and the kinds that can reference it; with
+   * `recursive` also the kinds that can reference the dependents found, until
+   * no new ones turn up
+   */
+  private async loadDependents(
+    kind: ConfigKind,
+    id: string,
+    recursive = false,
+  ): Promise<ResourceGraph> {
+    const loaded = new Set([kind, ...getReferringKinds(kind)]);
+    const config = await this.reconciler.readState([...loaded]);
+    for (;;) {
+      const graph = new ResourceGraph(config);
+      if (!recursive) return graph;
+      const pending = new Set(
+        graph
+          .dependentsOf(kind, id, { recursive: true })
+          .flatMap((node) => getReferringKinds(node.kind))
+          .filter((related) => !loaded.has(related)),
+      );
+      if (pending.size === 0) return graph;
+      for (const related of pending) loaded.add(related);
+      Object.assign(config, await this.reconciler.readState([...pending]));
+    }
+  }
+}
+
+/**
+ * The kind and the kinds it can reference, with `recursive` also the kinds
+ * these can reference in turn
+ */
+function dependencyKinds(kind: ConfigKind, recursive = false): ConfigKind[] {
+  const kinds = CONFIG_KINDS.map((info) => info.kind);
+  const found = new Set([kind]);
+  const queue = [kind];
+  while (queue.length > 0) {
+    const current = queue.shift() as ConfigKind;
+    for (const target of kinds) {
+      if (found.has(target) || !getReferringKinds(target).includes(current)) {
+        continue;
+      }
+      found.add(target);
+      if (recursive) queue.push(target);
+    }
+  }
+  return kinds.filter((target) => found.has(target));
+}
+
+function key(node: { kind: ConfigKind; id: string }): string {
+  return `${node.kind}/${node.id}`;
+}
+
+function label(node: GraphNode): string[] {
+  return node.name ? [key(node), node.name] : [key(node)];
+}
+
+function escapeDot(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function escapeMermaid(text: string): string {
+  return text.replace(/"/g, "#quot;");
+}
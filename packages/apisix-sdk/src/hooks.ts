@@ -0,0 +1,81 @@
+import type {
+  ApisixHooks,
+  ErrorContext,
+  RequestContext,
+  ResponseContext,
+  RetryContext,
+} from "./types";
+
+/**
+ * Ordered set of request lifecycle hooks
+ *
+ * Hooks run sequentially in registration order and may mutate the context
+ * they receive. An error thrown by a hook aborts the request.
+ */
+export class HookPipeline {
+  private hooks: ApisixHooks[] = [];
+
+  constructor(hooks?: ApisixHooks | ApisixHooks[]) {
+    if (hooks) {
+      for (const entry of Array.isArray(hooks) ? hooks : [hooks]) {
+        this.add(entry);
+      }
+    }
+  }
+
+  /**
+   * Register hooks, returns a function that unregisters them
+   */
+  add(hooks: ApisixHooks): () => void {
+    this.hooks.push(hooks);
+    return () => this.remove(hooks);
+  }
+
+  /**
+   * Unregister previously added hooks
+   */
+  remove(hooks: ApisixHooks): boolean {
+    const index = this.hooks.indexOf(hooks);
+    if (index === -1) return false;
+    this.hooks.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Remove all registered hooks
+   */
+  clear(): void {
+    this.hooks = [];
+  }
+
+  /**
+   * Number of registered hook sets
+   */
+  get size(): number {
+    return this.hooks.length;
+  }
+
+  async runRequest(context: RequestContext): Promise<void> {
+    for (const hooks of this.hooks.slice()) {
+      await hooks.onRequest?.(context);
+    }
+  }
+
+  async runResponse(context: ResponseContext): Promise<void> {
+    for (const hooks of this.hooks.slice()) {
+      await hooks.onResponse?.(context);
+    }
+  }
+
+  async runError(context: ErrorContext): Promise<void> {
+    for (const hooks of this.hooks.slice()) {
+      await hooks.onError?.(context);
+    }
+  }
+
+  async runRetry(context: RetryContext): Promise<void> {
+    for (const hooks of this.hooks.slice()) {
+      await hooks.onRetry?.(context);
+    }
+  }
+}
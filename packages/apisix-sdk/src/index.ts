@@ -3,6 +3,11 @@ export type * from "./types";
 
 // Import dependencies
 import { ApisixClient } from "./client";
+import { DriftDetector } from "./drift";
+import { ApisixValidationError } from "./errors";
+import { DependencyGraph } from "./graph";
+import { Integrity } from "./integrity";
+import { Reconciler } from "./reconciler";
 import { ConsumerGroups } from "./resources/consumer-groups";
 import { Consumers } from "./resources/consumers";
 import { Control } from "./resources/control";
@@ -17,7 +22,25 @@ import { Services } from "./resources/services";
 import { SSLCertificates } from "./resources/ssl";
 import { StreamRoutes } from "./resources/stream-routes";
 import { Upstreams } from "./resources/upstreams";
-import type { ApisixSDKConfig, Upstream } from "./types";
+import { Transaction } from "./transaction";
+import type {
+  ApisixConfig,
+  ApisixHooks,
+  ApisixSDKConfig,
+  ApisixSnapshot,
+  ApplyOptions,
+  ApplyReport,
+  ConfigDiff,
+  DiffOptions,
+  DriftOptions,
+  DriftReport,
+  LabelSelector,
+  RestoreOptions,
+  RetryPolicy,
+  SnapshotOptions,
+  TransactionReport,
+  Upstream,
+} from "./types";
 import { VersionManager } from "./version";
 
 /**
@@ -27,6 +50,7 @@ import { VersionManager } from "./version";
  */
 export class ApisixSDK {
   private client: ApisixClient;
+  private reconciler: Reconciler;
 
   // Admin API resource managers
   public readonly routes: Routes;
@@ -49,13 +73,26 @@ export class ApisixSDK {
   // Version manager
   public readonly version: VersionManager;
 
+  // Referential integrity checks
+  public readonly integrity: Integrity;
+
+  // Dependency graph and safe deletes
+  public readonly graph: DependencyGraph;
+
   constructor(config: ApisixSDKConfig) {
     this.client = new ApisixClient(config);
 
+    // Initialize Control API manager, routes read plugin priorities from it
+    this.control = new Control(this.client);
+
+    // Safe deletes of routes, services and upstreams check the graph
+    this.reconciler = new Reconciler(this.client);
+    this.graph = new DependencyGraph(this.client, this.reconciler);
+
     // Initialize Admin API resource managers
-    this.routes = new Routes(this.client);
-    this.services = new Services(this.client);
-    this.upstreams = new Upstreams(this.client);
+    this.routes = new Routes(this.client, this.control, this.graph);
+    this.services = new Services(this.client, this.graph);
+    this.upstreams = new Upstreams(this.client, this.graph);
     this.consumers = new Consumers(this.client);
     this.credentials = new Credentials(this.client);
     this.ssl = new SSLCertificates(this.client);
@@ -67,11 +104,25 @@ export class ApisixSDK {
     this.secrets = new Secrets(this.client);
     this.protos = new Protos(this.client);
 
-    // Initialize Control API manager
-    this.control = new Control(this.client);
-
     // Initialize Version manager
     this.version = new VersionManager(this.client);
+
+    this.integrity = new Integrity(this.reconciler);
+
+    // Actively probe Admin API nodes through their paired Control API
+    const probeInterval = config.adminAPI?.failover?.probeInterval;
+    if (probeInterval) {
+      const controlURLs = [
+        config.controlAPI?.baseURL || "http://127.0.0.1:9090",
+      ].flat();
+      this.client.startHealthProbes(
+        (_baseURL, index) =>
+          this.control.isHealthy({
+            baseURL: controlURLs[index] ?? controlURLs[0],
+          }),
+        probeInterval,
+      );
+    }
   }
 
   /**
@@ -81,6 +132,30 @@ export class ApisixSDK {
     return this.client;
   }
 
+  /**
+   * Register request lifecycle hooks, returns a function that unregisters them
+   */
+  addHooks(hooks: ApisixHooks): () => void {
+    return this.client.addHooks(hooks);
+  }
+
+  /**
+   * Unregister request lifecycle hooks
+   */
+  removeHooks(hooks: ApisixHooks): boolean {
+    return this.client.removeHooks(hooks);
+  }
+
+  /**
+   * Run `fn` with a retry policy applied to every request it makes
+   */
+  async withRetryPolicy<T>(
+    policy: RetryPolicy | false,
+    fn: () => Promise<T>,
+  ): Promise<T> {
+    return this.client.withRetryPolicy(policy, fn);
+  }
+
   /**
    * Test connection to APISIX Admin API
    */
@@ -213,6 +288,7 @@ export class ApisixSDK {
       strategy?: "replace" | "merge" | "skip_existing";
       validate?: boolean;
       dryRun?: boolean;
+      format?: "json" | "yaml";
     },
   ) {
     const endpoint = this.getEndpointForEntityType(entityType);
@@ -235,6 +311,79 @@ export class ApisixSDK {
     return this.client.exportData<T>(endpoint, options);
   }
 
+  /**
+   * Compare a declarative configuration document with the live gateway
+   * Render the result with `formatDiff()` for review
+   */
+  async diff(
+    desired: ApisixConfig | string,
+    options?: DiffOptions,
+  ): Promise<ConfigDiff> {
+    return this.reconciler.diff(desired, options);
+  }
+
+  /**
+   * Reconcile APISIX with a declarative configuration document, given as an
+   * object or as YAML or JSON text. Pass `prune` with an ownership `selector`
+   * to delete what the document no longer lists
+   */
+  async apply(
+    desired: ApisixConfig | string,
+    options?: ApplyOptions,
+  ): Promise<ApplyReport> {
+    return this.reconciler.apply(desired, options);
+  }
+
+  /**
+   * Capture every resource kind in a versioned snapshot archive
+   * Store it with `JSON.stringify()`; secrets are included as returned
+   */
+  async snapshot(options?: SnapshotOptions): Promise<ApisixSnapshot> {
+    return this.reconciler.snapshot(options);
+  }
+
+  /**
+   * Rebuild a cluster from a snapshot archive in dependency order
+   */
+  async restore(
+    snapshot: ApisixSnapshot | string,
+    options?: RestoreOptions,
+  ): Promise<ApplyReport> {
+    return this.reconciler.restore(snapshot, options);
+  }
+
+  /**
+   * Report out-of-band changes, extra and missing resources against a baseline
+   */
+  async detectDrift(
+    baseline: ApisixConfig,
+    options?: DriftOptions,
+  ): Promise<DriftReport> {
+    return new DriftDetector(this.reconciler, baseline, options).check();
+  }
+
+  /**
+   * Create a drift detector, e.g. to check on a schedule with `start()`
+   * A function baseline is called before every check
+   */
+  createDriftDetector(
+    baseline: ApisixConfig | (() => ApisixConfig | Promise<ApisixConfig>),
+    options?: DriftOptions,
+  ): DriftDetector {
+    return new DriftDetector(this.reconciler, baseline, options);
+  }
+
+  /**
+   * Run several changes as a transaction
+   * When `fn` throws, every resource it touched is restored in reverse order;
+   * the report lists what could not be restored
+   */
+  async transaction<T>(
+    fn: (tx: Transaction) => Promise<T>,
+  ): Promise<TransactionReport<T>> {
+    return Transaction.run(this.client, fn);
+  }
+
   /**
    * Perform batch operations on multiple entities
    */
@@ -320,6 +469,7 @@ export class ApisixSDK {
     hasUpstream?: boolean;
     hasService?: boolean;
     labels?: Record<string, string>;
+    selector?: LabelSelector;
     createdAfter?: Date;
     createdBefore?: Date;
   }) {
@@ -340,7 +490,7 @@ export class ApisixSDK {
 
     const endpoint = endpointMap[entityType];
     if (!endpoint) {
-      throw new Error(`Unsupported entity type: ${entityType}`);
+      throw new ApisixValidationError(`Unsupported entity type: ${entityType}`);
     }
 
     return this.client.getAdminEndpoint(endpoint);
@@ -359,6 +509,65 @@ export default ApisixSDK;
 
 // Export types and classes
 export { ApisixClient } from "./client";
+export {
+  ApisixAuthError,
+  ApisixConflictError,
+  ApisixError,
+  ApisixNetworkError,
+  ApisixNotFoundError,
+  ApisixRateLimitError,
+  ApisixRevisionConflictError,
+  ApisixServerError,
+  ApisixTimeoutError,
+  ApisixValidationError,
+  ApisixYamlError,
+  createApisixError,
+} from "./errors";
+export type { ApisixErrorOptions } from "./errors";
+export { HookPipeline } from "./hooks";
+export { RateLimiter } from "./limiter";
+export { QueryCache } from "./cache";
+export { getRevision, REVISION } from "./revision";
+export { applyMergePatch } from "./bulk";
+export { SERVER_SIDE_FILTERS } from "./filters";
+export { matchesSelector, parseSelector } from "./selector";
+export { Reconciler } from "./reconciler";
+export { diffConfig, formatDiff, normalizeResource } from "./diff";
+export { classifyDrift, DriftDetector } from "./drift";
+export { PLUGIN_LAYERS, resolveEffectivePlugins } from "./effective";
+export { DependencyGraph, ResourceGraph } from "./graph";
+export { checkIntegrity, Integrity } from "./integrity";
+export {
+  createSnapshot,
+  parseSnapshot,
+  SNAPSHOT_FORMAT,
+  SNAPSHOT_VERSION,
+} from "./snapshot";
+export {
+  parseStandaloneConfig,
+  renderStandaloneConfig,
+  STANDALONE_END_MARKER,
+} from "./standalone";
+export { Transaction } from "./transaction";
+export {
+  parseConfig,
+  parseYaml,
+  parseYamlDocuments,
+  stringifyConfig,
+  stringifyYaml,
+  stringifyYamlDocuments,
+} from "./yaml";
+export {
+  CONFIG_KINDS,
+  PLUGIN_DEFAULTS,
+  SERVER_DEFAULTS,
+  UPSTREAM_DEFAULTS,
+} from "./kinds";
+export type { ConfigKindInfo } from "./kinds";
+export { EndpointPool } from "./endpoints";
+export { DEFAULT_RETRY_POLICY } from "./retry";
+export { Transport } from "./transport";
+export type { ConnectionOptions, TransportKind } from "./transport";
 export { VersionManager } from "./version";
 export { Routes } from "./resources/routes";
 export { Services } from "./resources/services";
@@ -0,0 +1,145 @@
+import {
+  CONFIG_KINDS,
+  findDanglingReferences,
+  getReferences,
+  getResourceKey,
+} from "./kinds";
+import type { Reconciler } from "./reconciler";
+import type {
+  ApisixConfig,
+  ConfigKind,
+  IntegrityFix,
+  IntegrityIssue,
+  IntegrityReport,
+} from "./types";
+import { parseConfig } from "./yaml";
+
+// Kinds that do nothing unless another resource uses them
+const ORPHAN_KINDS: ConfigKind[] = [
+  "upstreams",
+  "services",
+  "plugin_configs",
+  "consumer_groups",
+  "protos",
+];
+
+// References that are optional, so dropping them is the likely fix
+const OPTIONAL_FIELDS = ["plugin_config_id", "group_id"];
+
+/**
+ * Find dangling references and orphaned resources in a configuration
+ *
+ * A reference is dangling when it names a resource the configuration does
+ * not contain, e.g. a route `upstream_id` of a deleted upstream or a
+ * `$secret://` value of a missing secret. Upstreams, services, plugin
+ * configs, consumer groups and protos nothing references are orphans.
+ */
+export function checkIntegrity(config: ApisixConfig): IntegrityReport {
+  const issues: IntegrityIssue[] = [];
+
+  for (const ref of findDanglingReferences(config)) {
+    const target = { kind: ref.target, id: ref.targetId };
+    const create: IntegrityFix = {
+      action: "create",
+      kind: ref.target,
+      id: ref.targetId,
+      description: `Create ${ref.target}/${ref.targetId}`,
+    };
+    const fixes = [create];
+
+    if (ref.kind === "credentials") {
+      // A credential cannot exist without its consumer
+      fixes.push(deleteFix(ref.kind, ref.id));
+    } else if (ref.target !== "secrets" && !ref.field.includes("/")) {
+      const unset: IntegrityFix = {
+        action: "unset",
+        kind: ref.kind,
+        id: ref.id,
+        description: `Remove ${ref.field} from ${ref.kind}/${ref.id}`,
+        patch: { [ref.field]: null },
+      };
+      if (OPTIONAL_FIELDS.includes(ref.field)) {
+        fixes.unshift(unset);
+      } else {
+        fixes.push(unset);
+      }
+    }
+
+    issues.push({
+      type: "dangling",
+      kind: ref.kind,
+      id: ref.id,
+      field: ref.field,
+      target,
+      message: `${ref.kind}/${ref.id} ${ref.field} references ${ref.target}/${ref.targetId}, which does not exist`,
+      fixes,
+    });
+  }
+
+  const referenced = new Set<string>();
+  for (const { kind } of CONFIG_KINDS) {
+    for (const item of (config[kind] ?? []) as unknown[]) {
+      for (const ref of getReferences(kind, item)) {
+        referenced.add(`${ref.target}/${ref.targetId}`);
+      }
+    }
+  }
+  for (const kind of ORPHAN_KINDS) {
+    for (const item of (config[kind] ?? []) as unknown[]) {
+      const id = getResourceKey(kind, item);
+      if (referenced.has(`${kind}/${id}`)) continue;
+      issues.push({
+        type: "orphan",
+        kind,
+        id,
+        message: `${kind}/${id} is not used by any resource`,
+        fixes: [deleteFix(kind, id)],
+      });
+    }
+  }
+
+  const dangling = issues.filter((issue) => issue.type === "dangling").length;
+  return {
+    checkedAt: new Date().toISOString(),
+    ok: dangling === 0,
+    resources: CONFIG_KINDS.reduce(
+      (total, { kind }) => total + (config[kind]?.length ?? 0),
+      0,
+    ),
+    dangling,
+    orphans: issues.length - dangling,
+    issues,
+  };
+}
+
+/**
+ * Referential integrity checks against the live gateway
+ */
+export class Integrity {
+  private reconciler: Reconciler;
+
+  constructor(reconciler: Reconciler) {
+    this.reconciler = reconciler;
+  }
+
+  /**
+   * Load every resource and check the references between them
+   */
+  async check(): Promise<IntegrityReport> {
+    return checkIntegrity(await this.reconciler.readState());
+  }
+
+  /**
+   * Check a configuration document, given as an object or YAML or JSON text,
+   * without contacting APISIX
+   */
+  checkConfig(config: ApisixConfig | string): IntegrityReport {
+    return checkIntegrity(
+      typeof config === "string" ? parseConfig(config) : config,
+    );
+  }
+}
+
+function deleteFix(kind: ConfigKind, id: string): IntegrityFix {
+  return { action: "delete", kind, id, description: `Delete ${kind}/${id}` };
+}
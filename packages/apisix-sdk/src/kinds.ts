@@ -0,0 +1,484 @@
+import { ApisixValidationError } from "./errors";
+import type { ApisixConfig, ConfigKind } from "./types";
+
+export interface ConfigKindInfo {
+  kind: ConfigKind;
+  path: string; // Admin API path, credentials and secrets are nested below it
+  idField: "id" | "username";
+  labelled: boolean;
+  references: Record<string, ConfigKind>; // Field holding the ID of another kind
+}
+
+export interface ResourceReference {
+  field: string; // Path of the referencing field, e.g. `upstream_id` or `tls/client_cert_id`
+  target: ConfigKind;
+  targetId: string;
+}
+
+export interface DanglingReference extends ResourceReference {
+  kind: ConfigKind;
+  id: string;
+}
+
+/**
+ * Every resource kind of a declarative configuration, in dependency order
+ *
+ * A kind only references kinds listed before it, so creating in this order
+ * and deleting in reverse never leaves a dangling reference behind.
+ */
+export const CONFIG_KINDS: readonly ConfigKindInfo[] = [
+  {
+    kind: "secrets",
+    path: "/secrets",
+    idField: "id",
+    labelled: false,
+    references: {},
+  },
+  {
+    kind: "plugin_metadata",
+    path: "/plugin_metadata",
+    idField: "id",
+    labelled: false,
+    references: {},
+  },
+  {
+    kind: "protos",
+    path: "/protos",
+    idField: "id",
+    labelled: true,
+    references: {},
+  },
+  {
+    kind: "ssls",
+    path: "/ssls",
+    idField: "id",
+    labelled: true,
+    references: {},
+  },
+  {
+    kind: "upstreams",
+    path: "/upstreams",
+    idField: "id",
+    labelled: true,
+    references: {},
+  },
+  {
+    kind: "services",
+    path: "/services",
+    idField: "id",
+    labelled: true,
+    references: { upstream_id: "upstreams" },
+  },
+  {
+    kind: "plugin_configs",
+    path: "/plugin_configs",
+    idField: "id",
+    labelled: true,
+    references: {},
+  },
+  {
+    kind: "consumer_groups",
+    path: "/consumer_groups",
+    idField: "id",
+    labelled: true,
+    references: {},
+  },
+  {
+    kind: "consumers",
+    path: "/consumers",
+    idField: "username",
+    labelled: true,
+    references: { group_id: "consumer_groups" },
+  },
+  {
+    kind: "credentials",
+    path: "/consumers",
+    idField: "id",
+    labelled: true,
+    references: { consumer: "consumers" },
+  },
+  {
+    kind: "global_rules",
+    path: "/global_rules",
+    idField: "id",
+    labelled: false,
+    references: {},
+  },
+  {
+    kind: "routes",
+    path: "/routes",
+    idField: "id",
+    labelled: true,
+    references: {
+      upstream_id: "upstreams",
+      service_id: "services",
+      plugin_config_id: "plugin_configs",
+    },
+  },
+  {
+    kind: "stream_routes",
+    path: "/stream_routes",
+    idField: "id",
+    labelled: false,
+    references: { upstream_id: "upstreams", service_id: "services" },
+  },
+];
+
+export const SECRET_MANAGERS = ["vault", "aws", "gcp"] as const;
+
+// Maintained by APISIX, never part of a desired configuration
+export const SERVER_MANAGED_FIELDS = ["create_time", "update_time"];
+
+// Values APISIX stores for fields a resource leaves out, by path within the
+// resource; `*` stands for any array index
+export const SERVER_DEFAULTS: Partial<
+  Record<ConfigKind, Record<string, unknown>>
+> = {
+  ssls: { type: "server", status: 1 },
+  routes: { priority: 0, status: 1 },
+};
+
+// Upstream defaults, for upstreams and the upstreams inlined in other kinds
+export const UPSTREAM_DEFAULTS: Record<string, unknown> = {
+  type: "roundrobin",
+  scheme: "http",
+  pass_host: "pass",
+  hash_on: "vars",
+  "nodes/*/priority": 0,
+  "checks/active/type": "http",
+  "checks/active/timeout": 1,
+  "checks/active/concurrency": 10,
+  "checks/active/http_path": "/",
+  "checks/active/https_verify_certificate": true,
+  "checks/active/healthy/interval": 1,
+  "checks/active/healthy/successes": 2,
+  "checks/active/healthy/http_statuses": [200, 302],
+  "checks/active/unhealthy/interval": 1,
+  "checks/active/unhealthy/http_statuses": [
+    429, 404, 500, 501, 502, 503, 504, 505,
+  ],
+  "checks/active/unhealthy/http_failures": 5,
+  "checks/active/unhealthy/tcp_failures": 2,
+  "checks/active/unhealthy/timeouts": 3,
+  "checks/passive/type": "http",
+  "checks/passive/healthy/http_statuses": [
+    200, 201, 202, 203, 204, 205, 206, 207, 208, 226, 300, 301, 302, 303, 304,
+    305, 306, 307, 308,
+  ],
+  "checks/passive/healthy/successes": 5,
+  "checks/passive/unhealthy/http_statuses": [429, 500, 503],
+  "checks/passive/unhealthy/http_failures": 5,
+  "checks/passive/unhealthy/tcp_failures": 2,
+  "checks/passive/unhealthy/timeouts": 7,
+};
+
+// Plugin schema defaults, by path within the plugin configuration
+export const PLUGIN_DEFAULTS: Record<string, Record<string, unknown>> = {
+  "basic-auth": { hide_credentials: false },
+  cors: {
+    allow_origins: "*",
+    allow_methods: "*",
+    allow_headers: "*",
+    max_age: 5,
+    allow_credential: false,
+  },
+  "key-auth": { header: "apikey", query: "apikey", hide_credentials: false },
+  "limit-conn": {
+    key_type: "var",
+    rejected_code: 503,
+    only_use_default_delay: false,
+    allow_degradation: false,
+  },
+  "limit-count": {
+    key: "remote_addr",
+    key_type: "var",
+    policy: "local",
+    rejected_code: 503,
+    show_limit_quota_header: true,
+    allow_degradation: false,
+  },
+  "limit-req": {
+    key_type: "var",
+    policy: "local",
+    rejected_code: 503,
+    nodelay: false,
+    allow_degradation: false,
+  },
+  prometheus: { prefer_name: false },
+  "proxy-rewrite": { use_real_request_uri_unsafe: false },
+};
+
+/**
+ * Look up a kind by name
+ */
+export function getKindInfo(kind: ConfigKind): ConfigKindInfo {
+  return CONFIG_KINDS.find((info) => info.kind === kind) as ConfigKindInfo;
+}
+
+/**
+ * The key a resource is identified by within its kind
+ *
+ * Credentials are only unique per consumer, so their key is `consumer/id`.
+ */
+export function getResourceKey(kind: ConfigKind, item: unknown): string {
+  const record = item as Record<string, unknown>;
+  const id = record[getKindInfo(kind).idField];
+  if (id === undefined || id === null || id === "") return "";
+  return kind === "credentials"
+    ? `${String(record.consumer)}/${String(id)}`
+    : String(id);
+}
+
+/**
+ * The fields a resource key stands for, e.g. `jack/key` for a credential
+ */
+export function fromResourceKey(
+  kind: ConfigKind,
+  key: string,
+): Record<string, unknown> {
+  if (kind === "credentials") {
+    const [consumer, ...rest] = key.split("/");
+    return { consumer, id: rest.join("/") };
+  }
+  return { [getKindInfo(kind).idField]: key };
+}
+
+/**
+ * Where a resource lives in the Admin API: its collection path and the ID
+ * within it
+ */
+export function getResourceLocation(
+  kind: ConfigKind,
+  item: unknown,
+): { path: string; id: string } {
+  const info = getKindInfo(kind);
+  const record = item as Record<string, unknown>;
+  const id = String(record[info.idField]);
+  switch (kind) {
+    case "credentials":
+      return {
+        path: `/consumers/${String(record.consumer)}/credentials`,
+        id,
+      };
+    case "secrets": {
+      const [manager, ...rest] = id.split("/");
+      return { path: `/secrets/${manager}`, id: rest.join("/") };
+    }
+    default:
+      return { path: info.path, id };
+  }
+}
+
+/**
+ * The request body for a resource, without server-managed fields and the
+ * fields that only make up its key
+ */
+export function toRequestBody(
+  kind: ConfigKind,
+  item: unknown,
+): Record<string, unknown> {
+  const omitted = [...SERVER_MANAGED_FIELDS];
+  if (kind === "credentials") omitted.push("id", "consumer");
+  if (kind === "secrets" || kind === "plugin_metadata") omitted.push("id");
+  return Object.fromEntries(
+    Object.entries(item as Record<string, unknown>).filter(
+      ([key]) => !omitted.includes(key),
+    ),
+  );
+}
+
+/**
+ * Check that every item of a configuration document can be identified
+ */
+export function validateConfig(config: ApisixConfig): void {
+  for (const key of Object.keys(config)) {
+    if (!CONFIG_KINDS.some((info) => info.kind === key)) {
+      throw new ApisixValidationError(`Unknown configuration kind: ${key}`);
+    }
+  }
+
+  for (const info of CONFIG_KINDS) {
+    const items = config[info.kind];
+    if (items === undefined) continue;
+    if (!Array.isArray(items)) {
+      throw new ApisixValidationError(`${info.kind} must be an array`);
+    }
+
+    const seen = new Set<string>();
+    for (const item of items) {
+      const key = getResourceKey(info.kind, item);
+      if (!key) {
+        throw new ApisixValidationError(
+          `Every item in ${info.kind} needs a ${info.idField}`,
+        );
+      }
+      if (info.kind === "secrets" && !isSecretKey(key)) {
+        throw new ApisixValidationError(
+          `Secret ID "${key}" must look like <manager>/<id> with manager one of ${SECRET_MANAGERS.join(", ")}`,
+        );
+      }
+      if (seen.has(key)) {
+        throw new ApisixValidationError(
+          `Duplicate ${info.idField} "${key}" in ${info.kind}`,
+        );
+      }
+      seen.add(key);
+    }
+  }
+}
+
+/**
+ * The resources an item points at
+ *
+ * Besides the ID fields of its kind these are upstreams of the traffic-split
+ * plugin, protos of grpc-transcode, SSL objects used as upstream client
+ * certificates and `$secret://<manager>/<id>/...` values anywhere in it.
+ */
+export function getReferences(
+  kind: ConfigKind,
+  item: unknown,
+): ResourceReference[] {
+  const record = item as Record<string, unknown>;
+  const references: ResourceReference[] = [];
+  const add = (field: string, target: ConfigKind, value: unknown) => {
+    if (value === undefined || value === null || value === "") return;
+    references.push({ field, target, targetId: String(value) });
+  };
+
+  for (const [field, target] of Object.entries(getKindInfo(kind).references)) {
+    add(field, target, record[field]);
+  }
+
+  const upstream = kind === "upstreams" ? record : asRecord(record.upstream);
+  const prefix = kind === "upstreams" ? "" : "upstream/";
+  add(
+    `${prefix}tls/client_cert_id`,
+    "ssls",
+    asRecord(upstream?.tls)?.client_cert_id,
+  );
+
+  const plugins = asRecord(record.plugins);
+  const rules = asRecord(plugins?.["traffic-split"])?.rules;
+  (Array.isArray(rules) ? rules : []).forEach((rule, i) => {
+    const weighted = asRecord(rule)?.weighted_upstreams;
+    (Array.isArray(weighted) ? weighted : []).forEach((entry, j) =>
+      add(
+        `plugins/traffic-split/rules/${i}/weighted_upstreams/${j}/upstream_id`,
+        "upstreams",
+        asRecord(entry)?.upstream_id,
+      ),
+    );
+  });
+  add(
+    "plugins/grpc-transcode/proto_id",
+    "protos",
+    asRecord(plugins?.["grpc-transcode"])?.proto_id,
+  );
+
+  if (kind !== "secrets") {
+    visitStrings(record, "", (path, value) => {
+      const match = value.match(/^\$secret:\/\/([^/]+)\/([^/]+)\//);
+      if (match) add(path, "secrets", `${match[1]}/${match[2]}`);
+    });
+  }
+  return references;
+}
+
+// Kinds whose plugins can name upstreams and protos; credentials only hold
+// authentication plugins
+const PLUGIN_REFERRERS: ConfigKind[] = [
+  "services",
+  "plugin_configs",
+  "consumer_groups",
+  "consumers",
+  "global_rules",
+  "routes",
+  "stream_routes",
+];
+
+// Kinds holding an upstream, which can name an SSL object as client certificate
+const UPSTREAM_HOLDERS: ConfigKind[] = [
+  "upstreams",
+  "services",
+  "routes",
+  "stream_routes",
+];
+
+/**
+ * The kinds whose items can reference a resource of `target` kind, following
+ * the references `getReferences` reports
+ */
+export function getReferringKinds(target: ConfigKind): ConfigKind[] {
+  return CONFIG_KINDS.filter(({ kind, references }) => {
+    if (Object.values(references).includes(target)) return true;
+    switch (target) {
+      case "secrets":
+        return kind !== "secrets";
+      case "upstreams":
+      case "protos":
+        return PLUGIN_REFERRERS.includes(kind);
+      case "ssls":
+        return UPSTREAM_HOLDERS.includes(kind);
+      default:
+        return false;
+    }
+  }).map(({ kind }) => kind);
+}
+
+/**
+ * References to resources a configuration document does not contain, such
+ * as a route whose `upstream_id` names no listed upstream
+ */
+export function findDanglingReferences(
+  config: ApisixConfig,
+): DanglingReference[] {
+  const keys = new Map(
+    CONFIG_KINDS.map(({ kind }) => [
+      kind,
+      new Set(
+        ((config[kind] ?? []) as unknown[]).map((item) =>
+          getResourceKey(kind, item),
+        ),
+      ),
+    ]),
+  );
+
+  const dangling: DanglingReference[] = [];
+  for (const { kind } of CONFIG_KINDS) {
+    for (const item of (config[kind] ?? []) as unknown[]) {
+      for (const reference of getReferences(kind, item)) {
+        if (keys.get(reference.target)?.has(reference.targetId)) continue;
+        dangling.push({ kind, id: getResourceKey(kind, item), ...reference });
+      }
+    }
+  }
+  return dangling;
+}
+
+function isSecretKey(key: string): boolean {
+  const [manager, ...rest] = key.split("/");
+  return (
+    (SECRET_MANAGERS as readonly string[]).includes(manager) &&
+    rest.join("/") !== ""
+  );
+}
+
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : undefined;
+}
+
+function visitStrings(
+  value: unknown,
+  path: string,
+  visit: (path: string, value: string) => void,
+): void {
+  if (typeof value === "string") {
+    visit(path, value);
+  } else if (typeof value === "object" && value !== null) {
+    for (const [key, child] of Object.entries(value)) {
+      visitStrings(child, path ? `${path}/${key}` : key, visit);
+    }
+  }
+}
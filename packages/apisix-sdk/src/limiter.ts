@@ -0,0 +1,175 @@
+import type { RateLimitOptions, RateLimitStats } from "./types";
+
+interface Waiter {
+  resolve: (release: () => void) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+/**
+ * Token bucket rate limiter combined with a concurrency semaphore
+ *
+ * Requests wait in FIFO order until a token and a concurrency slot are free.
+ * With `adaptive`, throttling responses halve the rate and pause the queue,
+ * and every success recovers a tenth of the configured rate.
+ */
+export class RateLimiter {
+  private options: RateLimitOptions = {};
+  private maxRate = Number.POSITIVE_INFINITY;
+  private minRate = 1;
+  private rate = Number.POSITIVE_INFINITY;
+  private burst = Number.POSITIVE_INFINITY;
+  private maxConcurrency = Number.POSITIVE_INFINITY;
+  private adaptive = false;
+  private tokens = Number.POSITIVE_INFINITY;
+  private lastRefill = Date.now();
+  private active = 0;
+  private queue: Waiter[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+  private pausedUntil = 0;
+  private consecutiveThrottles = 0;
+  private throttled = 0;
+
+  constructor(options: RateLimitOptions = {}) {
+    this.configure(options);
+  }
+
+  /**
+   * Update the limiter settings, keeping queued requests
+   */
+  configure(update: RateLimitOptions): void {
+    const options = { ...this.options, ...update };
+    this.options = options;
+    this.maxRate = options.requestsPerSecond ?? Number.POSITIVE_INFINITY;
+    this.rate = this.maxRate;
+    this.minRate = Math.min(options.minRequestsPerSecond ?? 1, this.maxRate);
+    this.burst = Math.max(1, options.burst ?? Math.ceil(this.maxRate));
+    this.tokens = this.burst;
+    this.lastRefill = Date.now();
+    this.maxConcurrency = Math.max(
+      1,
+      options.maxConcurrency ?? Number.POSITIVE_INFINITY,
+    );
+    this.adaptive = options.adaptive ?? false;
+    this.drain();
+  }
+
+  /**
+   * Wait for a slot, resolving with a function that releases it
+   */
+  acquire(signal?: AbortSignal): Promise<() => void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const waiter: Waiter = { resolve, signal };
+      if (signal) {
+        waiter.onAbort = () => {
+          this.queue = this.queue.filter((queued) => queued !== waiter);
+          reject(signal.reason);
+        };
+        signal.addEventListener("abort", waiter.onAbort, { once: true });
+      }
+      this.queue.push(waiter);
+      this.drain();
+    });
+  }
+
+  /**
+   * Record a successful response
+   */
+  reportSuccess(): void {
+    this.consecutiveThrottles = 0;
+    if (this.adaptive && this.rate < this.maxRate) {
+      this.refill(Date.now());
+      this.rate = Math.min(this.maxRate, this.rate + this.maxRate / 10);
+    }
+  }
+
+  /**
+   * Record a 429/503 response, slowing down when adaptive
+   */
+  reportThrottle(retryAfter?: number): void {
+    this.throttled++;
+    if (!this.adaptive) return;
+
+    this.consecutiveThrottles++;
+    const now = Date.now();
+    this.refill(now);
+    if (Number.isFinite(this.maxRate)) {
+      this.rate = Math.max(this.minRate, this.rate / 2);
+    }
+
+    const backoff =
+      retryAfter ??
+      Math.min(30000, 1000 * Math.pow(2, this.consecutiveThrottles - 1));
+    this.pausedUntil = Math.max(this.pausedUntil, now + backoff);
+  }
+
+  /**
+   * Get limiter statistics
+   */
+  getStats(): RateLimitStats {
+    const now = Date.now();
+    return {
+      active: this.active,
+      queued: this.queue.length,
+      requestsPerSecond: Number.isFinite(this.rate) ? this.rate : undefined,
+      throttled: this.throttled,
+      pausedUntil: this.pausedUntil > now ? this.pausedUntil : undefined,
+    };
+  }
+
+  private refill(now: number): void {
+    if (Number.isFinite(this.rate)) {
+      const elapsed = (now - this.lastRefill) / 1000;
+      this.tokens = Math.min(this.burst, this.tokens + elapsed * this.rate);
+    }
+    this.lastRefill = now;
+  }
+
+  private drain(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    while (this.queue.length > 0) {
+      // A released slot calls drain again
+      if (this.active >= this.maxConcurrency) return;
+
+      const now = Date.now();
+      if (now < this.pausedUntil) {
+        this.schedule(this.pausedUntil - now);
+        return;
+      }
+
+      this.refill(now);
+      if (this.tokens < 1) {
+        this.schedule(((1 - this.tokens) / this.rate) * 1000);
+        return;
+      }
+
+      this.tokens--;
+      this.active++;
+      const waiter = this.queue.shift() as Waiter;
+      if (waiter.onAbort) {
+        waiter.signal?.removeEventListener("abort", waiter.onAbort);
+      }
+
+      let released = false;
+      waiter.resolve(() => {
+        if (released) return;
+        released = true;
+        this.active--;
+        this.drain();
+      });
+    }
+  }
+
+  private schedule(delay: number): void {
+    this.timer = setTimeout(() => this.drain(), Math.ceil(delay));
+  }
+}
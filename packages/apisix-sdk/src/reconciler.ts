@@ -0,0 +1,359 @@
+import type { ApisixClient } from "./client";
+import { mapConcurrent } from "./bulk";
+import { diffConfig } from "./diff";
+import { ApisixNotFoundError, ApisixValidationError } from "./errors";
+import {
+  CONFIG_KINDS,
+  type ConfigKindInfo,
+  getResourceKey,
+  getResourceLocation,
+  SECRET_MANAGERS,
+  toRequestBody,
+  validateConfig,
+} from "./kinds";
+import { getRevision } from "./revision";
+import { parseSelector } from "./selector";
+import { createSnapshot, parseSnapshot } from "./snapshot";
+import { parseConfig } from "./yaml";
+import type {
+  ApisixConfig,
+  ApisixSnapshot,
+  ApplyChange,
+  ApplyOptions,
+  ApplyReport,
+  ConfigDiff,
+  ConfigKind,
+  Consumer,
+  DiffOptions,
+  LabelRequirement,
+  LabelSelector,
+  RestoreOptions,
+  SnapshotOptions,
+} from "./types";
+
+type Item = Record<string, unknown>;
+
+const ACTIONS = {
+  added: "create",
+  changed: "update",
+  removed: "delete",
+} as const;
+
+/**
+ * Reconciles APISIX with a declarative configuration document
+ */
+export class Reconciler {
+  private client: ApisixClient;
+
+  constructor(client: ApisixClient) {
+    this.client = client;
+  }
+
+  /**
+   * Read the current configuration of the given kinds
+   */
+  async readState(
+    kinds: readonly ConfigKind[] = CONFIG_KINDS.map((info) => info.kind),
+  ): Promise<ApisixConfig> {
+    const state: Record<string, unknown[]> = {};
+    for (const info of CONFIG_KINDS) {
+      if (kinds.includes(info.kind)) {
+        state[info.kind] = await this.readKind(info);
+      }
+    }
+    return state as ApisixConfig;
+  }
+
+  /**
+   * Compare a configuration document with the live gateway
+   * Live resources of the listed kinds missing from the document are reported
+   * as removed, limited to `selector` when given
+   */
+  async diff(
+    input: ApisixConfig | string,
+    options: DiffOptions = {},
+  ): Promise<ConfigDiff> {
+    const desired = toConfig(input);
+    validateConfig(desired);
+    const live = await this.readState(this.kindsOf(desired));
+    return diffConfig(desired, live, options);
+  }
+
+  /**
+   * Bring APISIX in line with `desired`
+   *
+   * Only kinds present in the document are touched. Creates and updates run
+   * in dependency order, deletions in reverse; after a failed change the
+   * remaining ones are skipped. Updates replace the whole resource, so fields
+   * the document leaves out are removed.
+   */
+  async apply(
+    input: ApisixConfig | string,
+    options: ApplyOptions = {},
+  ): Promise<ApplyReport> {
+    const desired = toConfig(input);
+    validateConfig(desired);
+    const selector = options.prune
+      ? this.pruneSelector(options.selector)
+      : undefined;
+    return this.reconcile(desired, {
+      dryRun: options.dryRun,
+      concurrency: options.concurrency,
+      prune: selector !== undefined,
+      selector,
+    });
+  }
+
+  /**
+   * Capture the configuration of the given kinds in a snapshot archive
+   */
+  async snapshot(options: SnapshotOptions = {}): Promise<ApisixSnapshot> {
+    const config = await this.readState(options.kinds);
+    return createSnapshot(config, await this.client.getServerInfo());
+  }
+
+  /**
+   * Rebuild APISIX from a snapshot archive
+   *
+   * `merge` creates and updates what the snapshot holds and keeps everything
+   * else; `overwrite` also rewrites unchanged resources and deletes those the
+   * snapshot lacks, for every kind it restores.
+   */
+  async restore(
+    input: ApisixSnapshot | string,
+    options: RestoreOptions = {},
+  ): Promise<ApplyReport> {
+    const { mode = "merge", kinds } = options;
+    const snapshot = parseSnapshot(input);
+    const config = Object.fromEntries(
+      Object.entries(snapshot.config).filter(
+        ([kind]) => !kinds || kinds.includes(kind as ConfigKind),
+      ),
+    ) as ApisixConfig;
+    validateConfig(config);
+
+    return this.reconcile(config, {
+      dryRun: options.dryRun,
+      concurrency: options.concurrency,
+      prune: mode === "overwrite",
+      overwrite: mode === "overwrite",
+    });
+  }
+
+  /**
+   * Plan and run the changes that turn live state into `desired`
+   */
+  private async reconcile(
+    desired: ApisixConfig,
+    options: {
+      dryRun?: boolean;
+      concurrency?: number;
+      prune: boolean; // Delete resources missing from `desired`
+      selector?: LabelRequirement[]; // Limits pruning when given
+      overwrite?: boolean; // Rewrite resources without changes too
+    },
+  ): Promise<ApplyReport> {
+    const { dryRun = false, concurrency = 5 } = options;
+    const live = await this.readState(this.kindsOf(desired));
+    const diff = diffConfig(desired, live, { selector: options.selector });
+
+    const find = (config: ApisixConfig, kind: ConfigKind, id: string) =>
+      (config[kind] as Item[] | undefined)?.find(
+        (item) => getResourceKey(kind, item) === id,
+      );
+    const planned: ApplyChange[] = [];
+    for (const entry of diff.entries) {
+      if (entry.type === "removed" && !options.prune) continue;
+      planned.push({
+        kind: entry.kind,
+        id: entry.id,
+        action: ACTIONS[entry.type],
+        status: "planned",
+        before: find(live, entry.kind, entry.id),
+        after: find(desired, entry.kind, entry.id),
+        changes: entry.changes,
+      });
+    }
+    const differing = planned.length;
+    if (options.overwrite) {
+      for (const kind of this.kindsOf(desired)) {
+        for (const item of desired[kind] as Item[]) {
+          const id = getResourceKey(kind, item);
+          const before = find(live, kind, id);
+          if (
+            before &&
+            !planned.some((change) => change.kind === kind && change.id === id)
+          ) {
+            planned.push({
+              kind,
+              id,
+              action: "update",
+              status: "planned",
+              before,
+              after: item,
+              changes: [],
+            });
+          }
+        }
+      }
+    }
+
+    // Group changes by kind: upserts in dependency order, deletions reversed
+    const byKind = (deletes: boolean) =>
+      CONFIG_KINDS.map(({ kind }) =>
+        planned.filter(
+          (change) =>
+            change.kind === kind && (change.action === "delete") === deletes,
+        ),
+      ).filter((group) => group.length > 0);
+    const groups = [...byKind(false), ...byKind(true).reverse()];
+
+    let failed = false;
+    for (const group of groups) {
+      if (dryRun) continue;
+      if (failed) {
+        for (const change of group) change.status = "skipped";
+        continue;
+      }
+
+      await mapConcurrent(group, concurrency, async (change) => {
+        try {
+          await this.execute(change);
+          change.status = "applied";
+        } catch (error) {
+          change.status = "failed";
+          change.error =
+            error instanceof Error ? error.message : "Unknown error";
+        }
+      });
+      failed = group.some((change) => change.status === "failed");
+    }
+
+    const changes = groups.flat();
+    const count = (action: ApplyChange["action"]) =>
+      changes.filter(
+        (change) =>
+          change.action === action &&
+          (change.status === "applied" || change.status === "planned"),
+      ).length;
+    return {
+      dryRun,
+      created: count("create"),
+      updated: count("update"),
+      deleted: count("delete"),
+      // Rewritten in overwrite mode, so no longer unchanged
+      unchanged: diff.unchanged - (planned.length - differing),
+      failed: changes.filter((change) => change.status === "failed").length,
+      skipped: changes.filter((change) => change.status === "skipped").length,
+      changes,
+    };
+  }
+
+  private kindsOf(desired: ApisixConfig): ConfigKind[] {
+    return CONFIG_KINDS.map((info) => info.kind).filter(
+      (kind) => desired[kind] !== undefined,
+    );
+  }
+
+  private pruneSelector(selector?: LabelSelector): LabelRequirement[] {
+    const requirements =
+      typeof selector === "string" ? parseSelector(selector) : selector;
+    if (!requirements?.length) {
+      throw new ApisixValidationError(
+        "Pruning requires a non-empty selector that identifies owned resources",
+      );
+    }
+    return requirements;
+  }
+
+  private async execute(change: ApplyChange): Promise<void> {
+    const item = change.after ?? change.before;
+    const { path, id } = getResourceLocation(change.kind, item);
+    const endpoint = this.client.getAdminEndpoint(path);
+
+    if (change.action === "delete") {
+      try {
+        await this.client.remove(endpoint, id);
+      } catch (error) {
+        // Deleting a consumer also removes its credentials
+        if (!(error instanceof ApisixNotFoundError)) throw error;
+      }
+      return;
+    }
+    await this.client.update(endpoint, id, toRequestBody(change.kind, item));
+  }
+
+  private async readKind(info: ConfigKindInfo): Promise<Item[]> {
+    switch (info.kind) {
+      case "credentials": {
+        const items: Item[] = [];
+        for (const consumer of await this.collect<Consumer>("/consumers")) {
+          const credentials = await this.collect<Item>(
+            `/consumers/${consumer.username}/credentials`,
+          );
+          for (const credential of credentials) {
+            items.push({
+              ...credential,
+              id:
+                credential.id ?? getRevision(credential)?.key.split("/").pop(),
+              consumer: consumer.username,
+            });
+          }
+        }
+        return items;
+      }
+      case "secrets": {
+        const items: Item[] = [];
+        for (const manager of SECRET_MANAGERS) {
+          for (const secret of await this.collect<Item>(
+            `/secrets/${manager}`,
+          )) {
+            const id = keyFromRevision(secret) ?? String(secret.id);
+            items.push({
+              ...secret,
+              id: id.includes("/") ? id : `${manager}/${id}`,
+            });
+          }
+        }
+        return items;
+      }
+      default:
+        // Plugin metadata and some older resources carry their ID only in the key
+        return (await this.collect<Item>(info.path)).map((item) => ({
+          ...item,
+          [info.idField]: item[info.idField] ?? keyFromRevision(item),
+        }));
+    }
+  }
+
+  /**
+   * List every item of an endpoint, treating a missing endpoint as empty
+   */
+  private async collect<T>(path: string): Promise<T[]> {
+    const items: T[] = [];
+    try {
+      for await (const item of this.client.iterate<T>(
+        this.client.getAdminEndpoint(path),
+      )) {
+        items.push(item);
+      }
+    } catch (error) {
+      // Older APISIX versions lack some kinds, e.g. credentials before 3.11
+      if (!(error instanceof ApisixNotFoundError)) throw error;
+    }
+    return items;
+  }
+}
+
+// A document given as YAML or JSON text
+function toConfig(input: ApisixConfig | string): ApisixConfig {
+  return typeof input === "string" ? parseConfig(input) : input;
+}
+
+// The etcd key ends in the resource ID, e.g. `vault/1` in `/apisix/secrets/vault/1`
+function keyFromRevision(item: unknown): string | undefined {
+  const key = getRevision(item)?.key;
+  if (!key) return undefined;
+  const match = key.match(/^\/apisix\/[^/]+\/(.+)$/);
+  return match?.[1];
+}
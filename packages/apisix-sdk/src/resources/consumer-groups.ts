@@ -1,8 +1,19 @@
 import type { ApisixClient } from "../client";
+import { ApisixNotFoundError } from "../errors";
 import type {
+  BulkOptions,
+  BulkReport,
   ConsumerGroup,
   CreateInput,
+  DeleteManyOptions,
+  FilterResult,
+  LabelSelector,
   ListOptions,
+  MergePatch,
+  ModifyOptions,
+  RequestOptions,
+  ResourceFilter,
+  ResourceSelection,
   UpdateInput,
 } from "../types";
 
@@ -25,6 +36,34 @@ export class ConsumerGroups {
     return this.client.extractList(response);
   }
 
+  /**
+   * Iterate over all consumer groups, fetching pages lazily
+   */
+  iterate(
+    options?: ListOptions,
+    requestOptions?: RequestOptions,
+  ): AsyncGenerator<ConsumerGroup, void, undefined> {
+    return this.client.iterate<ConsumerGroup>(
+      this.client.getAdminEndpoint(this.endpoint),
+      options,
+      requestOptions,
+    );
+  }
+
+  /**
+   * Find consumer groups matching a filter
+   */
+  query(
+    filter?: ResourceFilter<ConsumerGroup>,
+    requestOptions?: RequestOptions,
+  ): Promise<FilterResult<ConsumerGroup>> {
+    return this.client.query<ConsumerGroup>(
+      this.client.getAdminEndpoint(this.endpoint),
+      filter,
+      requestOptions,
+    );
+  }
+
   /**
    * Get a specific consumer group by ID
    */
@@ -81,6 +120,58 @@ export class ConsumerGroups {
     return this.client.extractValue(response);
   }
 
+  /**
+   * Update a consumer group only if it has not changed since it was read
+   */
+  async updateIfMatch(
+    id: string,
+    consumerGroup: UpdateInput<ConsumerGroup>,
+    revision?: number,
+  ): Promise<ConsumerGroup> {
+    const response = await this.client.compareAndSwap<ConsumerGroup>(
+      this.client.getAdminEndpoint(this.endpoint),
+      id,
+      consumerGroup,
+      { revision },
+    );
+    return this.client.extractValue(response);
+  }
+
+  /**
+   * Partially update a consumer group only if it has not changed since it was read
+   */
+  async patchIfMatch(
+    id: string,
+    consumerGroup: UpdateInput<ConsumerGroup>,
+    revision?: number,
+  ): Promise<ConsumerGroup> {
+    const response = await this.client.compareAndSwap<ConsumerGroup>(
+      this.client.getAdminEndpoint(this.endpoint),
+      id,
+      consumerGroup,
+      { revision, method: "PATCH" },
+    );
+    return this.client.extractValue(response);
+  }
+
+  /**
+   * Read a consumer group, apply `fn` and write it back, starting over on conflicts
+   */
+  async modify(
+    id: string,
+    fn: (
+      consumerGroup: ConsumerGroup,
+    ) => ConsumerGroup | Promise<ConsumerGroup>,
+    options?: ModifyOptions,
+  ): Promise<ConsumerGroup> {
+    return this.client.modify(
+      this.client.getAdminEndpoint(this.endpoint),
+      id,
+      fn,
+      options,
+    );
+  }
+
   /**
    * Delete a consumer group
    */
@@ -97,6 +188,86 @@ export class ConsumerGroups {
     return true;
   }
 
+  /**
+   * Delete every consumer group whose labels match a selector
+   */
+  async deleteMany(
+    selector: LabelSelector,
+    options?: DeleteManyOptions,
+  ): Promise<string[]> {
+    return this.client.deleteMany<ConsumerGroup>(
+      this.client.getAdminEndpoint(this.endpoint),
+      selector,
+      (id) => this.delete(id, options),
+    );
+  }
+
+  /**
+   * Apply a merge patch or function to all selected consumer groups
+   */
+  async updateMany(
+    selection: ResourceSelection<ConsumerGroup>,
+    patch: MergePatch<ConsumerGroup> | ((item: ConsumerGroup) => ConsumerGroup),
+    options?: BulkOptions,
+  ): Promise<BulkReport<ConsumerGroup>> {
+    return this.client.updateMany<ConsumerGroup>(
+      this.client.getAdminEndpoint(this.endpoint),
+      selection,
+      patch,
+      options,
+    );
+  }
+
+  /**
+   * Add or replace a plugin on all selected consumer groups
+   */
+  async addPluginToMany(
+    selection: ResourceSelection<ConsumerGroup>,
+    pluginName: string,
+    config: Record<string, unknown>,
+    options?: BulkOptions,
+  ): Promise<BulkReport<ConsumerGroup>> {
+    return this.client.addPluginToMany<ConsumerGroup>(
+      this.client.getAdminEndpoint(this.endpoint),
+      selection,
+      pluginName,
+      config,
+      options,
+    );
+  }
+
+  /**
+   * Remove a plugin from all selected consumer groups
+   */
+  async removePluginFromMany(
+    selection: ResourceSelection<ConsumerGroup>,
+    pluginName: string,
+    options?: BulkOptions,
+  ): Promise<BulkReport<ConsumerGroup>> {
+    return this.client.removePluginFromMany<ConsumerGroup>(
+      this.client.getAdminEndpoint(this.endpoint),
+      selection,
+      pluginName,
+      options,
+    );
+  }
+
+  /**
+   * Merge labels into all selected consumer groups, `null` removes a label
+   */
+  async setLabelsOnMany(
+    selection: ResourceSelection<ConsumerGroup>,
+    labels: Record<string, string | null>,
+    options?: BulkOptions,
+  ): Promise<BulkReport<ConsumerGroup>> {
+    return this.client.setLabelsOnMany<ConsumerGroup>(
+      this.client.getAdminEndpoint(this.endpoint),
+      selection,
+      labels,
+      options,
+    );
+  }
+
   /**
    * Check if consumer group exists
    */
@@ -153,7 +324,7 @@ export class ConsumerGroups {
       options,
     );
 
-    const paginationInfo = this.client.extractPaginationInfo(response);
+    const paginationInfo = this.client.extractPaginationInfo(response, options);
 
     return {
       consumerGroups: this.client.extractList(response),
@@ -166,24 +337,18 @@ export class ConsumerGroups {
    * Find consumer groups by label
    */
   async findByLabel(key: string, value?: string): Promise<ConsumerGroup[]> {
-    const groups = await this.list();
-    return groups.filter((group) => {
-      if (!group.labels) return false;
-      if (value) {
-        return group.labels[key] === value;
-      }
-      return key in group.labels;
+    const { items } = await this.query({
+      label: value ? `${key}:${value}` : key,
     });
+    return items;
   }
 
   /**
    * Find consumer groups by plugin name
    */
   async findByPlugin(pluginName: string): Promise<ConsumerGroup[]> {
-    const groups = await this.list();
-    return groups.filter(
-      (group) => group.plugins && pluginName in group.plugins,
-    );
+    const { items } = await this.query({ plugin: pluginName });
+    return items;
   }
 
   /**
@@ -231,7 +396,9 @@ export class ConsumerGroups {
       };
       return this.patch(id, { plugins });
     }
-    throw new Error(`Plugin ${pluginName} not found in consumer group ${id}`);
+    throw new ApisixNotFoundError(
+      `Plugin ${pluginName} not found in consumer group ${id}`,
+    );
   }
 
   /**
@@ -1,9 +1,19 @@
 import type { ApisixClient } from "../client";
 import type {
+  BulkOptions,
+  BulkReport,
   Consumer,
   ConsumerCredential,
   CreateInput,
+  DeleteManyOptions,
+  FilterResult,
+  LabelSelector,
   ListOptions,
+  MergePatch,
+  ModifyOptions,
+  RequestOptions,
+  ResourceFilter,
+  ResourceSelection,
   UpdateInput,
 } from "../types";
 
@@ -26,6 +36,34 @@ export class Consumers {
     return this.client.extractList(response);
   }
 
+  /**
+   * Iterate over all consumers, fetching pages lazily
+   */
+  iterate(
+    options?: ListOptions,
+    requestOptions?: RequestOptions,
+  ): AsyncGenerator<Consumer, void, undefined> {
+    return this.client.iterate<Consumer>(
+      this.client.getAdminEndpoint(this.endpoint),
+      options,
+      requestOptions,
+    );
+  }
+
+  /**
+   * Find consumers matching a filter
+   */
+  query(
+    filter?: ResourceFilter<Consumer>,
+    requestOptions?: RequestOptions,
+  ): Promise<FilterResult<Consumer>> {
+    return this.client.query<Consumer>(
+      this.client.getAdminEndpoint(this.endpoint),
+      filter,
+      requestOptions,
+    );
+  }
+
   /**
    * Get a specific consumer by username
    */
@@ -79,6 +117,56 @@ export class Consumers {
     return await this.client.extractValue(response);
   }
 
+  /**
+   * Update a consumer only if it has not changed since it was read
+   */
+  async updateIfMatch(
+    username: string,
+    consumer: UpdateInput<Consumer>,
+    revision?: number,
+  ): Promise<Consumer> {
+    const response = await this.client.compareAndSwap<Consumer>(
+      this.client.getAdminEndpoint(this.endpoint),
+      username,
+      consumer,
+      { revision },
+    );
+    return this.client.extractValue(response);
+  }
+
+  /**
+   * Partially update a consumer only if it has not changed since it was read
+   */
+  async patchIfMatch(
+    username: string,
+    consumer: UpdateInput<Consumer>,
+    revision?: number,
+  ): Promise<Consumer> {
+    const response = await this.client.compareAndSwap<Consumer>(
+      this.client.getAdminEndpoint(this.endpoint),
+      username,
+      consumer,
+      { revision, method: "PATCH" },
+    );
+    return this.client.extractValue(response);
+  }
+
+  /**
+   * Read a consumer, apply `fn` and write it back, starting over on conflicts
+   */
+  async modify(
+    username: string,
+    fn: (consumer: Consumer) => Consumer | Promise<Consumer>,
+    options?: ModifyOptions,
+  ): Promise<Consumer> {
+    return this.client.modify(
+      this.client.getAdminEndpoint(this.endpoint),
+      username,
+      fn,
+      options,
+    );
+  }
+
   /**
    * Delete a consumer
    */
@@ -101,6 +189,86 @@ export class Consumers {
     return true;
   }
 
+  /**
+   * Delete every consumer whose labels match a selector
+   */
+  async deleteMany(
+    selector: LabelSelector,
+    options?: DeleteManyOptions,
+  ): Promise<string[]> {
+    return this.client.deleteMany<Consumer>(
+      this.client.getAdminEndpoint(this.endpoint),
+      selector,
+      (id) => this.delete(id, options),
+    );
+  }
+
+  /**
+   * Apply a merge patch or function to all selected consumers
+   */
+  async updateMany(
+    selection: ResourceSelection<Consumer>,
+    patch: MergePatch<Consumer> | ((item: Consumer) => Consumer),
+    options?: BulkOptions,
+  ): Promise<BulkReport<Consumer>> {
+    return this.client.updateMany<Consumer>(
+      this.client.getAdminEndpoint(this.endpoint),
+      selection,
+      patch,
+      options,
+    );
+  }
+
+  /**
+   * Add or replace a plugin on all selected consumers
+   */
+  async addPluginToMany(
+    selection: ResourceSelection<Consumer>,
+    pluginName: string,
+    config: Record<string, unknown>,
+    options?: BulkOptions,
+  ): Promise<BulkReport<Consumer>> {
+    return this.client.addPluginToMany<Consumer>(
+      this.client.getAdminEndpoint(this.endpoint),
+      selection,
+      pluginName,
+      config,
+      options,
+    );
+  }
+
+  /**
+   * Remove a plugin from all selected consumers
+   */
+  async removePluginFromMany(
+    selection: ResourceSelection<Consumer>,
+    pluginName: string,
+    options?: BulkOptions,
+  ): Promise<BulkReport<Consumer>> {
+    return this.client.removePluginFromMany<Consumer>(
+      this.client.getAdminEndpoint(this.endpoint),
+      selection,
+      pluginName,
+      options,
+    );
+  }
+
+  /**
+   * Merge labels into all selected consumers, `null` removes a label
+   */
+  async setLabelsOnMany(
+    selection: ResourceSelection<Consumer>,
+    labels: Record<string, string | null>,
+    options?: BulkOptions,
+  ): Promise<BulkReport<Consumer>> {
+    return this.client.setLabelsOnMany<Consumer>(
+      this.client.getAdminEndpoint(this.endpoint),
+      selection,
+      labels,
+      options,
+    );
+  }
+
   /**
    * Check if consumer exists
    */
@@ -157,7 +325,7 @@ export class Consumers {
       options,
     );
 
-    const paginationInfo = this.client.extractPaginationInfo(response);
+    const paginationInfo = this.client.extractPaginationInfo(response, options);
 
     return {
       consumers: this.client.extractList(response),
@@ -170,14 +338,10 @@ export class Consumers {
    * Find consumers by label
    */
   async findByLabel(key: string, value?: string): Promise<Consumer[]> {
-    const consumers = await this.list();
-    return consumers.filter((consumer) => {
-      if (!consumer.labels) return false;
-      if (value) {
-        return consumer.labels[key] === value;
-      }
-      return key in consumer.labels;
+    const { items } = await this.query({
+      label: value ? `${key}:${value}` : key,
     });
+    return items;
   }
 
   // Credential Management Methods
@@ -1,4 +1,10 @@
 import type { ApisixClient } from "../client";
+import {
+  ApisixError,
+  ApisixNetworkError,
+  ApisixNotFoundError,
+  createApisixError,
+} from "../errors";
 import type {
   DiscoveryDumpFile,
   HealthCheckStatus,
@@ -61,11 +67,14 @@ export class Control {
   /**
    * Check if Control API is healthy
    */
-  async isHealthy(): Promise<boolean> {
+  async isHealthy(options: { baseURL?: string } = {}): Promise<boolean> {
     try {
       const response = await this.client.controlRequest<
         HealthCheckStatus | string
-      >("/v1/healthcheck");
+      >("/v1/healthcheck", {
+        baseURL: options.baseURL,
+        skipCache: options.baseURL !== undefined,
+      });
 
       // Handle both object response and empty string response
       if (typeof response === "string") {
@@ -142,13 +151,11 @@ export class Control {
         return Array.isArray(result) ? result : [];
       } catch (error: unknown) {
         // If the endpoint returns 404 or requires specific upstream ID, return empty array
-        const errorMessage = error instanceof Error ? error.message : "";
-        const hasResponseStatus =
-          error && typeof error === "object" && "response" in error;
-        const errorStatus = hasResponseStatus
-          ? (error as { response?: { status?: number } }).response?.status
-          : undefined;
-        if (errorStatus === 404 || errorMessage.includes("missing src id")) {
+        if (
+          error instanceof ApisixNotFoundError ||
+          (error instanceof ApisixError &&
+            error.errorMsg?.includes("missing src id"))
+        ) {
           return [];
         }
         throw error;
@@ -197,7 +204,7 @@ export class Control {
     // Check if service discovery is available first
     const isAvailable = await this.hasDiscovery(service);
     if (!isAvailable) {
-      throw new Error(
+      throw new ApisixNotFoundError(
         `Service discovery '${service}' is not configured or not available in this APISIX instance`,
       );
     }
@@ -213,20 +220,14 @@ export class Control {
     // Check if service discovery is available first
     const isAvailable = await this.hasDiscovery(service);
     if (!isAvailable) {
-      throw new Error(
+      throw new ApisixNotFoundError(
         `Service discovery '${service}' is not configured or not available in this APISIX instance`,
       );
     }
 
-    try {
-      return await this.client.controlRequest<DiscoveryDumpFile[]>(
-        `/v1/discovery/${service}/dump_files`,
-      );
-    } catch (error) {
-      throw new Error(
-        `Service discovery '${service}' dump files not available: ${error instanceof Error ? error.message : "Unknown error"}`,
-      );
-    }
+    return this.client.controlRequest<DiscoveryDumpFile[]>(
+      `/v1/discovery/${service}/dump_files`,
+    );
   }
 
   /**
@@ -445,33 +446,74 @@ export class Control {
    * Note: Prometheus metrics are NOT available via Control API port 9090
    */
   async getPrometheusMetrics(): Promise<string> {
+    // Try the default Prometheus export server on port 9091
+    const prometheusUrl = "http://127.0.0.1:9091/apisix/prometheus/metrics";
     try {
-      // Try the default Prometheus export server on port 9091
-      const prometheusUrl = "http://127.0.0.1:9091/apisix/prometheus/metrics";
-      const response = await fetch(prometheusUrl);
-
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-
-      return await response.text();
+      return await this.fetchMetrics(prometheusUrl);
     } catch (error) {
       // Fallback: try via public API on port 9080 if export server is disabled
+      const publicApiUrl = "http://127.0.0.1:9080/apisix/prometheus/metrics";
       try {
-        const publicApiUrl = "http://127.0.0.1:9080/apisix/prometheus/metrics";
-        const response = await fetch(publicApiUrl);
+        return await this.fetchMetrics(publicApiUrl);
+      } catch (fallbackError) {
+        const message = `Prometheus metrics not available on both 9091 and 9080 ports. Original error: ${error instanceof Error ? error.message : "Unknown error"}. Fallback error: ${fallbackError instanceof Error ? fallbackError.message : "Unknown error"}`;
+        const status =
+          fallbackError instanceof ApisixError
+            ? fallbackError.status
+            : undefined;
+        const options = {
+          status,
+          method: "GET",
+          url: publicApiUrl,
+          cause: fallbackError,
+        };
+        throw status === undefined
+          ? new ApisixNetworkError(message, options)
+          : createApisixError(message, options);
+      }
+    }
+  }
+
+  /**
+   * Fetch raw Prometheus metrics text from a metrics endpoint
+   */
+  private async fetchMetrics(url: string): Promise<string> {
+    return this.client.runWithHooks(
+      {
+        api: "control",
+        method: "GET",
+        endpoint: new URL(url).pathname,
+        url,
+        headers: {},
+      },
+      async (context) => {
+        let response: Response;
+        try {
+          response = await this.client.rawFetch(context.url, {
+            method: context.method,
+            headers: context.headers,
+          });
+        } catch (error) {
+          throw new ApisixNetworkError(
+            `Failed to fetch ${context.url}: ${error instanceof Error ? error.message : "Unknown error"}`,
+            { method: context.method, url: context.url, cause: error },
+          );
+        }
 
         if (!response.ok) {
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+          throw createApisixError(
+            `HTTP ${response.status}: ${response.statusText}`,
+            {
+              status: response.status,
+              method: context.method,
+              url: context.url,
+            },
+          );
         }
 
-        return await response.text();
-      } catch (fallbackError) {
-        throw new Error(
-          `Prometheus metrics not available on both 9091 and 9080 ports. Original error: ${error instanceof Error ? error.message : "Unknown error"}. Fallback error: ${fallbackError instanceof Error ? fallbackError.message : "Unknown error"}`,
-        );
-      }
-    }
+        return response.text();
+      },
+    );
   }
 
   /**
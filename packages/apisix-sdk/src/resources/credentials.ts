@@ -1,8 +1,14 @@
 import type { ApisixClient } from "../client";
+import { ApisixError, ApisixValidationError } from "../errors";
 import type {
   CreateInput,
   Credential,
+  FilterResult,
+  LabelSelector,
   ListOptions,
+  ModifyOptions,
+  RequestOptions,
+  ResourceFilter,
   UpdateInput,
 } from "../types";
 
@@ -58,6 +64,36 @@ export class Credentials {
     return this.client.extractList(response);
   }
 
+  /**
+   * Iterate over all credentials of a consumer, fetching pages lazily
+   */
+  iterate(
+    consumerId: string,
+    options?: ListOptions,
+    requestOptions?: RequestOptions,
+  ): AsyncGenerator<Credential, void, undefined> {
+    return this.client.iterate<Credential>(
+      this.client.getAdminEndpoint(`/consumers/${consumerId}/credentials`),
+      options,
+      requestOptions,
+    );
+  }
+
+  /**
+   * Find credentials of a consumer matching a filter
+   */
+  query(
+    consumerId: string,
+    filter?: ResourceFilter<Credential>,
+    requestOptions?: RequestOptions,
+  ): Promise<FilterResult<Credential>> {
+    return this.client.query<Credential>(
+      this.client.getAdminEndpoint(`/consumers/${consumerId}/credentials`),
+      filter,
+      requestOptions,
+    );
+  }
+
   /**
    * Update an existing credential
    */
@@ -123,13 +159,54 @@ export class Credentials {
       // Return the updated credential with original key values
       return this.get(consumerId, credentialId);
     } catch (error) {
-      if (error instanceof Error && error.message.includes("not supported")) {
-        throw new Error("PATCH method is not supported for credentials");
+      if (
+        error instanceof ApisixError &&
+        error.errorMsg?.includes("not supported")
+      ) {
+        throw new ApisixValidationError(
+          "PATCH method is not supported for credentials",
+          { status: error.status, cause: error },
+        );
       }
       throw error;
     }
   }
 
+  /**
+   * Update a credential only if it has not changed since it was read
+   */
+  async updateIfMatch(
+    consumerId: string,
+    credentialId: string,
+    credential: UpdateInput<Credential>,
+    revision?: number,
+  ): Promise<Credential> {
+    const response = await this.client.compareAndSwap<Credential>(
+      this.client.getAdminEndpoint(`/consumers/${consumerId}/credentials`),
+      credentialId,
+      credential,
+      { revision },
+    );
+    return this.client.extractValue(response);
+  }
+
+  /**
+   * Read a credential, apply `fn` and write it back, starting over on conflicts
+   */
+  async modify(
+    consumerId: string,
+    credentialId: string,
+    fn: (credential: Credential) => Credential | Promise<Credential>,
+    options?: ModifyOptions,
+  ): Promise<Credential> {
+    return this.client.modify(
+      this.client.getAdminEndpoint(`/consumers/${consumerId}/credentials`),
+      credentialId,
+      fn,
+      options,
+    );
+  }
+
   /**
    * Delete a credential
    */
@@ -141,6 +218,20 @@ export class Credentials {
     return true;
   }
 
+  /**
+   * Delete every credential of a consumer whose labels match a selector
+   */
+  async deleteMany(
+    consumerId: string,
+    selector: LabelSelector,
+  ): Promise<string[]> {
+    return this.client.deleteMany<Credential>(
+      this.client.getAdminEndpoint(`/consumers/${consumerId}/credentials`),
+      selector,
+      (id) => this.delete(consumerId, id),
+    );
+  }
+
   /**
    * Check if credential exists
    */
@@ -207,7 +298,7 @@ export class Credentials {
       options,
     );
 
-    const paginationInfo = this.client.extractPaginationInfo(response);
+    const paginationInfo = this.client.extractPaginationInfo(response, options);
 
     return {
       credentials: this.client.extractList(response),
@@ -1,8 +1,19 @@
 import type { ApisixClient } from "../client";
+import { ApisixNotFoundError } from "../errors";
 import type {
+  BulkOptions,
+  BulkReport,
   CreateInput,
+  DeleteManyOptions,
+  FilterResult,
   GlobalRule,
+  LabelSelector,
   ListOptions,
+  MergePatch,
+  ModifyOptions,
+  RequestOptions,
+  ResourceFilter,
+  ResourceSelection,
   UpdateInput,
 } from "../types";
 
@@ -25,6 +36,34 @@ export class GlobalRules {
     return this.client.extractList(response);
   }
 
+  /**
+   * Iterate over all global rules, fetching pages lazily
+   */
+  iterate(
+    options?: ListOptions,
+    requestOptions?: RequestOptions,
+  ): AsyncGenerator<GlobalRule, void, undefined> {
+    return this.client.iterate<GlobalRule>(
+      this.client.getAdminEndpoint(this.endpoint),
+      options,
+      requestOptions,
+    );
+  }
+
+  /**
+   * Find global rules matching a filter
+   */
+  query(
+    filter?: ResourceFilter<GlobalRule>,
+    requestOptions?: RequestOptions,
+  ): Promise<FilterResult<GlobalRule>> {
+    return this.client.query<GlobalRule>(
+      this.client.getAdminEndpoint(this.endpoint),
+      filter,
+      requestOptions,
+    );
+  }
+
   /**
    * Get a specific global rule by ID
    */
@@ -81,6 +120,56 @@ export class GlobalRules {
     return this.client.extractValue(response);
   }
 
+  /**
+   * Update a global rule only if it has not changed since it was read
+   */
+  async updateIfMatch(
+    id: string,
+    globalRule: UpdateInput<GlobalRule>,
+    revision?: number,
+  ): Promise<GlobalRule> {
+    const response = await this.client.compareAndSwap<GlobalRule>(
+      this.client.getAdminEndpoint(this.endpoint),
+      id,
+      globalRule,
+      { revision },
+    );
+    return this.client.extractValue(response);
+  }
+
+  /**
+   * Partially update a global rule only if it has not changed since it was read
+   */
+  async patchIfMatch(
+    id: string,
+    globalRule: UpdateInput<GlobalRule>,
+    revision?: number,
+  ): Promise<GlobalRule> {
+    const response = await this.client.compareAndSwap<GlobalRule>(
+      this.client.getAdminEndpoint(this.endpoint),
+      id,
+      globalRule,
+      { revision, method: "PATCH" },
+    );
+    return this.client.extractValue(response);
+  }
+
+  /**
+   * Read a global rule, apply `fn` and write it back, starting over on conflicts
+   */
+  async modify(
+    id: string,
+    fn: (globalRule: GlobalRule) => GlobalRule | Promise<GlobalRule>,
+    options?: ModifyOptions,
+  ): Promise<GlobalRule> {
+    return this.client.modify(
+      this.client.getAdminEndpoint(this.endpoint),
+      id,
+      fn,
+      options,
+    );
+  }
+
   /**
    * Delete a global rule
    */
@@ -97,6 +186,70 @@ export class GlobalRules {
     return true;
   }
 
+  /**
+   * Delete every global rule whose labels match a selector
+   */
+  async deleteMany(
+    selector: LabelSelector,
+    options?: DeleteManyOptions,
+  ): Promise<string[]> {
+    return this.client.deleteMany<GlobalRule>(
+      this.client.getAdminEndpoint(this.endpoint),
+      selector,
+      (id) => this.delete(id, options),
+    );
+  }
+
+  /**
+   * Apply a merge patch or function to all selected global rules
+   */
+  async updateMany(
+    selection: ResourceSelection<GlobalRule>,
+    patch: MergePatch<GlobalRule> | ((item: GlobalRule) => GlobalRule),
+    options?: BulkOptions,
+  ): Promise<BulkReport<GlobalRule>> {
+    return this.client.updateMany<GlobalRule>(
+      this.client.getAdminEndpoint(this.endpoint),
+      selection,
+      patch,
+      options,
+    );
+  }
+
+  /**
+   * Add or replace a plugin on all selected global rules
+   */
+  async addPluginToMany(
+    selection: ResourceSelection<GlobalRule>,
+    pluginName: string,
+    config: Record<string, unknown>,
+    options?: BulkOptions,
+  ): Promise<BulkReport<GlobalRule>> {
+    return this.client.addPluginToMany<GlobalRule>(
+      this.client.getAdminEndpoint(this.endpoint),
+      selection,
+      pluginName,
+      config,
+      options,
+    );
+  }
+
+  /**
+   * Remove a plugin from all selected global rules
+   */
+  async removePluginFromMany(
+    selection: ResourceSelection<GlobalRule>,
+    pluginName: string,
+    options?: BulkOptions,
+  ): Promise<BulkReport<GlobalRule>> {
+    return this.client.removePluginFromMany<GlobalRule>(
+      this.client.getAdminEndpoint(this.endpoint),
+      selection,
+      pluginName,
+      options,
+    );
+  }
+
   /**
    * Check if global rule exists
    */
@@ -153,7 +306,7 @@ export class GlobalRules {
       options,
     );
 
-    const paginationInfo = this.client.extractPaginationInfo(response);
+    const paginationInfo = this.client.extractPaginationInfo(response, options);
 
     return {
       globalRules: this.client.extractList(response),
@@ -166,8 +319,8 @@ export class GlobalRules {
    * Find global rules by plugin name
    */
   async findByPlugin(pluginName: string): Promise<GlobalRule[]> {
-    const rules = await this.list();
-    return rules.filter((rule) => rule.plugins && pluginName in rule.plugins);
+    const { items } = await this.query({ plugin: pluginName });
+    return items;
   }
 
   /**
@@ -215,7 +368,9 @@ export class GlobalRules {
       };
       return this.patch(id, { plugins });
     }
-    throw new Error(`Plugin ${pluginName} not found in global rule ${id}`);
+    throw new ApisixNotFoundError(
+      `Plugin ${pluginName} not found in global rule ${id}`,
+    );
   }
 
   /**
@@ -1,5 +1,18 @@
 import type { ApisixClient } from "../client";
-import type { PluginConfig } from "../types";
+import { ApisixNotFoundError, ApisixValidationError } from "../errors";
+import type {
+  BulkOptions,
+  BulkReport,
+  FilterResult,
+  LabelSelector,
+  ListOptions,
+  MergePatch,
+  ModifyOptions,
+  PluginConfig,
+  RequestOptions,
+  ResourceFilter,
+  ResourceSelection,
+} from "../types";
 
 export class PluginConfigs {
   private client: ApisixClient;
@@ -24,6 +37,34 @@ export class PluginConfigs {
     return this.client.extractList(response);
   }
 
+  /**
+   * Iterate over all plugin configs, fetching pages lazily
+   */
+  iterate(
+    options?: ListOptions,
+    requestOptions?: RequestOptions,
+  ): AsyncGenerator<PluginConfig, void, undefined> {
+    return this.client.iterate<PluginConfig>(
+      this.client.getAdminEndpoint("/plugin_configs"),
+      options,
+      requestOptions,
+    );
+  }
+
+  /**
+   * Find plugin configs matching a filter
+   */
+  query(
+    filter?: ResourceFilter<PluginConfig>,
+    requestOptions?: RequestOptions,
+  ): Promise<FilterResult<PluginConfig>> {
+    return this.client.query<PluginConfig>(
+      this.client.getAdminEndpoint("/plugin_configs"),
+      filter,
+      requestOptions,
+    );
+  }
+
   /**
    * Get plugin config by id
    */
@@ -65,6 +106,39 @@ export class PluginConfigs {
     return this.client.extractValue(response);
   }
 
+  /**
+   * Update a plugin config only if it has not changed since it was read
+   */
+  async updateIfMatch(
+    id: string,
+    data: Partial<Omit<PluginConfig, "id" | "create_time" | "update_time">>,
+    revision?: number,
+  ): Promise<PluginConfig> {
+    const response = await this.client.compareAndSwap<PluginConfig>(
+      this.client.getAdminEndpoint("/plugin_configs"),
+      id,
+      data,
+      { revision, method: "PATCH" },
+    );
+    return this.client.extractValue(response);
+  }
+
+  /**
+   * Read a plugin config, apply `fn` and write it back, starting over on conflicts
+   */
+  async modify(
+    id: string,
+    fn: (pluginConfig: PluginConfig) => PluginConfig | Promise<PluginConfig>,
+    options?: ModifyOptions,
+  ): Promise<PluginConfig> {
+    return this.client.modify(
+      this.client.getAdminEndpoint("/plugin_configs"),
+      id,
+      fn,
+      options,
+    );
+  }
+
   /**
    * Delete plugin config
    */
@@ -76,6 +150,83 @@ export class PluginConfigs {
     return true;
   }
 
+  /**
+   * Delete every plugin config whose labels match a selector
+   */
+  async deleteMany(selector: LabelSelector): Promise<string[]> {
+    return this.client.deleteMany<PluginConfig>(
+      this.client.getAdminEndpoint("/plugin_configs"),
+      selector,
+      (id) => this.delete(id),
+    );
+  }
+
+  /**
+   * Apply a merge patch or function to all selected plugin configs
+   */
+  async updateMany(
+    selection: ResourceSelection<PluginConfig>,
+    patch: MergePatch<PluginConfig> | ((item: PluginConfig) => PluginConfig),
+    options?: BulkOptions,
+  ): Promise<BulkReport<PluginConfig>> {
+    return this.client.updateMany<PluginConfig>(
+      this.client.getAdminEndpoint("/plugin_configs"),
+      selection,
+      patch,
+      options,
+    );
+  }
+
+  /**
+   * Add or replace a plugin on all selected plugin configs
+   */
+  async addPluginToMany(
+    selection: ResourceSelection<PluginConfig>,
+    pluginName: string,
+    config: Record<string, unknown>,
+    options?: BulkOptions,
+  ): Promise<BulkReport<PluginConfig>> {
+    return this.client.addPluginToMany<PluginConfig>(
+      this.client.getAdminEndpoint("/plugin_configs"),
+      selection,
+      pluginName,
+      config,
+      options,
+    );
+  }
+
+  /**
+   * Remove a plugin from all selected plugin configs
+   */
+  async removePluginFromMany(
+    selection: ResourceSelection<PluginConfig>,
+    pluginName: string,
+    options?: BulkOptions,
+  ): Promise<BulkReport<PluginConfig>> {
+    return this.client.removePluginFromMany<PluginConfig>(
+      this.client.getAdminEndpoint("/plugin_configs"),
+      selection,
+      pluginName,
+      options,
+    );
+  }
+
+  /**
+   * Merge labels into all selected plugin configs, `null` removes a label
+   */
+  async setLabelsOnMany(
+    selection: ResourceSelection<PluginConfig>,
+    labels: Record<string, string | null>,
+    options?: BulkOptions,
+  ): Promise<BulkReport<PluginConfig>> {
+    return this.client.setLabelsOnMany<PluginConfig>(
+      this.client.getAdminEndpoint("/plugin_configs"),
+      selection,
+      labels,
+      options,
+    );
+  }
+
   /**
    * Add plugin to config
    */
@@ -122,7 +273,9 @@ export class PluginConfigs {
   ): Promise<PluginConfig> {
     const pluginConfig = await this.get(id);
     if (!pluginConfig.plugins?.[pluginName]) {
-      throw new Error(`Plugin ${pluginName} not found in config ${id}`);
+      throw new ApisixNotFoundError(
+        `Plugin ${pluginName} not found in config ${id}`,
+      );
     }
 
     const plugins = {
@@ -142,14 +295,10 @@ export class PluginConfigs {
    * Get plugin configs by label
    */
   async getByLabel(label: string, value?: string): Promise<PluginConfig[]> {
-    const allConfigs = await this.list();
-    return allConfigs.filter((config) => {
-      if (!config.labels) return false;
-      if (value) {
-        return config.labels[label] === value;
-      }
-      return label in config.labels;
+    const { items } = await this.query({
+      label: value ? `${label}:${value}` : label,
     });
+    return items;
   }
 
   /**
@@ -355,8 +504,9 @@ export class PluginConfigs {
       } = config;
       return this.create(data, newId || id);
     } catch (error) {
-      console.error("Error parsing JSON:", error);
-      throw new Error("Invalid JSON format for plugin config");
+      throw new ApisixValidationError("Invalid JSON format for plugin config", {
+        cause: error,
+      });
     }
   }
 }
@@ -1,4 +1,5 @@
 import type { ApisixClient } from "../client";
+import { ApisixNotFoundError } from "../errors";
 import type { PluginMetadata } from "../types";
 
 export class Plugins {
@@ -29,15 +30,9 @@ export class Plugins {
    * Get plugin schema
    */
   async getSchema(pluginName: string): Promise<Record<string, unknown>> {
-    try {
-      return await this.client.controlRequest<Record<string, unknown>>(
-        `/v1/schema/plugin/${pluginName}`,
-      );
-    } catch (error) {
-      throw new Error(
-        `Failed to get schema for plugin ${pluginName}: ${error instanceof Error ? error.message : "Unknown error"}`,
-      );
-    }
+    return this.client.controlRequest<Record<string, unknown>>(
+      `/v1/schema/plugin/${pluginName}`,
+    );
   }
 
   /**
@@ -78,17 +73,11 @@ export class Plugins {
    * Get plugin metadata
    */
   async getMetadata(pluginName: string): Promise<PluginMetadata> {
-    try {
-      const response = await this.client.getOne<PluginMetadata>(
-        this.client.getAdminEndpoint("/plugin_metadata"),
-        pluginName,
-      );
-      return await this.client.extractValue(response);
-    } catch (error) {
-      throw new Error(
-        `Failed to get metadata for plugin ${pluginName}: ${error instanceof Error ? error.message : "Unknown error"}`,
-      );
-    }
+    const response = await this.client.getOne<PluginMetadata>(
+      this.client.getAdminEndpoint("/plugin_metadata"),
+      pluginName,
+    );
+    return this.client.extractValue(response);
   }
 
   /**
@@ -98,18 +87,12 @@ export class Plugins {
     pluginName: string,
     metadata: Omit<PluginMetadata, "id">,
   ): Promise<PluginMetadata> {
-    try {
-      const response = await this.client.create<PluginMetadata>(
-        this.client.getAdminEndpoint("/plugin_metadata"),
-        metadata,
-        pluginName,
-      );
-      return await this.client.extractValue(response);
-    } catch (error) {
-      throw new Error(
-        `Failed to update metadata for plugin ${pluginName}: ${error instanceof Error ? error.message : "Unknown error"}`,
-      );
-    }
+    const response = await this.client.create<PluginMetadata>(
+      this.client.getAdminEndpoint("/plugin_metadata"),
+      metadata,
+      pluginName,
+    );
+    return this.client.extractValue(response);
   }
 
   /**
@@ -124,7 +107,7 @@ export class Plugins {
       return true;
     } catch (error) {
       // If the metadata doesn't exist, consider it as successful deletion
-      if (error instanceof Error && error.message.includes("404")) {
+      if (error instanceof ApisixNotFoundError) {
         return true;
       }
       console.warn(
@@ -1,5 +1,21 @@
 import type { ApisixClient } from "../client";
-import type { CreateInput, ListOptions, Proto, UpdateInput } from "../types";
+import { ApisixValidationError } from "../errors";
+import type {
+  BulkOptions,
+  BulkReport,
+  CreateInput,
+  DeleteManyOptions,
+  FilterResult,
+  LabelSelector,
+  ListOptions,
+  MergePatch,
+  ModifyOptions,
+  Proto,
+  RequestOptions,
+  ResourceFilter,
+  ResourceSelection,
+  UpdateInput,
+} from "../types";
 
 export class Protos {
   private readonly endpoint = "/protos";
@@ -20,6 +36,34 @@ export class Protos {
     return this.client.extractList(response);
   }
 
+  /**
+   * Iterate over all protos, fetching pages lazily
+   */
+  iterate(
+    options?: ListOptions,
+    requestOptions?: RequestOptions,
+  ): AsyncGenerator<Proto, void, undefined> {
+    return this.client.iterate<Proto>(
+      this.client.getAdminEndpoint(this.endpoint),
+      options,
+      requestOptions,
+    );
+  }
+
+  /**
+   * Find protos matching a filter
+   */
+  query(
+    filter?: ResourceFilter<Proto>,
+    requestOptions?: RequestOptions,
+  ): Promise<FilterResult<Proto>> {
+    return this.client.query<Proto>(
+      this.client.getAdminEndpoint(this.endpoint),
+      filter,
+      requestOptions,
+    );
+  }
+
   /**
    * Get a specific proto by ID
    */
@@ -67,6 +111,56 @@ export class Protos {
     return this.client.extractValue(response);
   }
 
+  /**
+   * Update a proto only if it has not changed since it was read
+   */
+  async updateIfMatch(
+    id: string,
+    proto: UpdateInput<Proto>,
+    revision?: number,
+  ): Promise<Proto> {
+    const response = await this.client.compareAndSwap<Proto>(
+      this.client.getAdminEndpoint(this.endpoint),
+      id,
+      proto,
+      { revision },
+    );
+    return this.client.extractValue(response);
+  }
+
+  /**
+   * Partially update a proto only if it has not changed since it was read
+   */
+  async patchIfMatch(
+    id: string,
+    proto: UpdateInput<Proto>,
+    revision?: number,
+  ): Promise<Proto> {
+    const response = await this.client.compareAndSwap<Proto>(
+      this.client.getAdminEndpoint(this.endpoint),
+      id,
+      proto,
+      { revision, method: "PATCH" },
+    );
+    return this.client.extractValue(response);
+  }
+
+  /**
+   * Read a proto, apply `fn` and write it back, starting over on conflicts
+   */
+  async modify(
+    id: string,
+    fn: (proto: Proto) => Proto | Promise<Proto>,
+    options?: ModifyOptions,
+  ): Promise<Proto> {
+    return this.client.modify(
+      this.client.getAdminEndpoint(this.endpoint),
+      id,
+      fn,
+      options,
+    );
+  }
+
   /**
    * Delete a proto definition
    */
@@ -83,6 +177,52 @@ export class Protos {
     return true;
   }
 
+  /**
+   * Delete every proto whose labels match a selector
+   */
+  async deleteMany(
+    selector: LabelSelector,
+    options?: DeleteManyOptions,
+  ): Promise<string[]> {
+    return this.client.deleteMany<Proto>(
+      this.client.getAdminEndpoint(this.endpoint),
+      selector,
+      (id) => this.delete(id, options),
+    );
+  }
+
+  /**
+   * Apply a merge patch or function to all selected protos
+   */
+  async updateMany(
+    selection: ResourceSelection<Proto>,
+    patch: MergePatch<Proto> | ((item: Proto) => Proto),
+    options?: BulkOptions,
+  ): Promise<BulkReport<Proto>> {
+    return this.client.updateMany<Proto>(
+      this.client.getAdminEndpoint(this.endpoint),
+      selection,
+      patch,
+      options,
+    );
+  }
+
+  /**
+   * Merge labels into all selected protos, `null` removes a label
+   */
+  async setLabelsOnMany(
+    selection: ResourceSelection<Proto>,
+    labels: Record<string, string | null>,
+    options?: BulkOptions,
+  ): Promise<BulkReport<Proto>> {
+    return this.client.setLabelsOnMany<Proto>(
+      this.client.getAdminEndpoint(this.endpoint),
+      selection,
+      labels,
+      options,
+    );
+  }
+
   /**
    * Check if proto exists
    */
@@ -139,7 +279,7 @@ export class Protos {
       options,
     );
 
-    const paginationInfo = this.client.extractPaginationInfo(response);
+    const paginationInfo = this.client.extractPaginationInfo(response, options);
 
     return {
       protos: this.client.extractList(response),
@@ -152,14 +292,10 @@ export class Protos {
    * Find protos by label
    */
   async findByLabel(label: string, value?: string): Promise<Proto[]> {
-    const protos = await this.list();
-    return protos.filter((proto) => {
-      if (!proto.labels) return false;
-      if (value) {
-        return proto.labels[label] === value;
-      }
-      return label in proto.labels;
+    const { items } = await this.query({
+      label: value ? `${label}:${value}` : label,
     });
+    return items;
   }
 
   /**
@@ -232,7 +368,7 @@ export class Protos {
     const validation = this.validateProtobufContent(proto.content);
 
     if (!validation.valid) {
-      throw new Error(
+      throw new ApisixValidationError(
         `Protobuf validation failed: ${validation.errors?.join(", ")}`,
       );
     }
@@ -1,18 +1,61 @@
 import type { ApisixClient } from "../client";
+import { resolveEffectivePlugins } from "../effective";
+import { ApisixValidationError } from "../errors";
+import { DependencyGraph } from "../graph";
+import { Reconciler } from "../reconciler";
+import { matchesLabels } from "../selector";
 import type {
+  BulkOptions,
+  BulkReport,
+  Consumer,
+  ConsumerGroup,
   CreateInput,
+  DeleteManyOptions,
+  EffectivePlugin,
+  EffectivePluginsOptions,
+  FilterResult,
+  GlobalRule,
+  LabelSelector,
   ListOptions,
+  MergePatch,
+  ModifyOptions,
+  PluginConfig,
+  PluginLayerConfig,
+  RequestOptions,
+  ResourceDeleteOptions,
+  ResourceFilter,
+  ResourceSelection,
   Route,
+  Service,
   UpdateInput,
   Upstream,
 } from "../types";
+import { Control } from "./control";
 
 export class Routes {
   private readonly endpoint = "/routes";
   private client: ApisixClient;
-
-  constructor(client: ApisixClient) {
+  private control: Control;
+  private graph?: DependencyGraph;
+
+  // Plugin priorities come from `control`, one of its own when not given
+  constructor(
+    client: ApisixClient,
+    control?: Control,
+    graph?: DependencyGraph,
+  ) {
     this.client = client;
+    this.control = control ?? new Control(client);
+    this.graph = graph;
+  }
+
+  // Safe deletes check dependents through `graph`, one of its own when not given
+  private getGraph(): DependencyGraph {
+    this.graph ??= new DependencyGraph(
+      this.client,
+      new Reconciler(this.client),
+    );
+    return this.graph;
   }
 
   // Helper functions for OpenAPI route generation
@@ -94,6 +137,34 @@ export class Routes {
     return this.client.extractList(response);
   }
 
+  /**
+   * Iterate over all routes, fetching pages lazily
+   */
+  iterate(
+    options?: ListOptions,
+    requestOptions?: RequestOptions,
+  ): AsyncGenerator<Route, void, undefined> {
+    return this.client.iterate<Route>(
+      this.client.getAdminEndpoint(this.endpoint),
+      options,
+      requestOptions,
+    );
+  }
+
+  /**
+   * Find routes matching a filter
+   */
+  query(
+    filter?: ResourceFilter<Route>,
+    requestOptions?: RequestOptions,
+  ): Promise<FilterResult<Route>> {
+    return this.client.query<Route>(
+      this.client.getAdminEndpoint(this.endpoint),
+      filter,
+      requestOptions,
+    );
+  }
+
   /**
    * Get a specific route by ID
    */
@@ -105,6 +176,87 @@ export class Routes {
     return this.client.extractValue(response);
   }
 
+  /**
+   * The plugins that run for a request matching a route
+   *
+   * Merges global rules, the service, the plugin config and the route, plus
+   * the consumer and its group when given, in APISIX's precedence order.
+   * Each plugin names the layer its configuration comes from and the layers
+   * it overrides; the list is in execution order, global rule plugins first
+   * and each group by plugin priority.
+   */
+  async getEffectivePlugins(
+    id: string,
+    options: EffectivePluginsOptions = {},
+  ): Promise<EffectivePlugin[]> {
+    const route = await this.get(id);
+    const layers: PluginLayerConfig[] = [];
+    for await (const rule of this.client.iterate<GlobalRule>(
+      this.client.getAdminEndpoint("/global_rules"),
+    )) {
+      layers.push({
+        layer: "global_rule",
+        id: String(rule.id),
+        plugins: rule.plugins,
+      });
+    }
+    layers.push({ layer: "route", id, plugins: route.plugins });
+
+    if (route.service_id) {
+      const service = await this.getRelated<Service>(
+        "/services",
+        route.service_id,
+      );
+      layers.push({
+        layer: "service",
+        id: route.service_id,
+        plugins: service.plugins,
+      });
+    }
+    if (route.plugin_config_id) {
+      const pluginConfig = await this.getRelated<PluginConfig>(
+        "/plugin_configs",
+        route.plugin_config_id,
+      );
+      layers.push({
+        layer: "plugin_config",
+        id: route.plugin_config_id,
+        plugins: pluginConfig.plugins,
+      });
+    }
+    if (options.consumer) {
+      const consumer = await this.getRelated<Consumer>(
+        "/consumers",
+        options.consumer,
+      );
+      layers.push({
+        layer: "consumer",
+        id: options.consumer,
+        plugins: consumer.plugins,
+      });
+      if (consumer.group_id) {
+        const group = await this.getRelated<ConsumerGroup>(
+          "/consumer_groups",
+          consumer.group_id,
+        );
+        layers.push({
+          layer: "consumer_group",
+          id: consumer.group_id,
+          plugins: group.plugins,
+        });
+      }
+    }
+
+    const schemas = await this.control.getSchemas();
+    return resolveEffectivePlugins(layers, schemas.plugins);
+  }
+
+  private async getRelated<T>(endpoint: string, id: string): Promise<T> {
+    return this.client.extractValue(
+      await this.client.getOne<T>(this.client.getAdminEndpoint(endpoint), id),
+    );
+  }
+
   /**
    * Create a new route
    */
@@ -141,10 +293,67 @@ export class Routes {
     return this.client.extractValue(response);
   }
 
+  /**
+   * Update a route only if it has not changed since it was read
+   */
+  async updateIfMatch(
+    id: string,
+    route: UpdateInput<Route>,
+    revision?: number,
+  ): Promise<Route> {
+    const response = await this.client.compareAndSwap<Route>(
+      this.client.getAdminEndpoint(this.endpoint),
+      id,
+      route,
+      { revision },
+    );
+    return this.client.extractValue(response);
+  }
+
+  /**
+   * Partially update a route only if it has not changed since it was read
+   */
+  async patchIfMatch(
+    id: string,
+    route: UpdateInput<Route>,
+    revision?: number,
+  ): Promise<Route> {
+    const response = await this.client.compareAndSwap<Route>(
+      this.client.getAdminEndpoint(this.endpoint),
+      id,
+      route,
+      { revision, method: "PATCH" },
+    );
+    return this.client.extractValue(response);
+  }
+
+  /**
+   * Read a route, apply `fn` and write it back, starting over on conflicts
+   */
+  async modify(
+    id: string,
+    fn: (route: Route) => Route | Promise<Route>,
+    options?: ModifyOptions,
+  ): Promise<Route> {
+    return this.client.modify(
+      this.client.getAdminEndpoint(this.endpoint),
+      id,
+      fn,
+      options,
+    );
+  }
+
   /**
    * Delete a route
+   *
+   * `safe` refuses with an `ApisixConflictError` naming the resources that
+   * still use it; `force` deletes it even while in use.
    */
-  async delete(id: string, options?: { force?: boolean }): Promise<boolean> {
+  async delete(id: string, options?: ResourceDeleteOptions): Promise<boolean> {
+    if (options?.safe && !options.force) {
+      await this.getGraph().delete("routes", id);
+      return true;
+    }
     // Check if version supports features before using them
     await this.client.getApiVersionConfig();
 
@@ -160,6 +369,86 @@ export class Routes {
     return true;
   }
 
+  /**
+   * Delete every route whose labels match a selector
+   */
+  async deleteMany(
+    selector: LabelSelector,
+    options?: DeleteManyOptions,
+  ): Promise<string[]> {
+    return this.client.deleteMany<Route>(
+      this.client.getAdminEndpoint(this.endpoint),
+      selector,
+      (id) => this.delete(id, options),
+    );
+  }
+
+  /**
+   * Apply a merge patch or function to all selected routes
+   */
+  async updateMany(
+    selection: ResourceSelection<Route>,
+    patch: MergePatch<Route> | ((item: Route) => Route),
+    options?: BulkOptions,
+  ): Promise<BulkReport<Route>> {
+    return this.client.updateMany<Route>(
+      this.client.getAdminEndpoint(this.endpoint),
+      selection,
+      patch,
+      options,
+    );
+  }
+
+  /**
+   * Add or replace a plugin on all selected routes
+   */
+  async addPluginToMany(
+    selection: ResourceSelection<Route>,
+    pluginName: string,
+    config: Record<string, unknown>,
+    options?: BulkOptions,
+  ): Promise<BulkReport<Route>> {
+    return this.client.addPluginToMany<Route>(
+      this.client.getAdminEndpoint(this.endpoint),
+      selection,
+      pluginName,
+      config,
+      options,
+    );
+  }
+
+  /**
+   * Remove a plugin from all selected routes
+   */
+  async removePluginFromMany(
+    selection: ResourceSelection<Route>,
+    pluginName: string,
+    options?: BulkOptions,
+  ): Promise<BulkReport<Route>> {
+    return this.client.removePluginFromMany<Route>(
+      this.client.getAdminEndpoint(this.endpoint),
+      selection,
+      pluginName,
+      options,
+    );
+  }
+
+  /**
+   * Merge labels into all selected routes, `null` removes a label
+   */
+  async setLabelsOnMany(
+    selection: ResourceSelection<Route>,
+    labels: Record<string, string | null>,
+    options?: BulkOptions,
+  ): Promise<BulkReport<Route>> {
+    return this.client.setLabelsOnMany<Route>(
+      this.client.getAdminEndpoint(this.endpoint),
+      selection,
+      labels,
+      options,
+    );
+  }
+
   /**
    * Check if route exists
    */
@@ -216,7 +505,7 @@ export class Routes {
       options,
     );
 
-    const paginationInfo = this.client.extractPaginationInfo(response);
+    const paginationInfo = this.client.extractPaginationInfo(response, options);
 
     return {
       routes: this.client.extractList(response),
@@ -229,32 +518,24 @@ export class Routes {
    * Find routes by URI pattern
    */
   async findByUri(uriPattern: string): Promise<Route[]> {
-    const routes = await this.list();
-    return routes.filter(
-      (route) =>
-        route.uri?.includes(uriPattern) ||
-        route.uris?.some((uri) => uri.includes(uriPattern)),
-    );
+    const { items } = await this.query({ uri: uriPattern });
+    return items;
   }
 
   /**
    * Find routes by method
    */
   async findByMethod(method: string): Promise<Route[]> {
-    const routes = await this.list();
-    return routes.filter((route) =>
-      route.methods?.includes(method.toUpperCase()),
-    );
+    const { items } = await this.query({ method });
+    return items;
   }
 
   /**
    * Find routes by host
    */
   async findByHost(host: string): Promise<Route[]> {
-    const routes = await this.list();
-    return routes.filter(
-      (route) => route.host === host || route.hosts?.includes(host),
-    );
+    const { items } = await this.query({ host });
+    return items;
   }
 
   /**
@@ -393,6 +674,7 @@ export class Routes {
     hasUpstream?: boolean;
     hasService?: boolean;
     labels?: Record<string, string>;
+    selector?: LabelSelector;
     createdAfter?: Date;
     createdBefore?: Date;
   }): Promise<Route[]> {
@@ -476,6 +758,10 @@ export class Routes {
         }
       }
 
+      if (criteria.selector && !matchesLabels(route, criteria.selector)) {
+        return false;
+      }
+
       // Date filtering
       if (criteria.createdAfter && route.create_time) {
         if (route.create_time < criteria.createdAfter.getTime() / 1000) {
@@ -568,7 +854,7 @@ export class Routes {
           // Validate route if requested
           if (options?.validateBeforeImport) {
             if (!route.upstream && !route.service_id && !route.upstream_id) {
-              throw new Error(
+              throw new ApisixValidationError(
                 "Route must have upstream, service_id, or upstream_id",
               );
             }
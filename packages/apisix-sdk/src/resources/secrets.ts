@@ -1,9 +1,13 @@
 import type { ApisixClient } from "../client";
+import { ApisixValidationError } from "../errors";
 import type {
   AWSSecret,
   CreateInput,
+  FilterResult,
   GCPSecret,
   ListOptions,
+  RequestOptions,
+  ResourceFilter,
   UpdateInput,
   VaultSecret,
 } from "../types";
@@ -24,6 +28,28 @@ export class Secrets {
     return this.client.extractList(response);
   }
 
+  iterateVaultSecrets(
+    options?: ListOptions,
+    requestOptions?: RequestOptions,
+  ): AsyncGenerator<VaultSecret, void, undefined> {
+    return this.client.iterate<VaultSecret>(
+      this.client.getAdminEndpoint("/secrets/vault"),
+      options,
+      requestOptions,
+    );
+  }
+
+  queryVaultSecrets(
+    filter?: ResourceFilter<VaultSecret>,
+    requestOptions?: RequestOptions,
+  ): Promise<FilterResult<VaultSecret>> {
+    return this.client.query<VaultSecret>(
+      this.client.getAdminEndpoint("/secrets/vault"),
+      filter,
+      requestOptions,
+    );
+  }
+
   async getVaultSecret(id: string): Promise<VaultSecret> {
     const response = await this.client.getOne<VaultSecret>(
       this.client.getAdminEndpoint("/secrets/vault"),
@@ -73,6 +99,28 @@ export class Secrets {
     return this.client.extractList(response);
   }
 
+  iterateAWSSecrets(
+    options?: ListOptions,
+    requestOptions?: RequestOptions,
+  ): AsyncGenerator<AWSSecret, void, undefined> {
+    return this.client.iterate<AWSSecret>(
+      this.client.getAdminEndpoint("/secrets/aws"),
+      options,
+      requestOptions,
+    );
+  }
+
+  queryAWSSecrets(
+    filter?: ResourceFilter<AWSSecret>,
+    requestOptions?: RequestOptions,
+  ): Promise<FilterResult<AWSSecret>> {
+    return this.client.query<AWSSecret>(
+      this.client.getAdminEndpoint("/secrets/aws"),
+      filter,
+      requestOptions,
+    );
+  }
+
   async getAWSSecret(id: string): Promise<AWSSecret> {
     const response = await this.client.getOne<AWSSecret>(
       this.client.getAdminEndpoint("/secrets/aws"),
@@ -119,6 +167,28 @@ export class Secrets {
     return this.client.extractList(response);
   }
 
+  iterateGCPSecrets(
+    options?: ListOptions,
+    requestOptions?: RequestOptions,
+  ): AsyncGenerator<GCPSecret, void, undefined> {
+    return this.client.iterate<GCPSecret>(
+      this.client.getAdminEndpoint("/secrets/gcp"),
+      options,
+      requestOptions,
+    );
+  }
+
+  queryGCPSecrets(
+    filter?: ResourceFilter<GCPSecret>,
+    requestOptions?: RequestOptions,
+  ): Promise<FilterResult<GCPSecret>> {
+    return this.client.query<GCPSecret>(
+      this.client.getAdminEndpoint("/secrets/gcp"),
+      filter,
+      requestOptions,
+    );
+  }
+
   async getGCPSecret(id: string): Promise<GCPSecret> {
     const response = await this.client.getOne<GCPSecret>(
       this.client.getAdminEndpoint("/secrets/gcp"),
@@ -246,11 +316,15 @@ export class Secrets {
   ): Promise<VaultSecret> {
     // Basic validation
     if (!config.uri || !config.prefix || !config.token) {
-      throw new Error("URI, prefix, and token are required for Vault secrets");
+      throw new ApisixValidationError(
+        "URI, prefix, and token are required for Vault secrets",
+      );
     }
 
     if (!config.uri.startsWith("http")) {
-      throw new Error("Vault URI must start with http:// or https://");
+      throw new ApisixValidationError(
+        "Vault URI must start with http:// or https://",
+      );
     }
 
     return this.createVaultSecret(config, id);
@@ -271,7 +345,7 @@ export class Secrets {
   ): Promise<AWSSecret> {
     // Basic validation
     if (!config.access_key_id || !config.secret_access_key) {
-      throw new Error(
+      throw new ApisixValidationError(
         "Access key ID and secret access key are required for AWS secrets",
       );
     }
@@ -299,7 +373,7 @@ export class Secrets {
   ): Promise<GCPSecret> {
     // Basic validation
     if (!config.auth_config && !config.auth_file) {
-      throw new Error(
+      throw new ApisixValidationError(
         "Either auth_config or auth_file is required for GCP secrets",
       );
     }
@@ -307,7 +381,7 @@ export class Secrets {
     if (config.auth_config) {
       const { client_email, private_key, project_id } = config.auth_config;
       if (!client_email || !private_key || !project_id) {
-        throw new Error(
+        throw new ApisixValidationError(
           "client_email, private_key, and project_id are required in auth_config",
         );
       }
@@ -1,12 +1,41 @@
 import type { ApisixClient } from "../client";
-import type { CreateInput, ListOptions, Service, UpdateInput } from "../types";
+import { DependencyGraph } from "../graph";
+import { Reconciler } from "../reconciler";
+import type {
+  BulkOptions,
+  BulkReport,
+  CreateInput,
+  DeleteManyOptions,
+  FilterResult,
+  LabelSelector,
+  ListOptions,
+  MergePatch,
+  ModifyOptions,
+  RequestOptions,
+  ResourceDeleteOptions,
+  ResourceFilter,
+  ResourceSelection,
+  Service,
+  UpdateInput,
+} from "../types";
 
 export class Services {
   private readonly endpoint = "/services";
   private client: ApisixClient;
+  private graph?: DependencyGraph;
 
-  constructor(client: ApisixClient) {
+  constructor(client: ApisixClient, graph?: DependencyGraph) {
     this.client = client;
+    this.graph = graph;
+  }
+
+  // Safe deletes check dependents through `graph`, one of its own when not given
+  private getGraph(): DependencyGraph {
+    this.graph ??= new DependencyGraph(
+      this.client,
+      new Reconciler(this.client),
+    );
+    return this.graph;
   }
 
   /**
@@ -20,6 +49,34 @@ export class Services {
     return this.client.extractList(response);
   }
 
+  /**
+   * Iterate over all services, fetching pages lazily
+   */
+  iterate(
+    options?: ListOptions,
+    requestOptions?: RequestOptions,
+  ): AsyncGenerator<Service, void, undefined> {
+    return this.client.iterate<Service>(
+      this.client.getAdminEndpoint(this.endpoint),
+      options,
+      requestOptions,
+    );
+  }
+
+  /**
+   * Find services matching a filter
+   */
+  query(
+    filter?: ResourceFilter<Service>,
+    requestOptions?: RequestOptions,
+  ): Promise<FilterResult<Service>> {
+    return this.client.query<Service>(
+      this.client.getAdminEndpoint(this.endpoint),
+      filter,
+      requestOptions,
+    );
+  }
+
   /**
    * Get a specific service by ID
    */
@@ -67,10 +124,67 @@ export class Services {
     return this.client.extractValue(response);
   }
 
+  /**
+   * Update a service only if it has not changed since it was read
+   */
+  async updateIfMatch(
+    id: string,
+    service: UpdateInput<Service>,
+    revision?: number,
+  ): Promise<Service> {
+    const response = await this.client.compareAndSwap<Service>(
+      this.client.getAdminEndpoint(this.endpoint),
+      id,
+      service,
+      { revision },
+    );
+    return this.client.extractValue(response);
+  }
+
+  /**
+   * Partially update a service only if it has not changed since it was read
+   */
+  async patchIfMatch(
+    id: string,
+    service: UpdateInput<Service>,
+    revision?: number,
+  ): Promise<Service> {
+    const response = await this.client.compareAndSwap<Service>(
+      this.client.getAdminEndpoint(this.endpoint),
+      id,
+      service,
+      { revision, method: "PATCH" },
+    );
+    return this.client.extractValue(response);
+  }
+
+  /**
+   * Read a service, apply `fn` and write it back, starting over on conflicts
+   */
+  async modify(
+    id: string,
+    fn: (service: Service) => Service | Promise<Service>,
+    options?: ModifyOptions,
+  ): Promise<Service> {
+    return this.client.modify(
+      this.client.getAdminEndpoint(this.endpoint),
+      id,
+      fn,
+      options,
+    );
+  }
+
   /**
    * Delete a service
+   *
+   * `safe` refuses with an `ApisixConflictError` naming the resources that
+   * still use it; `force` deletes it even while in use.
    */
-  async delete(id: string, options?: { force?: boolean }): Promise<boolean> {
+  async delete(id: string, options?: ResourceDeleteOptions): Promise<boolean> {
+    if (options?.safe && !options.force) {
+      await this.getGraph().delete("services", id);
+      return true;
+    }
     if (options?.force) {
       await this.client.removeWithQuery(
         this.client.getAdminEndpoint(this.endpoint),
@@ -83,6 +197,86 @@ export class Services {
     return true;
   }
 
+  /**
+   * Delete every service whose labels match a selector
+   */
+  async deleteMany(
+    selector: LabelSelector,
+    options?: DeleteManyOptions,
+  ): Promise<string[]> {
+    return this.client.deleteMany<Service>(
+      this.client.getAdminEndpoint(this.endpoint),
+      selector,
+      (id) => this.delete(id, options),
+    );
+  }
+
+  /**
+   * Apply a merge patch or function to all selected services
+   */
+  async updateMany(
+    selection: ResourceSelection<Service>,
+    patch: MergePatch<Service> | ((item: Service) => Service),
+    options?: BulkOptions,
+  ): Promise<BulkReport<Service>> {
+    return this.client.updateMany<Service>(
+      this.client.getAdminEndpoint(this.endpoint),
+      selection,
+      patch,
+      options,
+    );
+  }
+
+  /**
+   * Add or replace a plugin on all selected services
+   */
+  async addPluginToMany(
+    selection: ResourceSelection<Service>,
+    pluginName: string,
+    config: Record<string, unknown>,
+    options?: BulkOptions,
+  ): Promise<BulkReport<Service>> {
+    return this.client.addPluginToMany<Service>(
+      this.client.getAdminEndpoint(this.endpoint),
+      selection,
+      pluginName,
+      config,
+      options,
+    );
+  }
+
+  /**
+   * Remove a plugin from all selected services
+   */
+  async removePluginFromMany(
+    selection: ResourceSelection<Service>,
+    pluginName: string,
+    options?: BulkOptions,
+  ): Promise<BulkReport<Service>> {
+    return this.client.removePluginFromMany<Service>(
+      this.client.getAdminEndpoint(this.endpoint),
+      selection,
+      pluginName,
+      options,
+    );
+  }
+
+  /**
+   * Merge labels into all selected services, `null` removes a label
+   */
+  async setLabelsOnMany(
+    selection: ResourceSelection<Service>,
+    labels: Record<string, string | null>,
+    options?: BulkOptions,
+  ): Promise<BulkReport<Service>> {
+    return this.client.setLabelsOnMany<Service>(
+      this.client.getAdminEndpoint(this.endpoint),
+      selection,
+      labels,
+      options,
+    );
+  }
+
   /**
    * Check if service exists
    */
@@ -139,7 +333,7 @@ export class Services {
       options,
     );
 
-    const paginationInfo = this.client.extractPaginationInfo(response);
+    const paginationInfo = this.client.extractPaginationInfo(response, options);
 
     return {
       services: this.client.extractList(response),
@@ -152,16 +346,16 @@ export class Services {
    * Find services by name
    */
   async findByName(name: string): Promise<Service[]> {
-    const services = await this.list();
-    return services.filter((service) => service.name?.includes(name));
+    const { items } = await this.query({ name });
+    return items;
   }
 
   /**
    * Find services by host
    */
   async findByHost(host: string): Promise<Service[]> {
-    const services = await this.list();
-    return services.filter((service) => service.hosts?.includes(host));
+    const { items } = await this.query({ host });
+    return items;
   }
 
   /**
@@ -1,5 +1,21 @@
 import type { ApisixClient } from "../client";
-import type { CreateInput, ListOptions, SSL, UpdateInput } from "../types";
+import { ApisixError, ApisixValidationError } from "../errors";
+import type {
+  BulkOptions,
+  BulkReport,
+  CreateInput,
+  DeleteManyOptions,
+  FilterResult,
+  LabelSelector,
+  ListOptions,
+  MergePatch,
+  ModifyOptions,
+  RequestOptions,
+  ResourceFilter,
+  ResourceSelection,
+  SSL,
+  UpdateInput,
+} from "../types";
 
 export class SSLCertificates {
   private readonly endpoint = "/ssls";
@@ -20,6 +36,34 @@ export class SSLCertificates {
     return this.client.extractList(response);
   }
 
+  /**
+   * Iterate over all SSL certificates, fetching pages lazily
+   */
+  iterate(
+    options?: ListOptions,
+    requestOptions?: RequestOptions,
+  ): AsyncGenerator<SSL, void, undefined> {
+    return this.client.iterate<SSL>(
+      this.client.getAdminEndpoint(this.endpoint),
+      options,
+      requestOptions,
+    );
+  }
+
+  /**
+   * Find SSL certificates matching a filter
+   */
+  query(
+    filter?: ResourceFilter<SSL>,
+    requestOptions?: RequestOptions,
+  ): Promise<FilterResult<SSL>> {
+    return this.client.query<SSL>(
+      this.client.getAdminEndpoint(this.endpoint),
+      filter,
+      requestOptions,
+    );
+  }
+
   /**
    * Get a specific SSL certificate by ID
    */
@@ -67,6 +111,56 @@ export class SSLCertificates {
     return this.client.extractValue(response);
   }
 
+  /**
+   * Update an SSL certificate only if it has not changed since it was read
+   */
+  async updateIfMatch(
+    id: string,
+    ssl: UpdateInput<SSL>,
+    revision?: number,
+  ): Promise<SSL> {
+    const response = await this.client.compareAndSwap<SSL>(
+      this.client.getAdminEndpoint(this.endpoint),
+      id,
+      ssl,
+      { revision },
+    );
+    return this.client.extractValue(response);
+  }
+
+  /**
+   * Partially update an SSL certificate only if it has not changed since it was read
+   */
+  async patchIfMatch(
+    id: string,
+    ssl: UpdateInput<SSL>,
+    revision?: number,
+  ): Promise<SSL> {
+    const response = await this.client.compareAndSwap<SSL>(
+      this.client.getAdminEndpoint(this.endpoint),
+      id,
+      ssl,
+      { revision, method: "PATCH" },
+    );
+    return this.client.extractValue(response);
+  }
+
+  /**
+   * Read an SSL certificate, apply `fn` and write it back, starting over on conflicts
+   */
+  async modify(
+    id: string,
+    fn: (ssl: SSL) => SSL | Promise<SSL>,
+    options?: ModifyOptions,
+  ): Promise<SSL> {
+    return this.client.modify(
+      this.client.getAdminEndpoint(this.endpoint),
+      id,
+      fn,
+      options,
+    );
+  }
+
   /**
    * Delete an SSL certificate
    */
@@ -83,6 +177,52 @@ export class SSLCertificates {
     return true;
   }
 
+  /**
+   * Delete every SSL certificate whose labels match a selector
+   */
+  async deleteMany(
+    selector: LabelSelector,
+    options?: DeleteManyOptions,
+  ): Promise<string[]> {
+    return this.client.deleteMany<SSL>(
+      this.client.getAdminEndpoint(this.endpoint),
+      selector,
+      (id) => this.delete(id, options),
+    );
+  }
+
+  /**
+   * Apply a merge patch or function to all selected SSL certificates
+   */
+  async updateMany(
+    selection: ResourceSelection<SSL>,
+    patch: MergePatch<SSL> | ((item: SSL) => SSL),
+    options?: BulkOptions,
+  ): Promise<BulkReport<SSL>> {
+    return this.client.updateMany<SSL>(
+      this.client.getAdminEndpoint(this.endpoint),
+      selection,
+      patch,
+      options,
+    );
+  }
+
+  /**
+   * Merge labels into all selected SSL certificates, `null` removes a label
+   */
+  async setLabelsOnMany(
+    selection: ResourceSelection<SSL>,
+    labels: Record<string, string | null>,
+    options?: BulkOptions,
+  ): Promise<BulkReport<SSL>> {
+    return this.client.setLabelsOnMany<SSL>(
+      this.client.getAdminEndpoint(this.endpoint),
+      selection,
+      labels,
+      options,
+    );
+  }
+
   /**
    * Check if SSL certificate exists
    */
@@ -139,7 +279,7 @@ export class SSLCertificates {
       options,
     );
 
-    const paginationInfo = this.client.extractPaginationInfo(response);
+    const paginationInfo = this.client.extractPaginationInfo(response, options);
 
     return {
       certificates: this.client.extractList(response),
@@ -270,16 +410,8 @@ export class SSLCertificates {
         }
       }
 
-      let source: SSL;
-
-      try {
-        // Try to get the source certificate using direct GET first
-        source = await this.get(sourceId);
-      } catch (error) {
-        throw new Error(
-          `Failed to get source SSL certificate '${sourceId}': ${error instanceof Error ? error.message : "Unknown error"}`,
-        );
-      }
+      // Try to get the source certificate using direct GET first
+      const source = await this.get(sourceId);
 
       // Check if we have the key field - APISIX may not return it in single resource GET for security reasons
       let sourceKey = source.key;
@@ -301,7 +433,7 @@ export class SSLCertificates {
 
         // If we still don't have a key, check if modifications provide one
         if (!sourceKey && !modifications?.key) {
-          throw new Error(
+          throw new ApisixValidationError(
             `Source SSL certificate '${sourceId}' is missing 'key' field and no replacement key provided in modifications. This is due to APISIX security policies that don't return private keys in single resource GET responses. Please provide a key in the modifications parameter.`,
           );
         }
@@ -314,7 +446,7 @@ export class SSLCertificates {
 
       // Validate that source has required certificate fields
       if (!source.cert) {
-        throw new Error(
+        throw new ApisixValidationError(
           `Source SSL certificate '${sourceId}' is missing 'cert' field`,
         );
       }
@@ -340,7 +472,7 @@ export class SSLCertificates {
 
       // Validate required fields after applying modifications
       if (!newSSL.cert || !newSSL.key) {
-        throw new Error(
+        throw new ApisixValidationError(
           "SSL certificate must have both 'cert' and 'key' fields",
         );
       }
@@ -348,28 +480,30 @@ export class SSLCertificates {
       // Ensure SNI is properly formatted if provided
       if (newSSL.snis) {
         if (!Array.isArray(newSSL.snis)) {
-          throw new Error("SNI must be an array");
+          throw new ApisixValidationError("SNI must be an array");
         }
         if (newSSL.snis.length === 0) {
-          throw new Error("SNI array cannot be empty");
+          throw new ApisixValidationError("SNI array cannot be empty");
         }
       }
 
-      return this.create(newSSL, newId);
+      return await this.create(newSSL, newId);
     } catch (error) {
-      if (error instanceof Error) {
-        if (error.message.includes("then clause did not match")) {
-          throw new Error(
-            `SSL certificate validation failed during clone: ${error.message}. This usually indicates certificate format or SNI configuration issues.`,
-          );
-        }
-        if (
-          error.message.includes("missing") &&
-          error.message.includes("field")
-        ) {
-          // Re-throw our custom validation errors as-is
-          throw error;
-        }
+      if (
+        error instanceof ApisixError &&
+        error.errorMsg?.includes("then clause did not match")
+      ) {
+        throw new ApisixValidationError(
+          `SSL certificate validation failed during clone: ${error.message}. This usually indicates certificate format or SNI configuration issues.`,
+          {
+            status: error.status,
+            method: error.method,
+            endpoint: error.endpoint,
+            url: error.url,
+            errorMsg: error.errorMsg,
+            cause: error,
+          },
+        );
       }
       throw error;
     }
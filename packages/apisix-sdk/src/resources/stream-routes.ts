@@ -1,7 +1,18 @@
 import type { ApisixClient } from "../client";
+import { ApisixError, ApisixValidationError } from "../errors";
 import type {
+  BulkOptions,
+  BulkReport,
   CreateInput,
+  DeleteManyOptions,
+  FilterResult,
+  LabelSelector,
   ListOptions,
+  MergePatch,
+  ModifyOptions,
+  RequestOptions,
+  ResourceFilter,
+  ResourceSelection,
   StreamRoute,
   UpdateInput,
 } from "../types";
@@ -25,6 +36,34 @@ export class StreamRoutes {
     return this.client.extractList(response);
   }
 
+  /**
+   * Iterate over all stream routes, fetching pages lazily
+   */
+  iterate(
+    options?: ListOptions,
+    requestOptions?: RequestOptions,
+  ): AsyncGenerator<StreamRoute, void, undefined> {
+    return this.client.iterate<StreamRoute>(
+      this.client.getAdminEndpoint(this.endpoint),
+      options,
+      requestOptions,
+    );
+  }
+
+  /**
+   * Find stream routes matching a filter
+   */
+  query(
+    filter?: ResourceFilter<StreamRoute>,
+    requestOptions?: RequestOptions,
+  ): Promise<FilterResult<StreamRoute>> {
+    return this.client.query<StreamRoute>(
+      this.client.getAdminEndpoint(this.endpoint),
+      filter,
+      requestOptions,
+    );
+  }
+
   /**
    * Get a specific stream route by ID
    */
@@ -46,7 +85,7 @@ export class StreamRoutes {
     // Validate configuration before creating
     const validation = this.validateConfig(streamRoute);
     if (!validation.valid) {
-      throw new Error(
+      throw new ApisixValidationError(
         `Invalid stream route configuration: ${validation.errors.join(", ")}`,
       );
     }
@@ -72,7 +111,7 @@ export class StreamRoutes {
         streamRoute as CreateInput<StreamRoute>,
       );
       if (!validation.valid) {
-        throw new Error(
+        throw new ApisixValidationError(
           `Invalid stream route configuration: ${validation.errors.join(", ")}`,
         );
       }
@@ -137,20 +176,59 @@ export class StreamRoutes {
         updateData as CreateInput<StreamRoute>,
       );
       if (!validation.valid) {
-        throw new Error(
+        throw new ApisixValidationError(
           `Invalid stream route configuration: ${validation.errors.join(", ")}`,
         );
       }
 
       return this.update(id, updateData);
     } catch (error) {
-      if (error instanceof Error && error.message.includes("not supported")) {
-        throw new Error("PATCH method is not supported for stream routes");
+      if (
+        error instanceof ApisixError &&
+        error.errorMsg?.includes("not supported")
+      ) {
+        throw new ApisixValidationError(
+          "PATCH method is not supported for stream routes",
+          { status: error.status, cause: error },
+        );
       }
       throw error;
     }
   }
 
+  /**
+   * Update a stream route only if it has not changed since it was read
+   */
+  async updateIfMatch(
+    id: string,
+    streamRoute: UpdateInput<StreamRoute>,
+    revision?: number,
+  ): Promise<StreamRoute> {
+    const response = await this.client.compareAndSwap<StreamRoute>(
+      this.client.getAdminEndpoint(this.endpoint),
+      id,
+      streamRoute,
+      { revision },
+    );
+    return this.client.extractValue(response);
+  }
+
+  /**
+   * Read a stream route, apply `fn` and write it back, starting over on conflicts
+   */
+  async modify(
+    id: string,
+    fn: (streamRoute: StreamRoute) => StreamRoute | Promise<StreamRoute>,
+    options?: ModifyOptions,
+  ): Promise<StreamRoute> {
+    return this.client.modify(
+      this.client.getAdminEndpoint(this.endpoint),
+      id,
+      fn,
+      options,
+    );
+  }
+
   /**
    * Delete a stream route
    */
@@ -167,6 +245,70 @@ export class StreamRoutes {
     return true;
   }
 
+  /**
+   * Delete every stream route whose labels match a selector
+   */
+  async deleteMany(
+    selector: LabelSelector,
+    options?: DeleteManyOptions,
+  ): Promise<string[]> {
+    return this.client.deleteMany<StreamRoute>(
+      this.client.getAdminEndpoint(this.endpoint),
+      selector,
+      (id) => this.delete(id, options),
+    );
+  }
+
+  /**
+   * Apply a merge patch or function to all selected stream routes
+   */
+  async updateMany(
+    selection: ResourceSelection<StreamRoute>,
+    patch: MergePatch<StreamRoute> | ((item: StreamRoute) => StreamRoute),
+    options?: BulkOptions,
+  ): Promise<BulkReport<StreamRoute>> {
+    return this.client.updateMany<StreamRoute>(
+      this.client.getAdminEndpoint(this.endpoint),
+      selection,
+      patch,
+      options,
+    );
+  }
+
+  /**
+   * Add or replace a plugin on all selected stream routes
+   */
+  async addPluginToMany(
+    selection: ResourceSelection<StreamRoute>,
+    pluginName: string,
+    config: Record<string, unknown>,
+    options?: BulkOptions,
+  ): Promise<BulkReport<StreamRoute>> {
+    return this.client.addPluginToMany<StreamRoute>(
+      this.client.getAdminEndpoint(this.endpoint),
+      selection,
+      pluginName,
+      config,
+      options,
+    );
+  }
+
+  /**
+   * Remove a plugin from all selected stream routes
+   */
+  async removePluginFromMany(
+    selection: ResourceSelection<StreamRoute>,
+    pluginName: string,
+    options?: BulkOptions,
+  ): Promise<BulkReport<StreamRoute>> {
+    return this.client.removePluginFromMany<StreamRoute>(
+      this.client.getAdminEndpoint(this.endpoint),
+      selection,
+      pluginName,
+      options,
+    );
+  }
+
   /**
    * Check if stream route exists
    */
@@ -223,7 +365,7 @@ export class StreamRoutes {
       options,
     );
 
-    const paginationInfo = this.client.extractPaginationInfo(response);
+    const paginationInfo = this.client.extractPaginationInfo(response, options);
 
     return {
       streamRoutes: this.client.extractList(response),
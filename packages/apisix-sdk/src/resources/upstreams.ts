@@ -1,7 +1,20 @@
 import type { ApisixClient } from "../client";
+import { DependencyGraph } from "../graph";
+import { Reconciler } from "../reconciler";
 import type {
+  BulkOptions,
+  BulkReport,
   CreateInput,
+  DeleteManyOptions,
+  FilterResult,
+  LabelSelector,
   ListOptions,
+  MergePatch,
+  ModifyOptions,
+  RequestOptions,
+  ResourceDeleteOptions,
+  ResourceFilter,
+  ResourceSelection,
   UpdateInput,
   Upstream,
   UpstreamNode,
@@ -10,9 +23,20 @@ import type {
 export class Upstreams {
   private readonly endpoint = "/upstreams";
   private client: ApisixClient;
+  private graph?: DependencyGraph;
 
-  constructor(client: ApisixClient) {
+  constructor(client: ApisixClient, graph?: DependencyGraph) {
     this.client = client;
+    this.graph = graph;
+  }
+
+  // Safe deletes check dependents through `graph`, one of its own when not given
+  private getGraph(): DependencyGraph {
+    this.graph ??= new DependencyGraph(
+      this.client,
+      new Reconciler(this.client),
+    );
+    return this.graph;
   }
 
   /**
@@ -26,6 +50,34 @@ export class Upstreams {
     return this.client.extractList(response);
   }
 
+  /**
+   * Iterate over all upstreams, fetching pages lazily
+   */
+  iterate(
+    options?: ListOptions,
+    requestOptions?: RequestOptions,
+  ): AsyncGenerator<Upstream, void, undefined> {
+    return this.client.iterate<Upstream>(
+      this.client.getAdminEndpoint(this.endpoint),
+      options,
+      requestOptions,
+    );
+  }
+
+  /**
+   * Find upstreams matching a filter
+   */
+  query(
+    filter?: ResourceFilter<Upstream>,
+    requestOptions?: RequestOptions,
+  ): Promise<FilterResult<Upstream>> {
+    return this.client.query<Upstream>(
+      this.client.getAdminEndpoint(this.endpoint),
+      filter,
+      requestOptions,
+    );
+  }
+
   /**
    * Get a specific upstream by ID
    */
@@ -76,10 +128,67 @@ export class Upstreams {
     return this.client.extractValue(response);
   }
 
+  /**
+   * Update an upstream only if it has not changed since it was read
+   */
+  async updateIfMatch(
+    id: string,
+    upstream: UpdateInput<Upstream>,
+    revision?: number,
+  ): Promise<Upstream> {
+    const response = await this.client.compareAndSwap<Upstream>(
+      this.client.getAdminEndpoint(this.endpoint),
+      id,
+      upstream,
+      { revision },
+    );
+    return this.client.extractValue(response);
+  }
+
+  /**
+   * Partially update an upstream only if it has not changed since it was read
+   */
+  async patchIfMatch(
+    id: string,
+    upstream: UpdateInput<Upstream>,
+    revision?: number,
+  ): Promise<Upstream> {
+    const response = await this.client.compareAndSwap<Upstream>(
+      this.client.getAdminEndpoint(this.endpoint),
+      id,
+      upstream,
+      { revision, method: "PATCH" },
+    );
+    return this.client.extractValue(response);
+  }
+
+  /**
+   * Read an upstream, apply `fn` and write it back, starting over on conflicts
+   */
+  async modify(
+    id: string,
+    fn: (upstream: Upstream) => Upstream | Promise<Upstream>,
+    options?: ModifyOptions,
+  ): Promise<Upstream> {
+    return this.client.modify(
+      this.client.getAdminEndpoint(this.endpoint),
+      id,
+      fn,
+      options,
+    );
+  }
+
   /**
    * Delete an upstream
+   *
+   * `safe` refuses with an `ApisixConflictError` naming the resources that
+   * still use it; `force` deletes it even while in use.
    */
-  async delete(id: string, options?: { force?: boolean }): Promise<boolean> {
+  async delete(id: string, options?: ResourceDeleteOptions): Promise<boolean> {
+    if (options?.safe && !options.force) {
+      await this.getGraph().delete("upstreams", id);
+      return true;
+    }
     if (options?.force) {
       await this.client.removeWithQuery(
         this.client.getAdminEndpoint(this.endpoint),
@@ -92,6 +201,52 @@ export class Upstreams {
     return true;
   }
 
+  /**
+   * Delete every upstream whose labels match a selector
+   */
+  async deleteMany(
+    selector: LabelSelector,
+    options?: DeleteManyOptions,
+  ): Promise<string[]> {
+    return this.client.deleteMany<Upstream>(
+      this.client.getAdminEndpoint(this.endpoint),
+      selector,
+      (id) => this.delete(id, options),
+    );
+  }
+
+  /**
+   * Apply a merge patch or function to all selected upstreams
+   */
+  async updateMany(
+    selection: ResourceSelection<Upstream>,
+    patch: MergePatch<Upstream> | ((item: Upstream) => Upstream),
+    options?: BulkOptions,
+  ): Promise<BulkReport<Upstream>> {
+    return this.client.updateMany<Upstream>(
+      this.client.getAdminEndpoint(this.endpoint),
+      selection,
+      patch,
+      options,
+    );
+  }
+
+  /**
+   * Merge labels into all selected upstreams, `null` removes a label
+   */
+  async setLabelsOnMany(
+    selection: ResourceSelection<Upstream>,
+    labels: Record<string, string | null>,
+    options?: BulkOptions,
+  ): Promise<BulkReport<Upstream>> {
+    return this.client.setLabelsOnMany<Upstream>(
+      this.client.getAdminEndpoint(this.endpoint),
+      selection,
+      labels,
+      options,
+    );
+  }
+
   /**
    * Check if upstream exists
    */
@@ -148,7 +303,7 @@ export class Upstreams {
       options,
     );
 
-    const paginationInfo = this.client.extractPaginationInfo(response);
+    const paginationInfo = this.client.extractPaginationInfo(response, options);
 
     return {
       upstreams: this.client.extractList(response),
@@ -161,8 +316,8 @@ export class Upstreams {
    * Find upstreams by name
    */
   async findByName(name: string): Promise<Upstream[]> {
-    const upstreams = await this.list();
-    return upstreams.filter((upstream) => upstream.name?.includes(name));
+    const { items } = await this.query({ name });
+    return items;
   }
 
   /**
@@ -171,8 +326,8 @@ export class Upstreams {
   async findByType(
     type: "roundrobin" | "chash" | "ewma" | "least_conn",
   ): Promise<Upstream[]> {
-    const upstreams = await this.list();
-    return upstreams.filter((upstream) => upstream.type === type);
+    const { items } = await this.query({ type });
+    return items;
   }
 
   /**
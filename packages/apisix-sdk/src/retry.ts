@@ -0,0 +1,179 @@
+import {
+  ApisixError,
+  ApisixNetworkError,
+  ApisixTimeoutError,
+  findCause,
+} from "./errors";
+import type { HttpMethod, RetryJitter, RetryPolicy } from "./types";
+
+export interface ResolvedRetryPolicy {
+  maxAttempts: number;
+  baseDelay: number;
+  maxDelay: number;
+  maxElapsedTime: number;
+  jitter: RetryJitter;
+  retryableStatusCodes: number[];
+  respectRetryAfter: boolean;
+  maxRetryAfter: number;
+  shouldRetry?: RetryPolicy["shouldRetry"];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelay: 1000,
+  maxDelay: 10000,
+  maxElapsedTime: Number.POSITIVE_INFINITY,
+  jitter: "equal",
+  retryableStatusCodes: [408, 429, 500, 502, 503, 504],
+  respectRetryAfter: true,
+  maxRetryAfter: 60000,
+  methods: {
+    // A repeated POST may create a duplicate resource
+    POST: false,
+  },
+};
+
+/**
+ * Merge retry policies, later ones win; `methods` rules are merged per method
+ */
+export function mergeRetryPolicies(
+  ...policies: Array<RetryPolicy | undefined>
+): RetryPolicy {
+  const merged: RetryPolicy = {};
+  for (const policy of policies) {
+    if (!policy) continue;
+    const { methods, ...rest } = policy;
+    Object.assign(
+      merged,
+      Object.fromEntries(
+        Object.entries(rest).filter(([, value]) => value !== undefined),
+      ),
+    );
+    if (methods) {
+      merged.methods = { ...merged.methods, ...methods };
+    }
+  }
+  return merged;
+}
+
+/**
+ * Resolve the effective policy for an HTTP method
+ */
+export function resolveRetryPolicy(
+  method: HttpMethod,
+  policy: RetryPolicy | false,
+): ResolvedRetryPolicy {
+  const base = mergeRetryPolicies(DEFAULT_RETRY_POLICY, policy || {});
+  const rule = policy === false ? false : base.methods?.[method];
+  const effective =
+    typeof rule === "object" ? mergeRetryPolicies(base, rule) : base;
+
+  return {
+    maxAttempts: rule === false ? 1 : Math.max(1, effective.maxAttempts ?? 1),
+    baseDelay: Math.max(0, effective.baseDelay ?? 0),
+    maxDelay: Math.max(0, effective.maxDelay ?? 0),
+    maxElapsedTime: effective.maxElapsedTime ?? Number.POSITIVE_INFINITY,
+    jitter: effective.jitter ?? "equal",
+    retryableStatusCodes: effective.retryableStatusCodes ?? [],
+    respectRetryAfter: effective.respectRetryAfter ?? true,
+    maxRetryAfter: Math.max(0, effective.maxRetryAfter ?? 60000),
+    shouldRetry: effective.shouldRetry,
+  };
+}
+
+/**
+ * Decide whether a failed attempt may be retried
+ */
+export async function isRetryable(
+  error: Error,
+  attempt: number,
+  policy: ResolvedRetryPolicy,
+): Promise<boolean> {
+  if (attempt >= policy.maxAttempts) {
+    return false;
+  }
+
+  // Errors not raised by the transport (e.g. thrown by hooks) are final
+  if (!(error instanceof ApisixError)) {
+    return false;
+  }
+
+  // Requests cancelled by the caller should not be repeated
+  if (isAborted(error)) {
+    return false;
+  }
+
+  const decision = await policy.shouldRetry?.(error, attempt);
+  if (decision !== undefined) {
+    return decision;
+  }
+
+  if (error instanceof ApisixNetworkError) {
+    return true;
+  }
+
+  return (
+    error.status !== undefined &&
+    policy.retryableStatusCodes.includes(error.status)
+  );
+}
+
+/**
+ * Compute the delay before the next attempt
+ * A `Retry-After` delay is honoured up to `maxRetryAfter`
+ */
+export function getRetryDelay(
+  error: Error,
+  attempt: number,
+  policy: ResolvedRetryPolicy,
+): number {
+  if (
+    policy.respectRetryAfter &&
+    error instanceof ApisixError &&
+    error.retryAfter !== undefined
+  ) {
+    return Math.min(Math.max(0, error.retryAfter), policy.maxRetryAfter);
+  }
+
+  const backoff = Math.min(
+    policy.baseDelay * Math.pow(2, attempt - 1),
+    policy.maxDelay,
+  );
+
+  switch (policy.jitter) {
+    case "none":
+      return backoff;
+    case "full":
+      return Math.random() * backoff;
+    default:
+      return backoff / 2 + (Math.random() * backoff) / 2;
+  }
+}
+
+/**
+ * Parse a `Retry-After` header (delay in seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(
+  value: string | null | undefined,
+): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Check if an error comes from a caller-side abort rather than a timeout
+ */
+export function isAborted(error: Error): boolean {
+  return (
+    error instanceof ApisixNetworkError &&
+    !(error instanceof ApisixTimeoutError) &&
+    findCause(error, "AbortError") !== undefined
+  );
+}
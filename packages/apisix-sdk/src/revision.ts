@@ -0,0 +1,27 @@
+import type { ResourceRevision } from "./types";
+
+/**
+ * Symbol under which fetched entities carry their etcd revision
+ *
+ * The property is enumerable so copies made with spread keep the revision
+ * they were based on, and is skipped by JSON serialisation.
+ */
+export const REVISION: unique symbol = Symbol.for("apisix-sdk.revision");
+
+/**
+ * Get the revision an entity was read at, if it came from the Admin API
+ */
+export function getRevision(entity: unknown): ResourceRevision | undefined {
+  if (!entity || typeof entity !== "object") return undefined;
+  return (entity as { [REVISION]?: ResourceRevision })[REVISION];
+}
+
+/**
+ * Attach revision metadata to an entity
+ */
+export function setRevision<T>(entity: T, revision: ResourceRevision): T {
+  if (entity && typeof entity === "object") {
+    (entity as { [REVISION]?: ResourceRevision })[REVISION] = revision;
+  }
+  return entity;
+}
@@ -0,0 +1,171 @@
+import { ApisixValidationError } from "./errors";
+import type { LabelRequirement, LabelSelector } from "./types";
+
+interface Token {
+  type: "word" | "symbol";
+  value: string;
+  position: number;
+}
+
+const SYMBOLS = ["==", "!=", "=", "!", ",", "(", ")"];
+
+/**
+ * Parse a Kubernetes-style label selector
+ *
+ * Supports `key`, `!key`, `key=value`, `key==value`, `key!=value`,
+ * `key in (a,b)` and `key notin (a,b)`, joined by commas (logical AND).
+ * An empty selector has no requirements and matches everything.
+ */
+export function parseSelector(selector: string): LabelRequirement[] {
+  const tokens = tokenize(selector);
+  const requirements: LabelRequirement[] = [];
+  let index = 0;
+
+  const fail = (expected: string): never => {
+    const token = tokens[index];
+    const found = token ? `"${token.value}"` : "end of input";
+    throw new ApisixValidationError(
+      `Invalid label selector "${selector}": expected ${expected}, found ${found} at position ${token?.position ?? selector.length}`,
+    );
+  };
+  const peek = (value: string) =>
+    tokens[index]?.type === "symbol" && tokens[index].value === value;
+  const word = (expected: string): string => {
+    const token = tokens[index];
+    if (token?.type !== "word") fail(expected);
+    index++;
+    return token.value;
+  };
+  const values = (): string[] => {
+    if (!peek("(")) fail('"("');
+    index++;
+    const list: string[] = [];
+    if (!peek(")")) {
+      list.push(word("value"));
+      while (peek(",")) {
+        index++;
+        list.push(word("value"));
+      }
+    }
+    if (!peek(")")) fail('"," or ")"');
+    index++;
+    return list;
+  };
+
+  while (index < tokens.length) {
+    if (peek("!")) {
+      index++;
+      requirements.push({
+        key: word("label key"),
+        operator: "notexists",
+        values: [],
+      });
+    } else {
+      const key = word('label key or "!"');
+      const token = tokens[index];
+      if (token?.type === "symbol" && ["=", "==", "!="].includes(token.value)) {
+        index++;
+        // `key=` selects an empty value, as in Kubernetes
+        const value = tokens[index]?.type === "word" ? word("value") : "";
+        requirements.push({
+          key,
+          operator: token.value === "!=" ? "!=" : "=",
+          values: [value],
+        });
+      } else if (
+        token?.type === "word" &&
+        ["in", "notin"].includes(token.value)
+      ) {
+        index++;
+        requirements.push({
+          key,
+          operator: token.value as "in" | "notin",
+          values: values(),
+        });
+      } else {
+        requirements.push({ key, operator: "exists", values: [] });
+      }
+    }
+
+    if (index < tokens.length) {
+      if (!peek(",")) fail('","');
+      index++;
+      if (index === tokens.length) fail("requirement");
+    }
+  }
+
+  return requirements;
+}
+
+/**
+ * Check a resource's labels against a selector
+ */
+export function matchesSelector(
+  labels: Record<string, string> | undefined,
+  selector: LabelSelector,
+): boolean {
+  const requirements =
+    typeof selector === "string" ? parseSelector(selector) : selector;
+  return requirements.every(({ key, operator, values }) => {
+    const value = labels?.[key];
+    switch (operator) {
+      case "exists":
+        return value !== undefined;
+      case "notexists":
+        return value === undefined;
+      case "=":
+      case "in":
+        return value !== undefined && values.includes(value);
+      case "!=":
+      case "notin":
+        return value === undefined || !values.includes(value);
+    }
+  });
+}
+
+/**
+ * Check whether an item carries labels matching a selector
+ */
+export function matchesLabels(item: unknown, selector: LabelSelector): boolean {
+  const labels =
+    item && typeof item === "object"
+      ? (item as { labels?: Record<string, string> }).labels
+      : undefined;
+  return matchesSelector(labels, selector);
+}
+
+function tokenize(selector: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < selector.length) {
+    if (/\s/.test(selector[position])) {
+      position++;
+      continue;
+    }
+
+    const symbol = SYMBOLS.find((candidate) =>
+      selector.startsWith(candidate, position),
+    );
+    if (symbol) {
+      tokens.push({ type: "symbol", value: symbol, position });
+      position += symbol.length;
+      continue;
+    }
+
+    const start = position;
+    while (
+      position < selector.length &&
+      !/[\s,()=!]/.test(selector[position])
+    ) {
+      position++;
+    }
+    tokens.push({
+      type: "word",
+      value: selector.slice(start, position),
+      position: start,
+    });
+  }
+
+  return tokens;
+}
@@ -0,0 +1,78 @@
+import { ApisixValidationError } from "./errors";
+import { CONFIG_KINDS, SERVER_MANAGED_FIELDS } from "./kinds";
+import { parseYaml } from "./yaml";
+import type {
+  ApisixConfig,
+  ApisixSnapshot,
+  ConfigKind,
+  ServerInfo,
+} from "./types";
+
+export const SNAPSHOT_FORMAT = "apisix-sdk/snapshot";
+export const SNAPSHOT_VERSION = 1;
+
+/**
+ * Wrap a configuration in a snapshot archive
+ *
+ * Server-managed fields are dropped, so restoring recreates them.
+ */
+export function createSnapshot(
+  config: ApisixConfig,
+  server: Pick<ServerInfo, "hostname" | "version">,
+): ApisixSnapshot {
+  const counts: Partial<Record<ConfigKind, number>> = {};
+  const cleaned: Record<string, unknown[]> = {};
+  for (const { kind } of CONFIG_KINDS) {
+    const items = config[kind] as Record<string, unknown>[] | undefined;
+    if (items === undefined) continue;
+
+    counts[kind] = items.length;
+    cleaned[kind] = items.map((item) =>
+      Object.fromEntries(
+        Object.entries(item).filter(
+          ([key]) => !SERVER_MANAGED_FIELDS.includes(key),
+        ),
+      ),
+    );
+  }
+
+  return {
+    format: SNAPSHOT_FORMAT,
+    version: SNAPSHOT_VERSION,
+    created_at: new Date().toISOString(),
+    source: { hostname: server.hostname, version: server.version },
+    counts,
+    config: cleaned as ApisixConfig,
+  };
+}
+
+/**
+ * Read a snapshot archive, given as an object or its JSON or YAML text
+ */
+export function parseSnapshot(input: ApisixSnapshot | string): ApisixSnapshot {
+  let snapshot: unknown = input;
+  if (typeof input === "string") {
+    try {
+      snapshot = JSON.parse(input);
+    } catch {
+      // YAML is a superset of JSON, so this also reports broken JSON
+      snapshot = parseYaml(input);
+    }
+  }
+
+  const record = snapshot as Partial<ApisixSnapshot> | null;
+  if (record?.format !== SNAPSHOT_FORMAT) {
+    throw new ApisixValidationError(
+      `Not an APISIX snapshot: expected format "${SNAPSHOT_FORMAT}"`,
+    );
+  }
+  if (typeof record.version !== "number" || record.version > SNAPSHOT_VERSION) {
+    throw new ApisixValidationError(
+      `Unsupported snapshot version ${String(record.version)}, this SDK reads up to ${SNAPSHOT_VERSION}`,
+    );
+  }
+  if (typeof record.config !== "object" || record.config === null) {
+    throw new ApisixValidationError("Snapshot has no config");
+  }
+  return record as ApisixSnapshot;
+}
@@ -0,0 +1,182 @@
+import { ApisixValidationError } from "./errors";
+import {
+  CONFIG_KINDS,
+  type DanglingReference,
+  findDanglingReferences,
+  SERVER_MANAGED_FIELDS,
+  validateConfig,
+} from "./kinds";
+import { parseYaml, stringifyYaml } from "./yaml";
+import type {
+  ApisixConfig,
+  ConfigCredential,
+  Consumer,
+  StandaloneConfig,
+  StandalonePlugin,
+} from "./types";
+
+type Item = Record<string, unknown>;
+
+// APISIX only loads an apisix.yaml that ends with this line
+export const STANDALONE_END_MARKER = "#END";
+
+// Credentials are listed among consumers as `<username>/credentials/<id>`
+const CREDENTIAL_INFIX = "/credentials/";
+
+/**
+ * Render a configuration as the `apisix.yaml` of a standalone-mode gateway
+ *
+ * The document is validated first: every resource needs an ID and every
+ * `upstream_id`, `service_id` and similar reference must name a resource in
+ * it, since a standalone gateway has nowhere else to look them up.
+ */
+export function renderStandaloneConfig(config: StandaloneConfig): string {
+  return `${stringifyYaml(toStandaloneDocument(config))}${STANDALONE_END_MARKER}\n`;
+}
+
+/**
+ * Read the `apisix.yaml` of a standalone-mode gateway
+ *
+ * A file without the `#END` marker is rejected, as APISIX would not load it
+ * either; it is usually an interrupted write. Credentials listed among the
+ * consumers are returned as `credentials`.
+ */
+export function parseStandaloneConfig(text: string): StandaloneConfig {
+  const lines = text.trimEnd().split("\n");
+  if (lines.at(-1)?.trim() !== STANDALONE_END_MARKER) {
+    throw new ApisixValidationError(
+      `apisix.yaml does not end with the ${STANDALONE_END_MARKER} marker`,
+    );
+  }
+  return fromStandaloneDocument(parseYaml(text));
+}
+
+// How a file store writes back a file it edited
+export interface StandaloneDocumentOptions {
+  tolerated?: ReadonlySet<string>; // Dangling references the file had already, by `describeReference`
+  timestamps?: boolean; // Keep create_time and update_time
+}
+
+/**
+ * Validate a configuration and lay it out as a standalone file, shared by
+ * the YAML and JSON flavours
+ */
+export function toStandaloneDocument(
+  config: StandaloneConfig,
+  options: StandaloneDocumentOptions = {},
+): Item {
+  const { plugins, ...resources } = config;
+  validateConfig(resources);
+  if (plugins !== undefined) validatePlugins(plugins);
+
+  const dangling = findDanglingReferences(resources).filter(
+    (ref) => !options.tolerated?.has(describeReference(ref)),
+  );
+  if (dangling.length > 0) {
+    throw new ApisixValidationError(
+      `Dangling references: ${dangling.map(describeReference).join("; ")}`,
+    );
+  }
+
+  const strip = (item: Item) =>
+    options.timestamps ? item : withoutServerFields(item);
+  const document: Item = {};
+  for (const { kind } of CONFIG_KINDS) {
+    const items = resources[kind] as Item[] | undefined;
+    if (items === undefined || kind === "credentials") continue;
+    document[kind] = items.map(strip);
+  }
+  if (resources.credentials !== undefined) {
+    document.consumers = [
+      ...((document.consumers as Item[] | undefined) ?? []),
+      ...resources.credentials.map(({ consumer, id, ...credential }) => ({
+        id: `${consumer}${CREDENTIAL_INFIX}${id}`,
+        ...strip(credential),
+      })),
+    ];
+  }
+  if (plugins !== undefined) document.plugins = plugins;
+  return document;
+}
+
+/**
+ * Read the parsed content of a standalone file back into a configuration
+ */
+export function fromStandaloneDocument(content: unknown): StandaloneConfig {
+  const document = content ?? {};
+  if (typeof document !== "object" || Array.isArray(document)) {
+    throw new ApisixValidationError(
+      "apisix.yaml must be a mapping of collections",
+    );
+  }
+
+  const { plugins, consumers, ...rest } = document as Item;
+  if (rest.credentials !== undefined) {
+    throw new ApisixValidationError(
+      `Credentials belong in consumers, with IDs like <username>${CREDENTIAL_INFIX}<id>`,
+    );
+  }
+  const config: StandaloneConfig = rest as ApisixConfig;
+
+  if (consumers !== undefined && consumers !== null) {
+    if (!Array.isArray(consumers)) {
+      throw new ApisixValidationError("consumers must be an array");
+    }
+    const credentials: ConfigCredential[] = [];
+    config.consumers = [];
+    for (const item of consumers as Item[]) {
+      const id = typeof item.id === "string" ? item.id : "";
+      const split = id.indexOf(CREDENTIAL_INFIX);
+      if (split === -1) {
+        config.consumers.push(item as unknown as Consumer);
+        continue;
+      }
+      credentials.push({
+        ...item,
+        consumer: id.slice(0, split),
+        id: id.slice(split + CREDENTIAL_INFIX.length),
+      } as ConfigCredential);
+    }
+    if (credentials.length > 0) config.credentials = credentials;
+  }
+
+  for (const [kind, items] of Object.entries(config)) {
+    if (items === null) delete config[kind as keyof ApisixConfig];
+  }
+  validateConfig(config);
+
+  if (plugins !== undefined && plugins !== null) {
+    validatePlugins(plugins);
+    config.plugins = plugins as StandalonePlugin[];
+  }
+  return config;
+}
+
+/**
+ * Describe a reference to a missing resource, e.g. for an error message
+ */
+export function describeReference(ref: DanglingReference): string {
+  return `${ref.kind}/${ref.id} ${ref.field} "${ref.targetId}" is not in ${ref.target}`;
+}
+
+function validatePlugins(plugins: unknown): void {
+  if (
+    !Array.isArray(plugins) ||
+    plugins.some(
+      (plugin) =>
+        typeof (plugin as Partial<StandalonePlugin> | null)?.name !== "string",
+    )
+  ) {
+    throw new ApisixValidationError(
+      "plugins must be a list of entries with a name",
+    );
+  }
+}
+
+function withoutServerFields(item: Item): Item {
+  return Object.fromEntries(
+    Object.entries(item).filter(
+      ([key]) => !SERVER_MANAGED_FIELDS.includes(key),
+    ),
+  );
+}
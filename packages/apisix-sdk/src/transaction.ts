@@ -0,0 +1,305 @@
+import type { ApisixClient } from "./client";
+import { ApisixNotFoundError, ApisixValidationError } from "./errors";
+import {
+  fromResourceKey,
+  getKindInfo,
+  getResourceKey,
+  getResourceLocation,
+  toRequestBody,
+} from "./kinds";
+import { getRevision } from "./revision";
+import type {
+  ApisixResponse,
+  ConfigKind,
+  RollbackStep,
+  TransactionReport,
+  TransactionStep,
+} from "./types";
+
+type Item = Record<string, unknown>;
+
+interface JournalEntry {
+  kind: ConfigKind;
+  key: string;
+  endpoint: string;
+  id: string;
+  before?: Item; // Undefined when the resource did not exist
+  recorded?: Promise<void>; // Settles once `before` has been read
+}
+
+// Values read back carry an `id` taken from their key, which only kinds
+// identified by `id` may send
+function toRestoreBody(kind: ConfigKind, before: Item): Item {
+  const body = toRequestBody(kind, before);
+  if (getKindInfo(kind).idField !== "id") delete body.id;
+  return body;
+}
+
+/**
+ * Multi-resource change that is undone when any step fails
+ *
+ * Resources are addressed like in a configuration document: by kind and key,
+ * `consumer/id` for credentials and `<manager>/<id>` for secrets. Before a
+ * resource is first touched its current state is recorded; on failure every
+ * recorded resource is restored, most recently touched first.
+ */
+export class Transaction {
+  private client: ApisixClient;
+  private journal: JournalEntry[] = [];
+  private steps: TransactionStep[] = [];
+  private finished = false;
+
+  private constructor(client: ApisixClient) {
+    this.client = client;
+  }
+
+  /**
+   * Run `fn` as a transaction, rolling back if it throws
+   */
+  static async run<T>(
+    client: ApisixClient,
+    fn: (tx: Transaction) => Promise<T>,
+  ): Promise<TransactionReport<T>> {
+    const tx = new Transaction(client);
+    try {
+      const result = await fn(tx);
+      tx.finished = true;
+      return {
+        committed: true,
+        result,
+        steps: tx.steps,
+        rollback: [],
+        unrestored: [],
+      };
+    } catch (error) {
+      tx.finished = true;
+      const rollback = await tx.rollback();
+      return {
+        committed: false,
+        error: error instanceof Error ? error.message : String(error),
+        cause: error,
+        steps: tx.steps,
+        rollback,
+        unrestored: rollback.filter((step) => step.status === "failed"),
+      };
+    }
+  }
+
+  /**
+   * Create a resource, APISIX assigns an ID when the item has none
+   */
+  async create<T = Item>(kind: ConfigKind, item: Item): Promise<T> {
+    if (getResourceKey(kind, item)) {
+      return this.write<T>("create", kind, item, (endpoint, id) =>
+        this.client.create<T>(endpoint, toRequestBody(kind, item), id),
+      );
+    }
+
+    this.assertOpen();
+    const { path } = getResourceLocation(kind, item);
+    const endpoint = this.client.getAdminEndpoint(path);
+    try {
+      const created = await this.client.extractValue(
+        await this.client.create<T>(endpoint, toRequestBody(kind, item)),
+      );
+      const id = String((created as Item).id);
+      // Nothing existed before, so rolling back deletes it
+      this.journal.push({ kind, key: id, endpoint, id });
+      this.steps.push({ kind, id, action: "create", status: "applied" });
+      return created;
+    } catch (error) {
+      this.steps.push({
+        kind,
+        id: "",
+        action: "create",
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Create or replace a resource
+   */
+  async update<T = Item>(kind: ConfigKind, item: Item): Promise<T> {
+    return this.write<T>("update", kind, item, (endpoint, id) =>
+      this.client.update<T>(endpoint, id, toRequestBody(kind, item)),
+    );
+  }
+
+  /**
+   * Partially update a resource
+   */
+  async patch<T = Item>(
+    kind: ConfigKind,
+    key: string,
+    patch: Item,
+  ): Promise<T> {
+    return this.write<T>(
+      "patch",
+      kind,
+      fromResourceKey(kind, key),
+      (endpoint, id) => this.client.partialUpdate<T>(endpoint, id, patch),
+    );
+  }
+
+  /**
+   * Delete a resource
+   *
+   * Deleting a consumer deletes its credentials too, so they are recorded
+   * first and restored after the consumer on rollback.
+   */
+  async delete(kind: ConfigKind, key: string): Promise<void> {
+    this.assertOpen();
+    if (kind === "consumers") await this.recordCredentials(key);
+    await this.write(
+      "delete",
+      kind,
+      fromResourceKey(kind, key),
+      (endpoint, id) => this.client.remove(endpoint, id),
+    );
+  }
+
+  private async write<T>(
+    action: TransactionStep["action"],
+    kind: ConfigKind,
+    item: Item,
+    send: (endpoint: string, id: string) => Promise<ApisixResponse<T>>,
+  ): Promise<T> {
+    this.assertOpen();
+    const key = getResourceKey(kind, item);
+    if (!key) {
+      throw new ApisixValidationError(
+        `A ${getKindInfo(kind).idField} is required to ${action} ${kind}`,
+      );
+    }
+    const { path, id } = getResourceLocation(kind, item);
+    const endpoint = this.client.getAdminEndpoint(path);
+
+    try {
+      await this.record({ kind, key, endpoint, id });
+      const value = await this.client.extractValue(await send(endpoint, id));
+      this.steps.push({ kind, id: key, action, status: "applied" });
+      return value;
+    } catch (error) {
+      this.steps.push({
+        kind,
+        id: key,
+        action,
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Remember the state of a resource before it is first changed
+   *
+   * The entry is journalled before its state is read, so concurrent steps on
+   * the same resource share one read instead of recording each other's write.
+   */
+  private record(
+    target: Omit<JournalEntry, "before" | "recorded">,
+  ): Promise<void> {
+    const existing = this.journal.find(
+      (entry) => entry.kind === target.kind && entry.key === target.key,
+    );
+    if (existing) return existing.recorded ?? Promise.resolve();
+
+    const entry: JournalEntry = { ...target };
+    entry.recorded = this.read(target).then((before) => {
+      entry.before = before;
+    });
+    this.journal.push(entry);
+    return entry.recorded;
+  }
+
+  private async read(
+    target: Omit<JournalEntry, "before" | "recorded">,
+  ): Promise<Item | undefined> {
+    try {
+      return await this.client.extractValue(
+        await this.client.get<ApisixResponse<Item>>(
+          `${target.endpoint}/${target.id}`,
+          undefined,
+          { skipCache: true },
+        ),
+      );
+    } catch (error) {
+      if (!(error instanceof ApisixNotFoundError)) throw error;
+      return undefined;
+    }
+  }
+
+  private async recordCredentials(username: string): Promise<void> {
+    const endpoint = this.client.getAdminEndpoint(
+      `/consumers/${username}/credentials`,
+    );
+    const credentials: Item[] = [];
+    try {
+      for await (const credential of this.client.iterate<Item>(endpoint)) {
+        credentials.push(credential);
+      }
+    } catch (error) {
+      // No such consumer, or credentials are not supported before 3.11
+      if (!(error instanceof ApisixNotFoundError)) throw error;
+    }
+
+    for (const credential of credentials) {
+      const id = String(
+        credential.id ?? getRevision(credential)?.key.split("/").pop(),
+      );
+      await this.record({
+        kind: "credentials",
+        key: `${username}/${id}`,
+        endpoint,
+        id,
+      });
+    }
+  }
+
+  private async rollback(): Promise<RollbackStep[]> {
+    const steps: RollbackStep[] = [];
+    for (const entry of [...this.journal].reverse()) {
+      try {
+        await entry.recorded;
+      } catch {
+        continue; // Never read, so no step went on to change it
+      }
+      const step: RollbackStep = {
+        kind: entry.kind,
+        id: entry.key,
+        action: entry.before ? "restore" : "delete",
+        status: "restored",
+        before: entry.before,
+      };
+      try {
+        if (entry.before) {
+          await this.client.update(
+            entry.endpoint,
+            entry.id,
+            toRestoreBody(entry.kind, entry.before),
+          );
+        } else {
+          await this.client.remove(entry.endpoint, entry.id);
+        }
+      } catch (error) {
+        // Already gone, e.g. the failed step never created it
+        if (!(error instanceof ApisixNotFoundError) || entry.before) {
+          step.status = "failed";
+          step.error = error instanceof Error ? error.message : String(error);
+        }
+      }
+      steps.push(step);
+    }
+    return steps;
+  }
+
+  private assertOpen(): void {
+    if (this.finished) {
+      throw new ApisixValidationError("The transaction has already finished");
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import { Agent, ProxyAgent, fetch as undiciFetch } from "undici";
+import { ApisixValidationError } from "./errors";
+import type { ApisixTransport, ProxyOptions, TLSOptions } from "./types";
+
+export type TransportKind = "fetch" | "custom-fetch" | "dispatcher" | "handler";
+
+export interface ConnectionOptions {
+  tls?: TLSOptions;
+  proxy?: string | ProxyOptions;
+}
+
+/**
+ * HTTP transport shared by every SDK request
+ *
+ * Wraps a custom fetch implementation, an undici dispatcher or an in-process
+ * request handler behind a single fetch-compatible function. TLS and proxy
+ * options are applied through an undici dispatcher created for them.
+ */
+export class Transport {
+  public readonly kind: TransportKind;
+  public readonly fetch: typeof fetch;
+  private dispatcher?: object;
+  private connection?: ConnectionOptions; // Set when the dispatcher is ours
+
+  constructor(
+    options: ApisixTransport = {},
+    connection: ConnectionOptions = {},
+  ) {
+    const { handler } = options;
+
+    if (handler) {
+      this.kind = "handler";
+      this.fetch = async (input, init) => handler(new Request(input, init));
+      return;
+    }
+
+    const ownDispatcher = createDispatcher(connection);
+    if (ownDispatcher && options.dispatcher) {
+      throw new ApisixValidationError(
+        "transport.dispatcher cannot be combined with tls or proxy options",
+      );
+    }
+
+    const dispatcher = ownDispatcher ?? options.dispatcher;
+    if (dispatcher) {
+      // Dispatchers created here belong to the bundled undici, so use its fetch
+      const baseFetch =
+        options.fetch ??
+        (ownDispatcher
+          ? (undiciFetch as unknown as typeof fetch)
+          : globalThis.fetch);
+      this.kind = "dispatcher";
+      this.dispatcher = dispatcher;
+      if (ownDispatcher) this.connection = connection;
+      // Node.js fetch (undici) accepts a `dispatcher` next to the standard init
+      this.fetch = (input, init) =>
+        baseFetch(input, {
+          ...init,
+          dispatcher: this.getDispatcher(),
+        } as RequestInit);
+      return;
+    }
+
+    const baseFetch = options.fetch ?? globalThis.fetch;
+    this.kind = options.fetch ? "custom-fetch" : "fetch";
+    this.fetch = (input, init) => baseFetch(input, init);
+  }
+
+  /**
+   * Close the dispatcher created for TLS or proxy options, releasing its
+   * pooled connections
+   *
+   * The next request creates a fresh dispatcher. A dispatcher passed in
+   * through `transport.dispatcher` belongs to the caller and is left open.
+   */
+  async close(): Promise<void> {
+    if (!this.connection || !this.dispatcher) return;
+
+    const dispatcher = this.dispatcher as { close?: () => Promise<void> };
+    this.dispatcher = undefined;
+    await dispatcher.close?.();
+  }
+
+  private getDispatcher(): object | undefined {
+    if (!this.dispatcher && this.connection) {
+      this.dispatcher = createDispatcher(this.connection);
+    }
+    return this.dispatcher;
+  }
+}
+
+/**
+ * Create an undici dispatcher applying TLS and proxy options, if any
+ */
+function createDispatcher(connection: ConnectionOptions): object | undefined {
+  const { tls, proxy } = connection;
+
+  if (proxy) {
+    const proxyOptions = typeof proxy === "string" ? { url: proxy } : proxy;
+    return new ProxyAgent({
+      uri: proxyOptions.url,
+      token: proxyOptions.token,
+      headers: proxyOptions.headers,
+      requestTls: tls,
+      proxyTls: proxyOptions.tls,
+    });
+  }
+
+  if (tls) {
+    return new Agent({ connect: tls });
+  }
+
+  return undefined;
+}
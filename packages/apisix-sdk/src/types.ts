@@ -1,3 +1,6 @@
+import type { ApisixError } from "./errors";
+import type { ResourceGraph } from "./graph";
+
 // Base types
 export interface ApisixResponse<T> {
   node?: {
@@ -61,6 +64,7 @@ export interface ListOptions {
   fields?: string[];
   exclude_fields?: string[];
   with_count?: boolean;
+  selector?: string; // Label selector, applied client-side
   [key: string]: string | number | boolean | string[] | undefined;
 }
 
@@ -479,17 +483,275 @@ export interface DiscoveryDump {
 
 // Configuration types
 export interface ApisixSDKConfig {
-  adminAPI: {
-    baseURL: string; // Admin API base URL (default: http://127.0.0.1:9180)
+  adminAPI?: {
+    baseURL: string | string[]; // Admin API base URL(s) (default: http://127.0.0.1:9180)
     apiKey?: string;
     timeout?: number;
     headers?: Record<string, string>;
+    tls?: TLSOptions;
+    proxy?: string | ProxyOptions;
+    failover?: FailoverOptions;
+    rateLimit?: RateLimitOptions;
   };
   controlAPI?: {
-    baseURL: string; // Control API base URL (default: http://127.0.0.1:9090)
+    baseURL: string | string[]; // Control API base URL(s) (default: http://127.0.0.1:9090)
     timeout?: number;
     headers?: Record<string, string>;
+    tls?: TLSOptions; // Also applied to Prometheus scraping
+    proxy?: string | ProxyOptions;
+    failover?: FailoverOptions;
+    rateLimit?: RateLimitOptions;
   };
+  hooks?: ApisixHooks | ApisixHooks[];
+  transport?: ApisixTransport;
+  standalone?: StandaloneFileOptions; // Read and write a standalone-mode config file instead of the Admin API
+  retry?: RetryPolicy;
+  cache?: CacheOptions;
+}
+
+// Label selector types
+export interface LabelRequirement {
+  key: string;
+  operator: "exists" | "notexists" | "=" | "!=" | "in" | "notin";
+  values: string[];
+}
+
+// A selector string such as `env in (prod,staging),!deprecated`, or its parsed form
+export type LabelSelector = string | LabelRequirement[];
+
+export interface DeleteManyOptions {
+  force?: boolean;
+}
+
+// Filtering types
+export interface ResourceFilter<T = unknown> {
+  name?: string; // Substring of `name` (server-side on 3.x)
+  label?: string; // Label key, or `key:value` (server-side on 3.x)
+  uri?: string; // Substring of `uri` or any of `uris` (server-side on 3.x)
+  status?: 0 | 1;
+  plugin?: string; // Has this plugin configured
+  host?: string; // Equals `host` or is one of `hosts`
+  method?: string; // One of `methods`, case-insensitive
+  type?: string; // e.g. the upstream load balancing type
+  upstream_id?: string;
+  service_id?: string;
+  plugin_config_id?: string;
+  group_id?: string;
+  created_after?: number; // Unix timestamps in seconds, compared with create_time
+  created_before?: number;
+  updated_after?: number; // Compared with update_time
+  updated_before?: number;
+  selector?: LabelSelector; // Label selector, e.g. `team=payments,!deprecated`
+  where?: (item: T) => boolean; // Arbitrary client-side predicate
+}
+
+export type FilterField = Exclude<keyof ResourceFilter, "where">;
+
+export interface FilterResult<T> {
+  items: T[];
+  pushedDown: FilterField[]; // Sent to APISIX as query parameters
+  clientSide: Array<FilterField | "where">; // Applied to the fetched items
+}
+
+// Bulk mutation types
+export type ResourceSelection<T = unknown> = LabelSelector | ResourceFilter<T>;
+
+// RFC 7386 JSON merge patch: objects merge, `null` removes a key
+export type MergePatch<T> = {
+  [K in keyof T]?:
+    | (NonNullable<T[K]> extends Record<string, unknown>
+        ? MergePatch<NonNullable<T[K]>>
+        : T[K])
+    | null;
+};
+
+export interface BulkOptions extends ModifyOptions {
+  dryRun?: boolean; // Compute the changes without writing them
+  concurrency?: number; // Writes in flight at once, default 5
+}
+
+export interface BulkItemResult<T> {
+  id: string;
+  status: "updated" | "unchanged" | "planned" | "failed";
+  before: T;
+  after?: T;
+  error?: string;
+}
+
+export interface BulkReport<T> {
+  dryRun: boolean;
+  matched: number;
+  updated: number;
+  planned: number;
+  unchanged: number;
+  failed: number;
+  results: BulkItemResult<T>[];
+}
+
+// Optimistic concurrency types
+export interface ResourceRevision {
+  key: string; // etcd key, e.g. /apisix/routes/1
+  createdIndex?: number;
+  modifiedIndex?: number;
+}
+
+export interface ModifyOptions {
+  maxAttempts?: number; // Read-modify-write attempts before the conflict is thrown (default: 5)
+}
+
+// Query cache types
+export interface CacheOptions {
+  ttl?: number; // Default time to live in milliseconds (default: 30000)
+  maxSize?: number; // Maximum number of entries, least recently used go first (default: 1000)
+  staleWhileRevalidate?: number; // Serve expired entries this much longer while refreshing them (default: 0)
+  resourceTTL?: Record<string, number>; // TTL per Admin API resource, e.g. { routes: 5000 }
+}
+
+export interface CacheStats {
+  totalEntries: number;
+  expiredEntries: number;
+  sizeInBytes: number;
+  maxSize: number;
+  hits: number;
+  staleHits: number; // Expired entries served while being revalidated
+  misses: number;
+  evictions: number; // Entries dropped to stay within maxSize
+  invalidations: number; // Entries dropped after a write to the same resource
+}
+
+export interface CoalescingStats {
+  inFlight: number; // Distinct GETs currently awaiting a response
+  requests: number; // GETs that went to the network and could be shared
+  coalesced: number; // GETs answered by joining a request already in flight
+}
+
+// Rate limiting types
+export interface RateLimitOptions {
+  requestsPerSecond?: number; // Token refill rate (default: unlimited)
+  burst?: number; // Bucket size (default: requestsPerSecond rounded up)
+  maxConcurrency?: number; // Requests in flight at once (default: unlimited)
+  adaptive?: boolean; // Slow down and pause on 429/503 responses (default: false)
+  minRequestsPerSecond?: number; // Lower bound of the adaptive rate (default: 1)
+}
+
+export interface RateLimitStats {
+  active: number; // Requests holding a concurrency slot
+  queued: number; // Requests waiting for a token or slot
+  requestsPerSecond?: number; // Current rate, undefined when unlimited
+  throttled: number; // 429/503 responses seen
+  pausedUntil?: number; // Timestamp when an adaptive pause ends
+}
+
+// Retry types
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE" | "HEAD";
+export type RetryJitter = "none" | "full" | "equal";
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  skipCache?: boolean; // Bypass the query cache for GET requests
+  retry?: RetryPolicy | false; // Per-call retry policy, false disables retries
+}
+
+export interface RetryPolicy {
+  maxAttempts?: number; // Total attempts including the first one (default: 3)
+  baseDelay?: number; // Initial backoff in milliseconds (default: 1000)
+  maxDelay?: number; // Upper bound of a single backoff (default: 10000)
+  maxElapsedTime?: number; // Give up once this much time has passed (default: unlimited)
+  jitter?: RetryJitter; // Randomisation of the backoff (default: equal)
+  retryableStatusCodes?: number[]; // Default: 408, 429, 500, 502, 503, 504
+  respectRetryAfter?: boolean; // Wait as long as the Retry-After header asks (default: true)
+  maxRetryAfter?: number; // Upper bound of a Retry-After wait in milliseconds (default: 60000)
+  methods?: Partial<Record<HttpMethod, boolean | RetryPolicy>>; // Per-method rules, POST is disabled by default
+  shouldRetry?: (
+    error: ApisixError,
+    attempt: number,
+  ) => boolean | undefined | Promise<boolean | undefined>; // Return undefined to use the default decision
+}
+
+// Endpoint failover types
+export type EndpointPolicy =
+  | "round-robin"
+  | "primary-secondary"
+  | "least-latency";
+
+export interface FailoverOptions {
+  policy?: EndpointPolicy; // Endpoint selection policy (default: primary-secondary)
+  ejectAfter?: number; // Consecutive failures before ejection (default: 1)
+  cooldown?: number; // Milliseconds an ejected endpoint is skipped (default: 30000)
+  probeInterval?: number; // Active probing interval via Control.isHealthy (admin only, default: disabled)
+}
+
+export interface EndpointStats {
+  url: string;
+  healthy: boolean;
+  failures: number; // Consecutive failures
+  requests: number;
+  latency?: number; // Moving average in milliseconds
+  ejectedUntil?: number; // Timestamp when the cool-down ends
+}
+
+// Transport types
+export type ApisixRequestHandler = (
+  request: Request,
+) => Response | Promise<Response>;
+
+export interface TLSOptions {
+  cert?: string | Buffer; // Client certificate (PEM) for mutual TLS
+  key?: string | Buffer; // Client private key (PEM)
+  passphrase?: string; // Passphrase of the private key
+  ca?: string | Buffer | Array<string | Buffer>; // Trusted CA bundle
+  servername?: string; // SNI server name
+  rejectUnauthorized?: boolean; // Verify the server certificate (default: true)
+}
+
+export interface ProxyOptions {
+  url: string; // HTTP(S) proxy URL
+  token?: string; // Value of the Proxy-Authorization header
+  headers?: Record<string, string>; // Extra headers sent to the proxy
+  tls?: TLSOptions; // TLS options for connecting to an HTTPS proxy
+}
+
+export interface ApisixTransport {
+  fetch?: typeof fetch; // Custom fetch implementation
+  dispatcher?: object; // undici Dispatcher (e.g. Agent) providing connection pooling
+  handler?: ApisixRequestHandler; // In-process handler, no network involved
+}
+
+// Hook types
+export type ApiKind = "admin" | "control";
+
+export interface RequestContext {
+  api: ApiKind;
+  method: string;
+  endpoint: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: Record<string, unknown> | string;
+  params?: Record<string, string | number | boolean | string[] | undefined>;
+  attempt: number; // 1-based attempt number
+  startTime: number;
+  metadata: Record<string, unknown>; // Shared by all hooks of one call
+}
+
+export interface ResponseContext<T = unknown> extends RequestContext {
+  data: T; // Replaceable by onResponse hooks
+  duration: number;
+}
+
+export interface ErrorContext extends RequestContext {
+  error: ApisixError | Error;
+  duration: number;
+}
+
+export interface RetryContext extends ErrorContext {
+  delay: number; // Milliseconds before the next attempt
+}
+
+export interface ApisixHooks {
+  onRequest?: (context: RequestContext) => void | Promise<void>;
+  onResponse?: (context: ResponseContext) => void | Promise<void>;
+  onError?: (context: ErrorContext) => void | Promise<void>;
+  onRetry?: (context: RetryContext) => void | Promise<void>;
 }
 
 // Utility types
@@ -648,6 +910,314 @@ export interface ImportResult {
   }>;
 }
 
+// Declarative configuration types
+export type ConfigKind =
+  | "secrets"
+  | "plugin_metadata"
+  | "protos"
+  | "upstreams"
+  | "ssls"
+  | "services"
+  | "plugin_configs"
+  | "consumer_groups"
+  | "consumers"
+  | "credentials"
+  | "global_rules"
+  | "routes"
+  | "stream_routes";
+
+export type ConfigCredential = Credential & {
+  id: string;
+  consumer: string; // Username of the owning consumer
+};
+
+export type ConfigSecret = Secret & {
+  id: string; // `<manager>/<id>`, e.g. `vault/1`
+};
+
+export type ConfigPluginMetadata = PluginMetadata & {
+  id: string; // Plugin name
+};
+
+// A full gateway configuration, keyed like APISIX's standalone apisix.yaml
+export interface ApisixConfig {
+  secrets?: ConfigSecret[];
+  plugin_metadata?: ConfigPluginMetadata[];
+  protos?: Proto[];
+  upstreams?: Upstream[];
+  ssls?: SSL[];
+  services?: Service[];
+  plugin_configs?: PluginConfig[];
+  consumer_groups?: ConsumerGroup[];
+  consumers?: Consumer[];
+  credentials?: ConfigCredential[];
+  global_rules?: GlobalRule[];
+  routes?: Route[];
+  stream_routes?: StreamRoute[];
+}
+
+export interface ApplyOptions {
+  prune?: boolean; // Delete owned resources missing from the document
+  selector?: LabelSelector; // Ownership selector, required to prune; kinds without labels are never pruned
+  dryRun?: boolean; // Plan without writing
+  concurrency?: number; // Writes in flight per kind, default 5
+}
+
+export interface ApplyChange {
+  kind: ConfigKind;
+  id: string;
+  action: "create" | "update" | "delete";
+  status: "planned" | "applied" | "failed" | "skipped";
+  before?: unknown;
+  after?: unknown;
+  changes: FieldChange[]; // Field-level diff, see sdk.diff()
+  error?: string;
+}
+
+export interface ApplyReport {
+  dryRun: boolean;
+  created: number;
+  updated: number;
+  deleted: number;
+  unchanged: number;
+  failed: number;
+  skipped: number; // Not attempted because an earlier change failed
+  changes: ApplyChange[];
+}
+
+// Diff types
+export interface FieldChange {
+  op: "add" | "remove" | "replace";
+  path: string; // JSON pointer into the resource, "" for the whole resource
+  value?: unknown; // Desired value
+  previous?: unknown; // Live value
+}
+
+export interface ResourceDiff {
+  kind: ConfigKind;
+  id: string;
+  type: "added" | "changed" | "removed";
+  changes: FieldChange[];
+  desired?: unknown; // Normalised desired resource
+  live?: unknown; // Normalised live resource, limited to the fields the document sets
+}
+
+export interface ConfigDiff {
+  added: number;
+  changed: number;
+  removed: number;
+  unchanged: number;
+  entries: ResourceDiff[];
+}
+
+export interface DiffOptions {
+  selector?: LabelSelector; // Only report removals of resources matching it, in kinds with labels
+}
+
+// Snapshot types
+export interface ApisixSnapshot {
+  format: "apisix-sdk/snapshot";
+  version: number; // Archive format version
+  created_at: string; // ISO 8601
+  source: {
+    hostname: string;
+    version: string; // APISIX version the snapshot was taken from
+  };
+  counts: Partial<Record<ConfigKind, number>>;
+  config: ApisixConfig;
+}
+
+export interface SnapshotOptions {
+  kinds?: ConfigKind[]; // Default every kind
+}
+
+export interface RestoreOptions {
+  mode?: "overwrite" | "merge"; // Default "merge"
+  kinds?: ConfigKind[]; // Default every kind in the snapshot
+  dryRun?: boolean;
+  concurrency?: number; // Writes in flight per kind, default 5
+}
+
+// Drift detection types
+export type DriftSeverity = "critical" | "warning" | "info";
+
+export interface ResourceDrift {
+  kind: ConfigKind;
+  id: string;
+  type: "modified" | "extra" | "missing"; // Extra: live but not in the baseline
+  severity: DriftSeverity;
+  changes: FieldChange[]; // Baseline value as `value`, live value as `previous`
+  expected?: unknown; // Normalised baseline resource
+  actual?: unknown; // Normalised live resource
+}
+
+export interface DriftReport {
+  checkedAt: string; // ISO 8601
+  drifted: boolean;
+  inSync: number;
+  modified: number;
+  extra: number;
+  missing: number;
+  severities: Record<DriftSeverity, number>;
+  drifts: ResourceDrift[];
+}
+
+export interface DriftOptions {
+  selector?: LabelSelector; // Only report extra resources matching it, in kinds with labels
+  classify?: (drift: ResourceDrift) => DriftSeverity | undefined; // Overrides the default severity
+  onDrift?: (drift: ResourceDrift) => void | Promise<void>; // Called per drifted resource, e.g. for alerting
+  onError?: (error: unknown) => void; // Failed scheduled checks
+}
+
+// Transaction types
+export interface TransactionStep {
+  kind: ConfigKind;
+  id: string; // Resource key, `consumer/id` for credentials
+  action: "create" | "update" | "patch" | "delete";
+  status: "applied" | "failed";
+  error?: string;
+}
+
+export interface RollbackStep {
+  kind: ConfigKind;
+  id: string;
+  action: "delete" | "restore"; // Delete what the transaction created, restore the rest
+  status: "restored" | "failed";
+  before?: unknown; // State recorded before the transaction first touched it
+  error?: string;
+}
+
+export interface TransactionReport<T = unknown> {
+  committed: boolean;
+  result?: T; // Return value of the transaction function
+  error?: string; // Failure that triggered the rollback
+  cause?: unknown; // The original error
+  steps: TransactionStep[];
+  rollback: RollbackStep[]; // In execution order, most recently touched first
+  unrestored: RollbackStep[]; // Resources left in a changed state
+}
+
+// Standalone mode types
+export interface StandalonePlugin {
+  name: string;
+  stream?: boolean; // Stream (L4) plugin
+}
+
+export interface StandaloneConfig extends ApisixConfig {
+  plugins?: StandalonePlugin[]; // Plugins to load, default the ones in config.yaml
+}
+
+export interface StandaloneFileOptions {
+  path: string; // e.g. conf/apisix.yaml, or conf/apisix.json
+  format?: "yaml" | "json"; // Default from the file extension
+  version?: string; // APISIX version reported to feature detection (default: 3.9.0)
+  lockTimeout?: number; // Milliseconds to wait for the lock file (default: 10000)
+  staleLockTimeout?: number; // Age in milliseconds after which a lock file is considered abandoned (default: 30000)
+}
+
+// Integrity check types
+export interface IntegrityFix {
+  action: "create" | "unset" | "delete";
+  description: string;
+  kind: ConfigKind; // Resource the fix applies to
+  id: string;
+  patch?: Record<string, unknown>; // Merge patch, for fixes that change a resource
+}
+
+export interface IntegrityIssue {
+  type: "dangling" | "orphan";
+  kind: ConfigKind;
+  id: string;
+  field?: string; // Referencing field of a dangling reference
+  target?: { kind: ConfigKind; id: string }; // Resource a dangling reference names
+  message: string;
+  fixes: IntegrityFix[]; // Suggested fixes, most likely first
+}
+
+export interface IntegrityReport {
+  checkedAt: string; // ISO 8601
+  ok: boolean; // No dangling references
+  resources: number;
+  dangling: number;
+  orphans: number;
+  issues: IntegrityIssue[];
+}
+
+// Dependency graph types
+export interface GraphNode {
+  kind: ConfigKind;
+  id: string; // Resource key, `consumer/id` for credentials
+  name?: string;
+  missing?: boolean; // Referenced but not present
+}
+
+export interface GraphEdge {
+  from: { kind: ConfigKind; id: string }; // The referencing resource
+  to: { kind: ConfigKind; id: string }; // The resource it depends on
+  field: string; // Referencing field, e.g. `upstream_id`
+}
+
+export interface GraphQueryOptions {
+  recursive?: boolean; // Follow references transitively
+}
+
+export interface LiveGraphQueryOptions extends GraphQueryOptions {
+  graph?: ResourceGraph; // Query a graph loaded before instead of APISIX
+}
+
+export type DeletePolicy = "refuse" | "cascade" | "force";
+
+export interface SafeDeleteOptions {
+  policy?: DeletePolicy; // Default "refuse"
+  dryRun?: boolean; // Plan the delete without sending it
+}
+
+// Options of a resource manager's `delete()`
+export interface ResourceDeleteOptions extends DeleteManyOptions {
+  safe?: boolean; // Refuse while other resources use it, unless `force`
+}
+
+export interface SafeDeleteResult {
+  target: GraphNode;
+  policy: DeletePolicy;
+  dependents: GraphNode[]; // Everything depending on the target, transitively
+  deleted: GraphNode[]; // In the order they were, or would be, deleted
+  dryRun: boolean;
+}
+
+// Effective plugin types
+export type PluginLayer =
+  | "global_rule"
+  | "service"
+  | "plugin_config"
+  | "route"
+  | "consumer_group"
+  | "consumer";
+
+export interface PluginLayerConfig {
+  layer: PluginLayer;
+  id: string; // ID of the resource providing the layer
+  plugins?: Record<string, unknown>;
+}
+
+export interface EffectivePlugin {
+  name: string;
+  layer: PluginLayer; // Layer whose configuration runs
+  id: string;
+  config: Record<string, unknown>;
+  priority?: number; // Undefined when the schema does not know the plugin
+  overrides: Array<{
+    layer: PluginLayer;
+    id: string;
+    config: Record<string, unknown>;
+  }>; // Lower layers configuring the same plugin, highest first
+  disabled?: boolean; // Turned off through `_meta.disable`
+}
+
+export interface EffectivePluginsOptions {
+  consumer?: string; // Username of the consumer the request authenticates as
+}
+
 // OpenAPI Integration types
 export interface OpenAPIRoute {
   operationId?: string;
@@ -1,4 +1,5 @@
 import type { ApisixClient } from "./client";
+import { ApisixValidationError } from "./errors";
 import type {
   MigrationRecommendations,
   ValidationResult,
@@ -242,7 +243,9 @@ export class VersionManager {
     const targetConfig = this.versionConfigs.get(`${targetMajor}.x`);
 
     if (!targetConfig) {
-      throw new Error(`Unsupported target version: ${targetVersion}`);
+      throw new ApisixValidationError(
+        `Unsupported target version: ${targetVersion}`,
+      );
     }
 
     const newFeatures: string[] = [];
@@ -0,0 +1,915 @@
+import { ApisixValidationError, ApisixYamlError } from "./errors";
+import { CONFIG_KINDS } from "./kinds";
+import type { ApisixConfig } from "./types";
+
+type Item = Record<string, unknown>;
+
+// Characters a plain scalar must not start with
+const INDICATORS = "-?:,[]{}#&*!|>'\"%@`";
+
+const ESCAPES: Record<string, string> = {
+  "0": "\0",
+  a: "\x07",
+  b: "\b",
+  t: "\t",
+  "\t": "\t",
+  n: "\n",
+  v: "\v",
+  f: "\f",
+  r: "\r",
+  e: "\x1b",
+  " ": " ",
+  '"': '"',
+  "/": "/",
+  "\\": "\\",
+  N: "\x85",
+  _: "\xa0",
+  L: "\u2028",
+  P: "\u2029",
+};
+
+const HEX_ESCAPES: Record<string, number> = { x: 2, u: 4, U: 8 };
+
+/**
+ * Parse a YAML text holding at most one document
+ *
+ * Supports the YAML 1.2 core schema: block and flow collections, plain,
+ * quoted and block scalars, comments and document markers. Anchors, aliases,
+ * tags and complex keys are rejected. JSON text parses as well.
+ */
+export function parseYaml(text: string): unknown {
+  const documents = new YamlParser(text).parse();
+  if (documents.length > 1) {
+    throw new YamlParser(text).error(
+      `Expected a single YAML document, found ${documents.length}`,
+      documents[1].offset,
+    );
+  }
+  return documents[0]?.value ?? null;
+}
+
+/**
+ * Parse every document of a multi-document YAML text
+ */
+export function parseYamlDocuments(text: string): unknown[] {
+  return new YamlParser(text).parse().map((document) => document.value);
+}
+
+/**
+ * Serialize a JSON-compatible value as a YAML document
+ *
+ * Strings are quoted only when a plain scalar would read back differently;
+ * multi-line strings such as PEM certificates become literal block scalars.
+ */
+export function stringifyYaml(value: unknown): string {
+  const data = toData(value) ?? null;
+  const lines = isBlockCollection(data)
+    ? renderBlock(data, 0)
+    : [formatScalar(data, 2)];
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Serialize values as documents of one YAML text
+ */
+export function stringifyYamlDocuments(values: unknown[]): string {
+  return values.map((value) => `---\n${stringifyYaml(value)}`).join("");
+}
+
+/**
+ * Read a declarative configuration document from YAML or JSON text
+ * The kind lists of several documents are concatenated, so a configuration
+ * can be split by team or kind
+ */
+export function parseConfig(text: string): ApisixConfig {
+  const config: Record<string, unknown[]> = {};
+  for (const document of parseYamlDocuments(text)) {
+    if (document === null) continue;
+    if (typeof document !== "object" || Array.isArray(document)) {
+      throw new ApisixValidationError(
+        "A configuration document must be a mapping of kinds",
+      );
+    }
+    for (const [kind, items] of Object.entries(document)) {
+      if (items === null) continue;
+      if (!Array.isArray(items)) {
+        throw new ApisixValidationError(`${kind} must be an array`);
+      }
+      config[kind] = [...(config[kind] ?? []), ...(items as unknown[])];
+    }
+  }
+  return config as ApisixConfig;
+}
+
+/**
+ * Serialize a declarative configuration document as YAML, kinds in
+ * dependency order
+ */
+export function stringifyConfig(config: ApisixConfig): string {
+  const ordered: Item = {};
+  for (const { kind } of CONFIG_KINDS) {
+    if (config[kind] !== undefined) ordered[kind] = config[kind];
+  }
+  return stringifyYaml(ordered);
+}
+
+/**
+ * Resolve a plain scalar through the core schema
+ */
+function resolvePlain(text: string): unknown {
+  if (/^(?:~|null|Null|NULL)?$/.test(text)) return null;
+  if (/^(?:true|True|TRUE)$/.test(text)) return true;
+  if (/^(?:false|False|FALSE)$/.test(text)) return false;
+  if (/^0o[0-7]+$/.test(text)) return Number.parseInt(text.slice(2), 8);
+  if (/^0x[0-9a-fA-F]+$/.test(text)) return Number.parseInt(text.slice(2), 16);
+  if (
+    /^[-+]?(?:\.[0-9]+|[0-9]+(?:\.[0-9]*)?)(?:[eE][-+]?[0-9]+)?$/.test(text)
+  ) {
+    return Number(text);
+  }
+  if (/^[-+]?\.(?:inf|Inf|INF)$/.test(text)) {
+    return text.startsWith("-") ? -Infinity : Infinity;
+  }
+  if (/^\.(?:nan|NaN|NAN)$/.test(text)) return Number.NaN;
+  return text;
+}
+
+// End of input, whitespace or a line break
+function isSeparator(char: string | undefined): boolean {
+  return !char || char === " " || char === "\t" || char === "\n";
+}
+
+class YamlParser {
+  private src: string;
+  private pos = 0;
+
+  constructor(text: string) {
+    this.src = text.replace(/^\ufeff/, "").replace(/\r\n?/g, "\n");
+  }
+
+  parse(): Array<{ value: unknown; offset: number }> {
+    const documents: Array<{ value: unknown; offset: number }> = [];
+    this.skipToNextContent();
+    while (!this.eof()) {
+      const offset = this.pos;
+      // Directives such as `%YAML 1.2` precede an explicit document start
+      while (this.column() === 0 && this.peek() === "%") {
+        while (!this.eof() && this.peek() !== "\n") this.pos++;
+        this.skipToNextContent();
+      }
+      if (this.isMarker("...")) {
+        this.pos += 3;
+        this.expectLineEnd();
+        this.skipToNextContent();
+        continue;
+      }
+
+      let value: unknown = null;
+      if (this.isMarker("---")) {
+        this.pos += 3;
+        this.skipSpaces();
+        this.skipComment();
+        if (this.atLineEnd()) {
+          this.skipToNextContent();
+          if (!this.eof() && !this.isMarker("---") && !this.isMarker("...")) {
+            value = this.parseBlockNode(this.column(), -1);
+          }
+        } else {
+          value = this.parseInlineValue(-1);
+        }
+      } else {
+        value = this.parseBlockNode(this.column(), -1);
+      }
+      documents.push({ value, offset });
+
+      this.skipToNextContent();
+      if (this.isMarker("...")) {
+        this.pos += 3;
+        this.expectLineEnd();
+        this.skipToNextContent();
+      } else if (!this.eof() && !this.isMarker("---")) {
+        this.fail("Unexpected content after the end of the document");
+      }
+    }
+    return documents;
+  }
+
+  error(message: string, offset = this.pos): ApisixYamlError {
+    const before = this.src.slice(0, offset);
+    const line = before.split("\n").length;
+    const column = offset - before.lastIndexOf("\n");
+    return new ApisixYamlError(`${message} at line ${line}, column ${column}`, {
+      line,
+      column,
+    });
+  }
+
+  private fail(message: string, offset = this.pos): never {
+    throw this.error(message, offset);
+  }
+
+  private parseBlockNode(indent: number, parentIndent: number): unknown {
+    if (this.isSequenceEntry()) return this.parseBlockSequence(indent);
+    if (this.isMappingKey()) return this.parseBlockMapping(indent);
+    return this.parseInlineValue(parentIndent);
+  }
+
+  private parseBlockSequence(indent: number): unknown[] {
+    const items: unknown[] = [];
+    while (this.column() === indent && this.isSequenceEntry()) {
+      this.pos++;
+      items.push(this.parseSequenceEntry(indent));
+
+      this.skipToNextContent();
+      if (this.eof() || this.isMarker("---") || this.isMarker("...")) break;
+      if (this.column() > indent) {
+        this.fail("Bad indentation of a sequence entry");
+      }
+    }
+    return items;
+  }
+
+  private parseSequenceEntry(indent: number): unknown {
+    this.skipSpaces();
+    this.skipComment();
+    if (this.atLineEnd()) {
+      this.skipToNextContent();
+      if (this.eof() || this.isMarker("---") || this.isMarker("...")) {
+        return null;
+      }
+      const column = this.column();
+      return column > indent ? this.parseBlockNode(column, indent) : null;
+    }
+
+    // Compact nested collection on the entry line, e.g. `- name: x`
+    const column = this.column();
+    if (this.isSequenceEntry()) return this.parseBlockSequence(column);
+    if (this.isMappingKey()) return this.parseBlockMapping(column);
+    return this.parseInlineValue(indent);
+  }
+
+  private parseBlockMapping(indent: number): Item {
+    const result: Item = {};
+    for (;;) {
+      const offset = this.pos;
+      if (this.peek() === "?" && isSeparator(this.peek(1))) {
+        this.fail("Complex mapping keys are not supported");
+      }
+      const key = this.parseMappingKey();
+      if (Object.hasOwn(result, key)) {
+        this.fail(`Duplicate mapping key "${key}"`, offset);
+      }
+      setEntry(result, key, this.parseMappingValue(indent));
+
+      this.skipToNextContent();
+      if (this.eof() || this.isMarker("---") || this.isMarker("...")) break;
+      const column = this.column();
+      if (column < indent) break;
+      if (column > indent) this.fail("Bad indentation of a mapping entry");
+      if (!this.isMappingKey()) this.fail("Expected a mapping key");
+    }
+    return result;
+  }
+
+  private parseMappingKey(): string {
+    const quote = this.peek();
+    const key =
+      quote === '"' || quote === "'"
+        ? this.parseQuoted()
+        : this.readPlainLine(false);
+    this.skipSpaces();
+    if (this.peek() !== ":") this.fail("Expected ':' after a mapping key");
+    this.pos++;
+    return key;
+  }
+
+  private parseMappingValue(indent: number): unknown {
+    this.skipSpaces();
+    this.skipComment();
+    if (!this.atLineEnd()) return this.parseInlineValue(indent);
+
+    this.skipToNextContent();
+    if (this.eof() || this.isMarker("---") || this.isMarker("...")) {
+      return null;
+    }
+    const column = this.column();
+    if (column > indent) return this.parseBlockNode(column, indent);
+    // A sequence may sit at the same indentation as its key
+    if (column === indent && this.isSequenceEntry()) {
+      return this.parseBlockSequence(column);
+    }
+    return null;
+  }
+
+  /**
+   * A scalar or flow collection starting on the current line
+   */
+  private parseInlineValue(parentIndent: number): unknown {
+    const char = this.peek();
+    if (char === "|" || char === ">")
+      return this.parseBlockScalar(parentIndent);
+    this.rejectUnsupported();
+
+    let value: unknown;
+    if (char === "[" || char === "{") {
+      value = this.parseFlow();
+    } else if (char === '"' || char === "'") {
+      value = this.parseQuoted();
+    } else {
+      if (INDICATORS.includes(char) && !/[-?:]/.test(char)) {
+        this.fail(`Unexpected character '${char}'`);
+      }
+      value = resolvePlain(this.parsePlain(parentIndent));
+    }
+
+    this.skipSpaces();
+    if (this.peek() === ":" && isSeparator(this.peek(1))) {
+      this.fail("Nested mappings are not allowed on a single line");
+    }
+    this.expectLineEnd();
+    return value;
+  }
+
+  private parsePlain(parentIndent: number): string {
+    const start = this.pos;
+    let text = this.readPlainLine(false);
+    if (text === "") this.fail("Expected a value", start);
+
+    // Continuation lines indented deeper than the parent fold into the scalar
+    for (;;) {
+      const save = this.pos;
+      this.skipSpaces();
+      if (this.peek() !== "\n") {
+        this.pos = save;
+        break;
+      }
+
+      let breaks = 0;
+      let next = this.pos;
+      while (this.src[next] === "\n") {
+        breaks++;
+        next++;
+        while (this.src[next] === " " || this.src[next] === "\t") next++;
+      }
+      this.pos = next;
+      if (
+        this.eof() ||
+        this.column() <= parentIndent ||
+        this.peek() === "#" ||
+        this.isMarker("---") ||
+        this.isMarker("...")
+      ) {
+        this.pos = save;
+        break;
+      }
+      if (this.isMappingKey()) this.fail("Bad indentation of a mapping entry");
+      const line = this.readPlainLine(false);
+      text += breaks === 1 ? ` ${line}` : `${"\n".repeat(breaks - 1)}${line}`;
+    }
+    return text;
+  }
+
+  /**
+   * Read a plain scalar up to the end of the line or a terminator
+   */
+  private readPlainLine(flow: boolean): string {
+    const start = this.pos;
+    let end = start;
+    while (!this.eof() && this.peek() !== "\n") {
+      const char = this.peek();
+      if (
+        char === ":" &&
+        (isSeparator(this.peek(1)) || (flow && ",[]{}".includes(this.peek(1))))
+      ) {
+        break;
+      }
+      if (char === "#" && this.pos > start && /[ \t]/.test(this.peek(-1))) {
+        break;
+      }
+      if (flow && ",[]{}".includes(char)) break;
+      this.pos++;
+      if (char !== " " && char !== "\t") end = this.pos;
+    }
+    this.pos = end;
+    return this.src.slice(start, end);
+  }
+
+  private parseQuoted(): string {
+    const start = this.pos;
+    const quote = this.peek();
+    this.pos++;
+
+    let result = "";
+    for (;;) {
+      if (this.eof()) this.fail("Unterminated quoted scalar", start);
+      const char = this.peek();
+
+      if (char === quote) {
+        if (quote === "'" && this.peek(1) === "'") {
+          result += "'";
+          this.pos += 2;
+          continue;
+        }
+        this.pos++;
+        return result;
+      }
+
+      if (char === "\\" && quote === '"') {
+        result += this.readEscape();
+      } else if (char === "\n") {
+        // Line folding: a single break becomes a space, empty lines newlines
+        result = result.replace(/[ \t]+$/, "");
+        let breaks = 0;
+        while (this.peek() === "\n") {
+          breaks++;
+          this.pos++;
+          while (this.peek() === " " || this.peek() === "\t") this.pos++;
+        }
+        if (this.isMarker("---") || this.isMarker("...")) {
+          this.fail("Unterminated quoted scalar", start);
+        }
+        result += breaks === 1 ? " " : "\n".repeat(breaks - 1);
+      } else {
+        result += char;
+        this.pos++;
+      }
+    }
+  }
+
+  private readEscape(): string {
+    const start = this.pos;
+    const code = this.peek(1);
+    this.pos += 2;
+
+    if (code === "\n") {
+      // Escaped line break: join the lines without a space
+      while (this.peek() === " " || this.peek() === "\t") this.pos++;
+      return "";
+    }
+    if (ESCAPES[code] !== undefined) return ESCAPES[code];
+
+    const length = HEX_ESCAPES[code];
+    const hex = length ? this.src.slice(this.pos, this.pos + length) : "";
+    if (!length || !/^[0-9a-fA-F]+$/.test(hex) || hex.length !== length) {
+      this.fail(`Invalid escape sequence '\\${code}'`, start);
+    }
+    this.pos += length;
+    return String.fromCodePoint(Number.parseInt(hex, 16));
+  }
+
+  private parseBlockScalar(parentIndent: number): string {
+    const folded = this.peek() === ">";
+    this.pos++;
+
+    let chomping: "clip" | "strip" | "keep" = "clip";
+    let explicit = 0;
+    for (let i = 0; i < 2; i++) {
+      const char = this.peek();
+      if (char === "-" || char === "+") {
+        chomping = char === "-" ? "strip" : "keep";
+        this.pos++;
+      } else if (char >= "1" && char <= "9" && char.length === 1) {
+        explicit = Number(char);
+        this.pos++;
+      }
+    }
+    this.skipSpaces();
+    this.skipComment();
+    if (!this.atLineEnd()) {
+      this.fail("Unexpected content after a block scalar header");
+    }
+    if (this.eof()) return "";
+    this.pos++;
+
+    let indent = explicit ? Math.max(parentIndent, 0) + explicit : -1;
+    const lines: string[] = [];
+    let finalBreak = false;
+    while (!this.eof()) {
+      const lineStart = this.pos;
+      let content = lineStart;
+      while (this.src[content] === " ") content++;
+      const newline = this.src.indexOf("\n", content);
+      const lineEnd = newline === -1 ? this.src.length : newline;
+      const blank = content === lineEnd;
+
+      if (!blank) {
+        if (indent === -1) {
+          indent = content - lineStart;
+          if (indent <= parentIndent) break;
+        }
+        if (content - lineStart < indent) break;
+        if (
+          content === lineStart &&
+          (this.isMarker("---") || this.isMarker("..."))
+        ) {
+          break;
+        }
+      }
+
+      lines.push(
+        indent >= 0 && lineEnd - lineStart > indent
+          ? this.src.slice(lineStart + indent, lineEnd)
+          : "",
+      );
+      finalBreak = newline !== -1;
+      this.pos = newline === -1 ? lineEnd : lineEnd + 1;
+    }
+
+    // Trailing empty lines are subject to chomping
+    let last = lines.length;
+    while (last > 0 && lines[last - 1] === "") last--;
+    const trailing = lines.length - last;
+    const content = lines.slice(0, last);
+    const text = folded ? foldLines(content) : content.join("\n");
+
+    if (chomping === "strip") return text;
+    if (chomping === "keep") {
+      return text + "\n".repeat(trailing + (finalBreak && last > 0 ? 1 : 0));
+    }
+    return last > 0 && (finalBreak || trailing > 0) ? `${text}\n` : text;
+  }
+
+  private parseFlow(): unknown {
+    this.rejectUnsupported();
+    const char = this.peek();
+    if (char === "[") return this.parseFlowSequence();
+    if (char === "{") return this.parseFlowMapping();
+    if (char === '"' || char === "'") return this.parseQuoted();
+
+    const start = this.pos;
+    const text = this.readPlainLine(true);
+    if (text === "") this.fail("Expected a value", start);
+    return resolvePlain(text);
+  }
+
+  private parseFlowSequence(): unknown[] {
+    const start = this.pos;
+    this.pos++;
+    const items: unknown[] = [];
+    for (;;) {
+      this.skipFlowSpace();
+      if (this.eof()) this.fail("Unterminated flow sequence", start);
+      if (this.peek() === "]") {
+        this.pos++;
+        return items;
+      }
+
+      items.push(this.parseFlow());
+      this.skipFlowSpace();
+      if (this.eof()) this.fail("Unterminated flow sequence", start);
+      if (this.peek() === ",") {
+        this.pos++;
+      } else if (this.peek() !== "]") {
+        this.fail("Expected ',' or ']' in a flow sequence");
+      }
+    }
+  }
+
+  private parseFlowMapping(): Item {
+    const start = this.pos;
+    this.pos++;
+    const result: Item = {};
+    for (;;) {
+      this.skipFlowSpace();
+      if (this.eof()) this.fail("Unterminated flow mapping", start);
+      if (this.peek() === "}") {
+        this.pos++;
+        return result;
+      }
+
+      const offset = this.pos;
+      const quote = this.peek();
+      if (quote === "[" || quote === "{") {
+        this.fail("Collections cannot be mapping keys");
+      }
+      const key =
+        quote === '"' || quote === "'"
+          ? this.parseQuoted()
+          : this.readPlainLine(true);
+      if (key === "" && quote !== '"' && quote !== "'") {
+        this.fail("Expected a mapping key");
+      }
+      if (Object.hasOwn(result, key)) {
+        this.fail(`Duplicate mapping key "${key}"`, offset);
+      }
+
+      this.skipFlowSpace();
+      let value: unknown = null;
+      if (this.peek() === ":") {
+        this.pos++;
+        this.skipFlowSpace();
+        if (this.peek() !== "," && this.peek() !== "}") {
+          value = this.parseFlow();
+        }
+      }
+      setEntry(result, key, value);
+
+      this.skipFlowSpace();
+      if (this.eof()) this.fail("Unterminated flow mapping", start);
+      if (this.peek() === ",") {
+        this.pos++;
+      } else if (this.peek() !== "}") {
+        this.fail("Expected ',' or '}' in a flow mapping");
+      }
+    }
+  }
+
+  private rejectUnsupported(): void {
+    const char = this.peek();
+    if (char === "&" || char === "*") {
+      this.fail("Anchors and aliases are not supported");
+    }
+    if (char === "!") this.fail("Tags are not supported");
+  }
+
+  private skipFlowSpace(): void {
+    for (;;) {
+      const char = this.peek();
+      if (char === " " || char === "\t" || char === "\n") {
+        this.pos++;
+      } else if (char === "#") {
+        this.skipComment();
+      } else {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Move past whitespace, comments and empty lines to the next content
+   */
+  private skipToNextContent(): void {
+    for (;;) {
+      this.skipSpaces();
+      this.skipComment();
+      if (this.peek() !== "\n") break;
+      this.pos++;
+    }
+
+    const lineStart = this.src.lastIndexOf("\n", this.pos - 1) + 1;
+    const indentation = this.src.slice(lineStart, this.pos);
+    if (!this.eof() && indentation.includes("\t") && !indentation.trim()) {
+      this.fail("Tabs are not allowed for indentation");
+    }
+  }
+
+  private expectLineEnd(): void {
+    this.skipSpaces();
+    this.skipComment();
+    if (!this.atLineEnd()) this.fail("Unexpected content");
+  }
+
+  private skipSpaces(): void {
+    while (this.peek() === " " || this.peek() === "\t") this.pos++;
+  }
+
+  private skipComment(): void {
+    if (this.peek() !== "#") return;
+    while (!this.eof() && this.peek() !== "\n") this.pos++;
+  }
+
+  private isSequenceEntry(): boolean {
+    return this.peek() === "-" && isSeparator(this.peek(1));
+  }
+
+  /**
+   * Whether the current line starts a `key: value` entry
+   */
+  private isMappingKey(): boolean {
+    const src = this.src;
+    let pos = this.pos;
+    const quote = src[pos];
+
+    if (quote === '"' || quote === "'") {
+      for (pos++; pos < src.length && src[pos] !== "\n"; pos++) {
+        if (src[pos] === "\\" && quote === '"') {
+          pos++;
+        } else if (src[pos] === quote) {
+          if (quote === "'" && src[pos + 1] === "'") {
+            pos++;
+          } else {
+            break;
+          }
+        }
+      }
+      if (src[pos] !== quote) return false;
+      for (pos++; src[pos] === " " || src[pos] === "\t"; pos++);
+      return src[pos] === ":" && isSeparator(src[pos + 1]);
+    }
+
+    if ("[{#|>!&*%@`".includes(quote ?? "#")) return false;
+    if ((quote === "-" || quote === "?") && isSeparator(src[pos + 1])) {
+      return false;
+    }
+    for (; pos < src.length && src[pos] !== "\n"; pos++) {
+      if (src[pos] === ":" && isSeparator(src[pos + 1])) return true;
+      if (src[pos] === "#" && /[ \t]/.test(src[pos - 1])) return false;
+    }
+    return false;
+  }
+
+  private isMarker(marker: "---" | "..."): boolean {
+    return (
+      this.column() === 0 &&
+      this.src.startsWith(marker, this.pos) &&
+      isSeparator(this.src[this.pos + 3])
+    );
+  }
+
+  private atLineEnd(): boolean {
+    return this.eof() || this.peek() === "\n";
+  }
+
+  private column(): number {
+    return this.pos - (this.src.lastIndexOf("\n", this.pos - 1) + 1);
+  }
+
+  private peek(offset = 0): string {
+    return this.src[this.pos + offset] ?? "";
+  }
+
+  private eof(): boolean {
+    return this.pos >= this.src.length;
+  }
+}
+
+function foldLines(lines: string[]): string {
+  let result = "";
+  let breaks = 0;
+  let started = false;
+  let previousIndented = false;
+  for (const line of lines) {
+    if (line === "") {
+      breaks++;
+      continue;
+    }
+    // Breaks around more-indented lines are kept as they are
+    const indented = line.startsWith(" ") || line.startsWith("\t");
+    if (!started) {
+      result += "\n".repeat(breaks);
+    } else if (indented || previousIndented) {
+      result += "\n".repeat(breaks + 1);
+    } else {
+      result += breaks ? "\n".repeat(breaks) : " ";
+    }
+    result += line;
+    breaks = 0;
+    started = true;
+    previousIndented = indented;
+  }
+  return result;
+}
+
+function setEntry(target: Item, key: string, value: unknown): void {
+  // defineProperty keeps a `__proto__` key an ordinary entry
+  Object.defineProperty(target, key, {
+    value,
+    enumerable: true,
+    writable: true,
+    configurable: true,
+  });
+}
+
+/**
+ * The value JSON.stringify would see, undefined for skipped values
+ */
+function toData(value: unknown): unknown {
+  if (
+    value !== null &&
+    typeof value === "object" &&
+    typeof (value as { toJSON?: unknown }).toJSON === "function"
+  ) {
+    return (value as { toJSON: () => unknown }).toJSON();
+  }
+  if (typeof value === "function" || typeof value === "symbol") {
+    return undefined;
+  }
+  return value;
+}
+
+function isBlockCollection(value: unknown): value is Item | unknown[] {
+  if (Array.isArray(value)) return value.length > 0;
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    Object.values(value).some((entry) => toData(entry) !== undefined)
+  );
+}
+
+function renderBlock(value: Item | unknown[], indent: number): string[] {
+  const pad = " ".repeat(indent);
+  const lines: string[] = [];
+
+  if (Array.isArray(value)) {
+    for (const entry of value) {
+      const item = toData(entry) ?? null;
+      if (isBlockCollection(item)) {
+        // The first line of a nested collection shares the dash line
+        const nested = renderBlock(item, indent + 2);
+        nested[0] = `${pad}- ${nested[0].slice(indent + 2)}`;
+        lines.push(...nested);
+      } else {
+        lines.push(`${pad}- ${formatScalar(item, indent + 2)}`);
+      }
+    }
+    return lines;
+  }
+
+  for (const [key, entry] of Object.entries(value)) {
+    const item = toData(entry);
+    if (item === undefined) continue;
+    if (isBlockCollection(item)) {
+      lines.push(`${pad}${formatString(key, indent, true)}:`);
+      lines.push(...renderBlock(item, indent + 2));
+    } else {
+      lines.push(
+        `${pad}${formatString(key, indent, true)}: ${formatScalar(item, indent + 2)}`,
+      );
+    }
+  }
+  return lines;
+}
+
+function formatScalar(value: unknown, indent: number): string {
+  if (value === null || value === undefined) return "null";
+  if (typeof value === "number") {
+    if (Number.isNaN(value)) return ".nan";
+    if (!Number.isFinite(value)) return value > 0 ? ".inf" : "-.inf";
+    return String(value);
+  }
+  if (typeof value === "boolean" || typeof value === "bigint") {
+    return String(value);
+  }
+  if (Array.isArray(value)) return "[]";
+  if (typeof value === "object") return "{}";
+  return formatString(String(value), indent, false);
+}
+
+/**
+ * A string as a plain, double-quoted or literal block scalar
+ *
+ * `indent` is where the lines of a block scalar go.
+ */
+function formatString(text: string, indent: number, key: boolean): string {
+  if (!key && text.includes("\n") && isBlockSafe(text)) {
+    const chomping = text.endsWith("\n\n")
+      ? "+"
+      : text.endsWith("\n")
+        ? ""
+        : "-";
+    const body = chomping === "-" ? text : text.slice(0, -1);
+    const lines = body.split("\n");
+    // The indentation indicator keeps leading spaces of the content
+    const indicator = lines.find((line) => line !== "")?.startsWith(" ")
+      ? "2"
+      : "";
+    const pad = " ".repeat(indent);
+    return [
+      `|${indicator}${chomping}`,
+      ...lines.map((line) => (line ? `${pad}${line}` : "")),
+    ].join("\n");
+  }
+  return needsQuotes(text) ? JSON.stringify(text) : text;
+}
+
+function needsQuotes(text: string): boolean {
+  return (
+    text === "" ||
+    resolvePlain(text) !== text ||
+    INDICATORS.includes(text[0]) ||
+    /^\s|\s$/.test(text) ||
+    text.startsWith("...") ||
+    text.includes(": ") ||
+    text.includes(" #") ||
+    text.endsWith(":") ||
+    hasControlCharacters(text, "")
+  );
+}
+
+function isBlockSafe(text: string): boolean {
+  // Content must survive as lines: no other control characters, no
+  // whitespace-only first line and at least one non-empty line
+  return (
+    !hasControlCharacters(text, "\n\t") &&
+    text.replaceAll("\n", "") !== "" &&
+    text
+      .split("\n")
+      .find((line) => line !== "")
+      ?.trim() !== "" &&
+    !/[ \t]\n*$/.test(text)
+  );
+}
+
+function hasControlCharacters(text: string, allowed: string): boolean {
+  for (const char of text) {
+    const code = char.codePointAt(0) ?? 0;
+    const control =
+      code < 0x20 ||
+      (code >= 0x7f && code <= 0x9f) ||
+      code === 0x2028 ||
+      code === 0x2029 ||
+      code === 0xfeff;
+    if (control && !allowed.includes(char)) return true;
+  }
+  return false;
+}
@@ -0,0 +1,236 @@
+import { describe, expect, it } from "vitest";
+import {
+  ApisixValidationError,
+  type ApisixConfig,
+} from "../../packages/apisix-sdk/src";
+import { createFakeAdmin } from "./test-helpers";
+
+// APISIX fills in route defaults and timestamps
+function createSDK(
+  initial: Record<string, Record<string, unknown>> = {},
+  rejected: string[] = [],
+) {
+  return createFakeAdmin({
+    initial,
+    rejected,
+    timestamp: 1700000000,
+    defaults: (key) =>
+      key.startsWith("routes/") ? { priority: 0, status: 1 } : {},
+  });
+}
+
+describe("APISIX SDK - Declarative Apply", () => {
+  const desired: ApisixConfig = {
+    routes: [
+      {
+        id: "r1",
+        uri: "/pay",
+        service_id: "s1",
+        plugins: { "limit-count": { count: 10 } },
+        labels: { "managed-by": "git" },
+      },
+    ],
+    services: [{ id: "s1", upstream_id: "u1" }],
+    upstreams: [{ id: "u1", type: "roundrobin", nodes: { "127.0.0.1:80": 1 } }],
+    consumers: [{ username: "jack" }],
+    credentials: [
+      { id: "key", consumer: "jack", plugins: { "key-auth": { key: "k" } } },
+    ],
+    secrets: [
+      { id: "vault/1", uri: "http://vault:8200", prefix: "kv", token: "t" },
+    ],
+  };
+
+  it("should create resources in dependency order", async () => {
+    const { sdk, store, writes } = createSDK();
+
+    const report = await sdk.apply(desired);
+
+    expect(report).toMatchObject({ created: 6, updated: 0, failed: 0 });
+    expect(writes).toEqual([
+      "PUT secrets/vault/1",
+      "PUT upstreams/u1",
+      "PUT services/s1",
+      "PUT consumers/jack",
+      "PUT consumers/jack/credentials/key",
+      "PUT routes/r1",
+    ]);
+    expect(store.get("consumers/jack/credentials/key")).not.toHaveProperty(
+      "consumer",
+    );
+  });
+
+  it("should be idempotent despite server-side defaults", async () => {
+    const { sdk, writes } = createSDK();
+    await sdk.apply(desired);
+    writes.length = 0;
+
+    const report = await sdk.apply(desired);
+
+    expect(report).toMatchObject({ created: 0, updated: 0, unchanged: 6 });
+    expect(writes).toEqual([]);
+  });
+
+  it("should update resources whose plugin set changed", async () => {
+    const { sdk, store, writes } = createSDK();
+    await sdk.apply(desired);
+    writes.length = 0;
+
+    const report = await sdk.apply({
+      routes: [{ ...desired.routes![0], plugins: {} }],
+    });
+
+    expect(report.updated).toBe(1);
+    expect(writes).toEqual(["PUT routes/r1"]);
+    expect(store.get("routes/r1")?.plugins).toEqual({});
+  });
+
+  it("should remove fields added out of band", async () => {
+    const { sdk, store, writes } = createSDK();
+    await sdk.apply(desired);
+    store.set("routes/r1", {
+      ...store.get("routes/r1"),
+      hosts: ["a.example.com", "b.example.com"],
+      vars: [["arg_debug", "==", "1"]],
+    });
+    writes.length = 0;
+
+    const report = await sdk.apply({ routes: desired.routes });
+
+    expect(report.changes[0].changes).toEqual([
+      {
+        op: "remove",
+        path: "/hosts",
+        previous: ["a.example.com", "b.example.com"],
+      },
+      { op: "remove", path: "/vars", previous: [["arg_debug", "==", "1"]] },
+    ]);
+    expect(writes).toEqual(["PUT routes/r1"]);
+    expect(store.get("routes/r1")).not.toHaveProperty("hosts");
+    expect(store.get("routes/r1")).not.toHaveProperty("vars");
+  });
+
+  it("should remove fields dropped from a plugin configuration", async () => {
+    const { sdk, store, writes } = createSDK();
+    await sdk.apply({
+      routes: [
+        {
+          ...desired.routes![0],
+          plugins: { "limit-count": { count: 10, time_window: 60 } },
+        },
+      ],
+    });
+    writes.length = 0;
+
+    const report = await sdk.apply({ routes: desired.routes });
+
+    expect(report.changes[0].changes).toEqual([
+      {
+        op: "remove",
+        path: "/plugins/limit-count/time_window",
+        previous: 60,
+      },
+    ]);
+    expect(writes).toEqual(["PUT routes/r1"]);
+    expect(store.get("routes/r1")?.plugins).toEqual({
+      "limit-count": { count: 10 },
+    });
+  });
+
+  it("should prune only owned resources of the listed kinds", async () => {
+    const { sdk, store, writes } = createSDK({
+      "routes/old": { id: "old", uri: "/old", labels: { "managed-by": "git" } },
+      "routes/manual": { id: "manual", uri: "/manual" },
+      "upstreams/old": { id: "old", labels: { "managed-by": "git" } },
+    });
+
+    const report = await sdk.apply(
+      { routes: [] },
+      { prune: true, selector: "managed-by=git" },
+    );
+
+    expect(report.deleted).toBe(1);
+    expect(writes).toEqual(["DELETE routes/old"]);
+    expect([...store.keys()]).toEqual(["routes/manual", "upstreams/old"]);
+  });
+
+  it("should never prune kinds without labels", async () => {
+    const { sdk, store, writes } = createSDK({
+      "routes/manual": { id: "manual", uri: "/manual" },
+      "routes/owned": { id: "owned", uri: "/owned", labels: { owner: "ops" } },
+      "global_rules/gr1": { id: "gr1", plugins: { prometheus: {} } },
+      "plugin_metadata/http-logger": { id: "http-logger", log_format: {} },
+    });
+
+    const report = await sdk.apply(
+      { routes: [], global_rules: [], plugin_metadata: [] },
+      { prune: true, selector: "!owner" },
+    );
+
+    expect(report.deleted).toBe(1);
+    expect(writes).toEqual(["DELETE routes/manual"]);
+    expect([...store.keys()]).toEqual([
+      "routes/owned",
+      "global_rules/gr1",
+      "plugin_metadata/http-logger",
+    ]);
+  });
+
+  it("should delete dependents before their dependencies", async () => {
+    const owned = { labels: { "managed-by": "git" } };
+    const { sdk, writes } = createSDK({
+      "upstreams/u": { id: "u", ...owned },
+      "services/s": { id: "s", upstream_id: "u", ...owned },
+      "routes/r": { id: "r", service_id: "s", ...owned },
+    });
+
+    await sdk.apply(
+      { upstreams: [], services: [], routes: [] },
+      { prune: true, selector: "managed-by=git" },
+    );
+
+    expect(writes).toEqual([
+      "DELETE routes/r",
+      "DELETE services/s",
+      "DELETE upstreams/u",
+    ]);
+  });
+
+  it("should refuse to prune without an ownership selector", async () => {
+    const { sdk } = createSDK();
+
+    await expect(sdk.apply({ routes: [] }, { prune: true })).rejects.toThrow(
+      ApisixValidationError,
+    );
+    await expect(
+      sdk.apply({ routes: [{ uri: "/no-id" }] }),
+    ).rejects.toBeInstanceOf(ApisixValidationError);
+  });
+
+  it("should plan without writing on dry-run", async () => {
+    const { sdk, writes } = createSDK();
+
+    const report = await sdk.apply(desired, { dryRun: true });
+
+    expect(writes).toEqual([]);
+    expect(report.created).toBe(6);
+    expect(report.changes.every((change) => change.status === "planned")).toBe(
+      true,
+    );
+  });
+
+  it("should skip later changes after a failure", async () => {
+    const { sdk, writes } = createSDK({}, ["services/s1"]);
+
+    const report = await sdk.apply(desired);
+
+    expect(report).toMatchObject({ failed: 1, skipped: 3 });
+    expect(writes).not.toContain("PUT routes/r1");
+    expect(
+      report.changes.find((change) => change.kind === "services"),
+    ).toMatchObject({
+      status: "failed",
+      error: expect.stringContaining("invalid"),
+    });
+  });
+});
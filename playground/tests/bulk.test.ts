@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { applyMergePatch } from "../../packages/apisix-sdk/src";
+import { createFakeAdmin } from "./test-helpers";
+
+// Revisioned routes whose writes are slow enough to overlap
+function createSDK(rejected: string[] = []) {
+  return createFakeAdmin({
+    rejected,
+    writeDelay: 10,
+    initial: {
+      "routes/1": {
+        id: "1",
+        uri: "/payments/charge",
+        labels: { env: "prod" },
+        plugins: { "proxy-mirror": {} },
+      },
+      "routes/2": {
+        id: "2",
+        uri: "/payments/refund",
+        labels: { env: "prod", owner: "team-x" },
+      },
+      "routes/3": {
+        id: "3",
+        uri: "/payments/report",
+        labels: { env: "dev" },
+        plugins: { "proxy-mirror": {} },
+      },
+      "routes/4": { id: "4", uri: "/orders", labels: { env: "prod" } },
+    },
+  });
+}
+
+describe("APISIX SDK - Bulk Mutations", () => {
+  it("should set labels on every route matching a filter", async () => {
+    const { sdk, store, writes } = createSDK();
+
+    const report = await sdk.routes.setLabelsOnMany(
+      { uri: "/payments" },
+      { owner: "team-x" },
+    );
+
+    expect(report).toMatchObject({
+      dryRun: false,
+      matched: 3,
+      updated: 2,
+      unchanged: 1,
+      failed: 0,
+    });
+    expect(writes.sort()).toEqual(["PUT routes/1", "PUT routes/3"]);
+    expect(store.get("routes/1")?.labels).toEqual({
+      env: "prod",
+      owner: "team-x",
+    });
+    expect(store.get("routes/4")?.labels).toEqual({ env: "prod" });
+  });
+
+  it("should preview changes without writing on dry-run", async () => {
+    const { sdk, writes } = createSDK();
+
+    const report = await sdk.routes.removePluginFromMany(
+      "env=prod",
+      "proxy-mirror",
+      { dryRun: true },
+    );
+
+    expect(writes).toEqual([]);
+    expect(report).toMatchObject({ dryRun: true, planned: 1, unchanged: 2 });
+    const [planned] = report.results.filter(
+      (result) => result.status === "planned",
+    );
+    expect(planned.id).toBe("1");
+    expect(planned.before.plugins).toEqual({ "proxy-mirror": {} });
+    expect(planned.after?.plugins).toEqual({});
+  });
+
+  it("should cap concurrent writes", async () => {
+    const { sdk, stats } = createSDK();
+
+    const report = await sdk.routes.addPluginToMany(
+      "",
+      "prometheus",
+      {},
+      { concurrency: 2 },
+    );
+
+    expect(report.updated).toBe(4);
+    expect(stats.maxActive).toBe(2);
+  });
+
+  it("should report per-item failures and keep going", async () => {
+    const { sdk, store } = createSDK(["routes/2"]);
+
+    const report = await sdk.routes.updateMany(
+      { uri: "/payments" },
+      { labels: { env: null, tier: "gold" } },
+    );
+
+    expect(report).toMatchObject({ updated: 2, failed: 1 });
+    expect(report.results.find((result) => result.id === "2")).toMatchObject({
+      status: "failed",
+      error: expect.stringContaining("invalid"),
+    });
+    expect(store.get("routes/3")?.labels).toEqual({ tier: "gold" });
+  });
+
+  it("should apply JSON merge patches", () => {
+    expect(
+      applyMergePatch(
+        { a: 1, nested: { keep: true, drop: 1 }, list: [1, 2] },
+        { nested: { drop: null, add: "x" }, list: [3], b: 2 },
+      ),
+    ).toEqual({ a: 1, nested: { keep: true, add: "x" }, list: [3], b: 2 });
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { type CacheOptions } from "../../packages/apisix-sdk/src";
+import { createFakeAdmin } from "./test-helpers";
+
+function createSDK(cache?: CacheOptions) {
+  return createFakeAdmin({
+    initial: {
+      "routes/1": { id: "1", uri: "/one" },
+      "routes/2": { id: "2", uri: "/two" },
+    },
+    config: { cache },
+  });
+}
+
+describe("APISIX SDK - Query Cache", () => {
+  it("should invalidate the written item and lists but keep other items", async () => {
+    const { sdk, reads } = createSDK();
+    await sdk.getVersion();
+
+    await sdk.routes.list();
+    await sdk.routes.get("1");
+    await sdk.routes.get("2");
+    await sdk.routes.update("1", { uri: "/updated" });
+
+    expect((await sdk.routes.get("1")).uri).toBe("/updated");
+    expect((await sdk.routes.list()).map((route) => route.uri)).toEqual([
+      "/updated",
+      "/two",
+    ]);
+    await sdk.routes.get("2");
+
+    expect(reads).toEqual([
+      "routes",
+      "routes/1",
+      "routes/2",
+      "routes/1",
+      "routes",
+    ]);
+    expect(sdk.getClient().getCacheStats()).toMatchObject({
+      invalidations: 2,
+      hits: 1,
+    });
+  });
+
+  it("should invalidate after deletes", async () => {
+    const { sdk } = createSDK();
+
+    await sdk.routes.list();
+    await sdk.routes.delete("2");
+
+    expect(await sdk.routes.list()).toHaveLength(1);
+  });
+
+  it("should evict the least recently used entries beyond maxSize", async () => {
+    const { sdk, reads } = createSDK({ maxSize: 2 });
+    await sdk.getVersion();
+    sdk.getClient().clearCache();
+    reads.length = 0;
+
+    await sdk.routes.get("1");
+    await sdk.routes.get("2");
+    await sdk.routes.get("1"); // Route 1 becomes the most recently used
+    await sdk.routes.list(); // Evicts route 2
+    await sdk.routes.get("1");
+    await sdk.routes.get("2");
+
+    expect(reads).toEqual(["routes/1", "routes/2", "routes", "routes/2"]);
+    expect(sdk.getClient().getCacheStats()).toMatchObject({
+      totalEntries: 2,
+      maxSize: 2,
+      hits: 2,
+      misses: 5, // Including the version lookup
+      evictions: 2,
+    });
+  });
+
+  it("should apply per-resource TTLs", async () => {
+    const { sdk, reads } = createSDK({ resourceTTL: { routes: 20 } });
+
+    await sdk.routes.get("1");
+    await new Promise((resolve) => setTimeout(resolve, 40));
+    await sdk.routes.get("1");
+
+    expect(reads).toHaveLength(2);
+  });
+
+  it("should serve stale entries while revalidating them", async () => {
+    const { sdk, store, reads } = createSDK({
+      resourceTTL: { routes: 20 },
+      staleWhileRevalidate: 60000,
+    });
+
+    await sdk.routes.get("1");
+    await new Promise((resolve) => setTimeout(resolve, 40));
+    store.set("routes/1", { id: "1", uri: "/changed" });
+
+    expect((await sdk.routes.get("1")).uri).toBe("/one");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect((await sdk.routes.get("1")).uri).toBe("/changed");
+
+    expect(reads).toHaveLength(2);
+    expect(sdk.getClient().getCacheStats()).toMatchObject({
+      staleHits: 1,
+      hits: 1,
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { ApisixNotFoundError } from "../../packages/apisix-sdk/src";
+import { createFakeAdmin } from "./test-helpers";
+
+function createSDK() {
+  return createFakeAdmin({
+    initial: {
+      "routes/1": { id: "1", uri: "/one" },
+      "routes/2": { id: "2", uri: "/two" },
+    },
+    readDelay: 20,
+  });
+}
+
+describe("APISIX SDK - Request Coalescing", () => {
+  it("should share one network call between identical concurrent GETs", async () => {
+    const { sdk, reads } = createSDK();
+    await sdk.getVersion();
+
+    const routes = await Promise.all(
+      Array.from({ length: 5 }, () => sdk.routes.get("1")),
+    );
+
+    expect(reads).toEqual(["routes/1"]);
+    expect(new Set(routes.map((route) => route.uri))).toEqual(
+      new Set(["/one"]),
+    );
+    expect(sdk.getClient().getCoalescingStats()).toMatchObject({
+      inFlight: 0,
+      coalesced: 4,
+    });
+  });
+
+  it("should share failures with every awaiter", async () => {
+    const { sdk, reads } = createSDK();
+    await sdk.getVersion();
+
+    const results = await Promise.allSettled([
+      sdk.routes.get("missing"),
+      sdk.routes.get("missing"),
+    ]);
+
+    expect(reads).toHaveLength(1);
+    for (const result of results) {
+      expect(result.status).toBe("rejected");
+      expect((result as PromiseRejectedResult).reason).toBeInstanceOf(
+        ApisixNotFoundError,
+      );
+    }
+  });
+
+  it("should not join a GET started before a write", async () => {
+    const { sdk, reads } = createSDK();
+    await sdk.getVersion();
+
+    const before = sdk.routes.get("1");
+    await sdk.routes.update("1", { uri: "/updated" });
+    const after = sdk.routes.get("1");
+
+    await Promise.all([before, after]);
+    expect(reads).toHaveLength(2);
+  });
+
+  it("should not coalesce requests carrying their own abort signal", async () => {
+    const { sdk, reads } = createSDK();
+    await sdk.getVersion();
+    const client = sdk.getClient();
+
+    await Promise.all([
+      client.get("/apisix/admin/routes/2"),
+      client.get("/apisix/admin/routes/2", undefined, {
+        signal: new AbortController().signal,
+      }),
+    ]);
+
+    expect(reads).toHaveLength(2);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import {
+  ApisixRevisionConflictError,
+  ApisixValidationError,
+  getRevision,
+  type Route,
+} from "../../packages/apisix-sdk/src";
+import { createFakeAdmin } from "./test-helpers";
+
+function createSDK() {
+  const { sdk, writes, change } = createFakeAdmin({
+    initial: { "routes/1": { uri: "/one" } },
+  });
+  // Another client editing the route
+  const externalWrite = (uri: string) => change("routes/1", { uri });
+  return { sdk, writes, externalWrite };
+}
+
+describe("APISIX SDK - Optimistic Concurrency", () => {
+  it("should expose revision metadata without serialising it", async () => {
+    const { sdk } = createSDK();
+
+    const route = await sdk.routes.get("1");
+
+    expect(getRevision(route)).toEqual({
+      key: "/apisix/routes/1",
+      createdIndex: 1,
+      modifiedIndex: 1,
+    });
+    expect(JSON.parse(JSON.stringify(route))).toEqual({ id: "1", uri: "/one" });
+  });
+
+  it("should update when the revision still matches", async () => {
+    const { sdk, writes } = createSDK();
+
+    const route = await sdk.routes.get("1");
+    const updated = await sdk.routes.updateIfMatch("1", {
+      ...route,
+      uri: "/mine",
+    });
+
+    expect(updated.uri).toBe("/mine");
+    expect(getRevision(updated)?.modifiedIndex).toBe(2);
+    expect(writes).toEqual(["PUT routes/1"]);
+  });
+
+  it("should fail with a conflict error after a concurrent change", async () => {
+    const { sdk, writes, externalWrite } = createSDK();
+
+    const route = await sdk.routes.get("1");
+    externalWrite("/theirs");
+
+    const error = await sdk.routes
+      .patchIfMatch("1", { uri: "/mine" }, getRevision(route)?.modifiedIndex)
+      .catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(ApisixRevisionConflictError);
+    expect(error).toMatchObject({
+      status: 409,
+      expectedRevision: 1,
+      currentRevision: 2,
+    });
+    expect(writes).toEqual([]);
+  });
+
+  it("should require a revision to compare against", async () => {
+    const { sdk } = createSDK();
+
+    await expect(
+      sdk.routes.updateIfMatch("1", { uri: "/mine" }),
+    ).rejects.toBeInstanceOf(ApisixValidationError);
+  });
+
+  it("should re-read and retry modify on conflict", async () => {
+    const { sdk, externalWrite } = createSDK();
+    const seen: Array<string | undefined> = [];
+
+    const route = await sdk.routes.modify("1", (current: Route) => {
+      seen.push(current.uri);
+      if (seen.length === 1) {
+        externalWrite("/theirs");
+      }
+      return { ...current, desc: `based on ${current.uri}` };
+    });
+
+    expect(seen).toEqual(["/one", "/theirs"]);
+    expect(route).toMatchObject({ uri: "/theirs", desc: "based on /theirs" });
+  });
+
+  it("should give up modify after maxAttempts", async () => {
+    const { sdk, externalWrite } = createSDK();
+
+    await expect(
+      sdk.routes.modify(
+        "1",
+        (current) => {
+          externalWrite("/theirs");
+          return current;
+        },
+        { maxAttempts: 2 },
+      ),
+    ).rejects.toBeInstanceOf(ApisixRevisionConflictError);
+  });
+});
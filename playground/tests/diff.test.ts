@@ -0,0 +1,263 @@
+import { describe, expect, it } from "vitest";
+import { diffConfig, formatDiff } from "../../packages/apisix-sdk/src";
+import { createFakeAdmin } from "./test-helpers";
+
+describe("APISIX SDK - Configuration Diff", () => {
+  it("should ignore server-managed fields and equivalent shapes", () => {
+    const diff = diffConfig(
+      {
+        upstreams: [
+          {
+            id: "u1",
+            type: "roundrobin",
+            nodes: { "10.0.0.2:80": 1, "10.0.0.1:80": 2 },
+          },
+        ],
+        routes: [{ id: "r1", uri: "/a", upstream_id: "u1" }],
+      },
+      {
+        upstreams: [
+          {
+            id: "u1",
+            type: "roundrobin",
+            nodes: [
+              { host: "10.0.0.1", port: 80, weight: 2, priority: 0 },
+              { host: "10.0.0.2", port: 80, weight: 1, priority: 0 },
+            ],
+            create_time: 1700000000,
+            update_time: 1700000001,
+          },
+        ],
+        routes: [{ id: "r1", uris: ["/a"], upstream_id: "u1", priority: 0 }],
+      },
+    );
+
+    expect(diff).toMatchObject({ added: 0, changed: 0, unchanged: 2 });
+  });
+
+  it("should report field-level changes as JSON pointers", () => {
+    const diff = diffConfig(
+      {
+        routes: [
+          {
+            id: "r1",
+            uri: "/b",
+            plugins: { "limit-count": { count: 20 } },
+            labels: { "team/owner": "payments" },
+          },
+        ],
+      },
+      {
+        routes: [
+          {
+            id: "r1",
+            uri: "/a",
+            plugins: {
+              "limit-count": { count: 10, policy: "local" },
+              "proxy-mirror": { host: "http://mirror" },
+            },
+          },
+        ],
+      },
+    );
+
+    expect(diff.entries).toHaveLength(1);
+    expect(diff.entries[0]).toMatchObject({
+      kind: "routes",
+      id: "r1",
+      type: "changed",
+    });
+    expect(diff.entries[0].changes).toEqual([
+      { op: "replace", path: "/uri", value: "/b", previous: "/a" },
+      {
+        op: "replace",
+        path: "/plugins/limit-count/count",
+        value: 20,
+        previous: 10,
+      },
+      {
+        op: "remove",
+        path: "/plugins/proxy-mirror",
+        previous: { host: "http://mirror" },
+      },
+      { op: "add", path: "/labels", value: { "team/owner": "payments" } },
+    ]);
+  });
+
+  it("should remove fields added out of band unless they are defaults", () => {
+    const diff = diffConfig(
+      { routes: [{ id: "r1", uri: "/a", status: 0 }] },
+      {
+        routes: [
+          {
+            id: "r1",
+            uri: "/a",
+            hosts: ["internal.example.com"],
+            vars: [["arg_debug", "==", "1"]],
+            priority: 0,
+            status: 0,
+          },
+        ],
+      },
+    );
+
+    expect(diff.entries[0].changes).toEqual([
+      { op: "remove", path: "/vars", previous: [["arg_debug", "==", "1"]] },
+      { op: "remove", path: "/host", previous: "internal.example.com" },
+    ]);
+    expect(diff.entries[0].live).toEqual({
+      uri: "/a",
+      vars: [["arg_debug", "==", "1"]],
+      status: 0,
+      host: "internal.example.com",
+    });
+  });
+
+  it("should remove nested fields unless they are schema defaults", () => {
+    const diff = diffConfig(
+      {
+        routes: [
+          {
+            id: "r1",
+            uri: "/a",
+            plugins: { cors: { allow_methods: "GET" } },
+            upstream: { nodes: { "10.0.0.1:80": 1 } },
+          },
+        ],
+        upstreams: [
+          {
+            id: "u1",
+            nodes: { "10.0.0.2:80": 1 },
+            checks: { active: { http_path: "/health" } },
+          },
+        ],
+      },
+      {
+        routes: [
+          {
+            id: "r1",
+            uri: "/a",
+            plugins: {
+              cors: {
+                allow_methods: "GET",
+                allow_origins: "https://example.com",
+                allow_headers: "*",
+                max_age: 5,
+              },
+            },
+            upstream: {
+              type: "roundrobin",
+              nodes: [{ host: "10.0.0.1", port: 80, weight: 1, priority: 0 }],
+              timeout: { connect: 1, send: 1, read: 1 },
+            },
+          },
+        ],
+        upstreams: [
+          {
+            id: "u1",
+            type: "roundrobin",
+            nodes: { "10.0.0.2:80": 1 },
+            checks: {
+              active: {
+                type: "http",
+                http_path: "/health",
+                timeout: 1,
+                healthy: { interval: 1, successes: 2 },
+                unhealthy: { interval: 1, http_failures: 5 },
+              },
+            },
+          },
+        ],
+      },
+    );
+
+    expect(diff).toMatchObject({ changed: 1, unchanged: 1 });
+    expect(diff.entries[0].changes).toEqual([
+      {
+        op: "remove",
+        path: "/plugins/cors/allow_origins",
+        previous: "https://example.com",
+      },
+      {
+        op: "remove",
+        path: "/upstream/timeout",
+        previous: { connect: 1, send: 1, read: 1 },
+      },
+    ]);
+  });
+
+  it("should render a unified diff", () => {
+    const diff = diffConfig(
+      {
+        routes: [
+          { id: "r1", uri: "/a", plugins: { "limit-count": { count: 20 } } },
+          { id: "r2", uri: "/new" },
+        ],
+      },
+      {
+        routes: [
+          {
+            id: "r1",
+            uri: "/a",
+            priority: 0,
+            plugins: { "limit-count": { count: 10, policy: "local" } },
+          },
+        ],
+      },
+    );
+
+    expect(formatDiff(diff)).toBe(
+      [
+        "--- live/routes/r1",
+        "+++ desired/routes/r1",
+        "@@ -1,7 +1,7 @@",
+        " {",
+        '   "plugins": {',
+        '     "limit-count": {',
+        '-      "count": 10',
+        '+      "count": 20',
+        "     }",
+        "   },",
+        '   "uri": "/a"',
+        "--- /dev/null",
+        "+++ desired/routes/r2",
+        "@@ -0,0 +1,3 @@",
+        "+{",
+        '+  "uri": "/new"',
+        "+}",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("should diff against the live gateway", async () => {
+    const { sdk } = createFakeAdmin({
+      initial: {
+        "routes/r1": { id: "r1", uri: "/same", labels: { owner: "git" } },
+        "routes/r2": { id: "r2", uri: "/old", labels: { owner: "git" } },
+        "routes/r3": { id: "r3", uri: "/manual" },
+      },
+    });
+
+    const diff = await sdk.diff(
+      {
+        routes: [
+          { id: "r1", uri: "/same", labels: { owner: "git" } },
+          { id: "r4", uri: "/added", labels: { owner: "git" } },
+        ],
+      },
+      { selector: "owner=git" },
+    );
+
+    expect(diff).toMatchObject({
+      added: 1,
+      changed: 0,
+      removed: 1,
+      unchanged: 1,
+    });
+    expect(diff.entries.map((entry) => `${entry.type} ${entry.id}`)).toEqual([
+      "added r4",
+      "removed r2",
+    ]);
+  });
+});
@@ -0,0 +1,224 @@
+import { describe, expect, it } from "vitest";
+import {
+  type ApisixConfig,
+  type ResourceDrift,
+} from "../../packages/apisix-sdk/src";
+import { createFakeAdmin } from "./test-helpers";
+
+describe("APISIX SDK - Drift Detection", () => {
+  const baseline: ApisixConfig = {
+    upstreams: [
+      { id: "u1", nodes: { "10.0.0.1:80": 1 } },
+      { id: "u2", nodes: { "10.0.0.2:80": 1 } },
+    ],
+    routes: [
+      {
+        id: "pay",
+        uri: "/pay",
+        upstream_id: "u1",
+        desc: "payments",
+        plugins: { "key-auth": {} },
+        labels: { team: "pay" },
+      },
+      { id: "docs", uri: "/docs", upstream_id: "u1", desc: "docs" },
+    ],
+  };
+
+  const live = {
+    "upstreams/u1": {
+      id: "u1",
+      nodes: [{ host: "10.0.0.1", port: 80, weight: 1 }],
+    },
+    "routes/pay": {
+      id: "pay",
+      uri: "/pay",
+      upstream_id: "u1",
+      desc: "payments",
+      plugins: {},
+      labels: { team: "pay" },
+      priority: 0,
+    },
+    "routes/docs": {
+      id: "docs",
+      uri: "/docs",
+      upstream_id: "u1",
+      desc: "hotfix",
+    },
+    "routes/debug": { id: "debug", uri: "/debug", labels: { team: "pay" } },
+  };
+
+  it("should classify modified, extra and missing resources", async () => {
+    const { sdk } = createFakeAdmin({ initial: live });
+
+    const report = await sdk.detectDrift(baseline);
+
+    expect(report).toMatchObject({
+      drifted: true,
+      inSync: 1,
+      modified: 2,
+      extra: 1,
+      missing: 1,
+      severities: { critical: 2, warning: 1, info: 1 },
+    });
+    expect(
+      report.drifts.map((drift) => [drift.type, drift.id, drift.severity]),
+    ).toEqual([
+      ["missing", "u2", "critical"],
+      ["modified", "pay", "critical"],
+      ["modified", "docs", "info"],
+      ["extra", "debug", "warning"],
+    ]);
+    expect(report.drifts[1].changes).toEqual([
+      { op: "add", path: "/plugins/key-auth", value: {} },
+    ]);
+    expect(JSON.parse(JSON.stringify(report))).toEqual(report);
+  });
+
+  it("should call back per drifted resource with custom severities", async () => {
+    const { sdk } = createFakeAdmin({ initial: live });
+    const alerts: string[] = [];
+
+    const report = await sdk.detectDrift(baseline, {
+      selector: "team=ops",
+      classify: (drift) => (drift.kind === "upstreams" ? "warning" : undefined),
+      onDrift: (drift) => {
+        alerts.push(`${drift.severity}: ${drift.kind}/${drift.id}`);
+      },
+    });
+
+    expect(report.extra).toBe(0);
+    expect(alerts).toEqual([
+      "warning: upstreams/u2",
+      "critical: routes/pay",
+      "info: routes/docs",
+    ]);
+  });
+
+  it("should report no drift for a matching gateway", async () => {
+    const { sdk } = createFakeAdmin({
+      initial: {
+        "routes/docs": {
+          id: "docs",
+          uri: "/docs",
+          upstream_id: "u1",
+          desc: "docs",
+        },
+      },
+    });
+
+    const report = await sdk.detectDrift({ routes: [baseline.routes![1]] });
+
+    expect(report).toMatchObject({ drifted: false, inSync: 1, drifts: [] });
+  });
+
+  it("should flag fields added to a live resource", async () => {
+    const filter = "function(vars) return vars.arg_admin == '1' end";
+    const { sdk } = createFakeAdmin({
+      initial: {
+        "routes/docs": {
+          id: "docs",
+          uri: "/docs",
+          upstream_id: "u1",
+          desc: "docs",
+          remote_addrs: ["10.0.0.0/8"],
+          filter_func: filter,
+          priority: 0,
+          status: 1,
+        },
+      },
+    });
+
+    const report = await sdk.detectDrift({ routes: [baseline.routes![1]] });
+
+    expect(report).toMatchObject({ drifted: true, modified: 1 });
+    expect(report.drifts[0]).toMatchObject({
+      type: "modified",
+      id: "docs",
+      severity: "warning",
+      changes: [
+        { op: "remove", path: "/remote_addrs", previous: ["10.0.0.0/8"] },
+        { op: "remove", path: "/filter_func", previous: filter },
+      ],
+    });
+  });
+
+  it("should flag fields added inside plugins and upstreams", async () => {
+    const { sdk } = createFakeAdmin({
+      initial: {
+        "upstreams/u1": {
+          id: "u1",
+          type: "roundrobin",
+          nodes: [
+            {
+              host: "10.0.0.1",
+              port: 80,
+              weight: 1,
+              priority: 0,
+              metadata: { zone: "b" },
+            },
+          ],
+        },
+        "routes/pay": {
+          ...baseline.routes![0],
+          plugins: { "key-auth": { header: "apikey", hide_credentials: true } },
+        },
+      },
+    });
+
+    const report = await sdk.detectDrift({
+      upstreams: [baseline.upstreams![0]],
+      routes: [baseline.routes![0]],
+    });
+
+    expect(
+      report.drifts.map((drift) => [drift.id, drift.severity, drift.changes]),
+    ).toEqual([
+      [
+        "u1",
+        "critical",
+        [
+          {
+            op: "remove",
+            path: "/nodes/0/metadata",
+            previous: { zone: "b" },
+          },
+        ],
+      ],
+      [
+        "pay",
+        "critical",
+        [
+          {
+            op: "remove",
+            path: "/plugins/key-auth/hide_credentials",
+            previous: true,
+          },
+        ],
+      ],
+    ]);
+  });
+
+  it("should check on a schedule until stopped", async () => {
+    const { sdk } = createFakeAdmin({ initial: live });
+    let loads = 0;
+    const seen = new Promise<ResourceDrift>((resolve) => {
+      const detector = sdk.createDriftDetector(
+        () => {
+          loads++;
+          return { upstreams: baseline.upstreams };
+        },
+        {
+          onDrift: (drift) => {
+            detector.stop();
+            resolve(drift);
+          },
+        },
+      );
+      detector.start(5);
+    });
+
+    await expect(seen).resolves.toMatchObject({ type: "missing", id: "u2" });
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(loads).toBe(1);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import { resolveEffectivePlugins } from "../../packages/apisix-sdk/src";
+import { createFakeAdmin } from "./test-helpers";
+
+const schemas = {
+  "key-auth": { priority: 2500, type: "auth" },
+  "limit-count": { priority: 1002 },
+  "proxy-rewrite": { priority: 1008 },
+  prometheus: { priority: 500 },
+};
+
+function serveSchemas(request: Request) {
+  if (new URL(request.url).pathname === "/v1/schema") {
+    return Response.json({ main: {}, plugins: schemas });
+  }
+}
+
+describe("APISIX SDK - Effective Plugins", () => {
+  it("should merge layers by precedence and order global rules first", () => {
+    const plugins = resolveEffectivePlugins(
+      [
+        {
+          layer: "consumer",
+          id: "jack",
+          plugins: {
+            "key-auth": { key: "secret" },
+            "limit-count": { count: 100 },
+          },
+        },
+        {
+          layer: "route",
+          id: "r1",
+          plugins: {
+            "key-auth": {},
+            "limit-count": { count: 5 },
+            "custom-plugin": {},
+          },
+        },
+        {
+          layer: "service",
+          id: "s1",
+          plugins: {
+            "limit-count": { count: 10 },
+            "proxy-rewrite": { uri: "/v2", _meta: { disable: true } },
+          },
+        },
+        { layer: "plugin_config", id: "pc1", plugins: { "limit-count": {} } },
+        {
+          layer: "global_rule",
+          id: "g1",
+          plugins: {
+            prometheus: {},
+            "limit-count": { count: 1000, _meta: { priority: 4000 } },
+          },
+        },
+      ],
+      schemas,
+    );
+
+    expect(
+      plugins.map(({ name, layer, priority }) => [name, layer, priority]),
+    ).toEqual([
+      ["limit-count", "global_rule", 4000],
+      ["prometheus", "global_rule", 500],
+      ["key-auth", "route", 2500],
+      ["proxy-rewrite", "service", 1008],
+      ["limit-count", "consumer", 1002],
+      ["custom-plugin", "route", undefined],
+    ]);
+    expect(plugins[4]).toEqual({
+      name: "limit-count",
+      layer: "consumer",
+      id: "jack",
+      config: { count: 100 },
+      priority: 1002,
+      overrides: [
+        { layer: "route", id: "r1", config: { count: 5 } },
+        { layer: "plugin_config", id: "pc1", config: {} },
+        { layer: "service", id: "s1", config: { count: 10 } },
+      ],
+    });
+    expect(plugins[2].overrides).toEqual([]);
+    expect(plugins[3].disabled).toBe(true);
+  });
+
+  it("should resolve the layers of a live route", async () => {
+    const { sdk } = createFakeAdmin({
+      initial: {
+        "routes/r1": {
+          id: "r1",
+          uri: "/a",
+          service_id: "s1",
+          plugin_config_id: "pc1",
+          plugins: { "key-auth": {} },
+        },
+        "services/s1": { id: "s1", plugins: { "limit-count": { count: 10 } } },
+        "plugin_configs/pc1": {
+          id: "pc1",
+          plugins: { "proxy-rewrite": { uri: "/v2" } },
+        },
+        "consumers/jack": {
+          username: "jack",
+          group_id: "gold",
+          plugins: { "key-auth": { key: "secret" } },
+        },
+        "consumer_groups/gold": {
+          id: "gold",
+          plugins: { "limit-count": { count: 100 } },
+        },
+        "global_rules/g1": { id: "g1", plugins: { prometheus: {} } },
+      },
+      intercept: serveSchemas,
+      config: { retry: { maxAttempts: 1 } },
+    });
+
+    const anonymous = await sdk.routes.getEffectivePlugins("r1");
+    expect(anonymous.map(({ name, layer }) => `${name} ${layer}`)).toEqual([
+      "prometheus global_rule",
+      "key-auth route",
+      "proxy-rewrite plugin_config",
+      "limit-count service",
+    ]);
+
+    const jack = await sdk.routes.getEffectivePlugins("r1", {
+      consumer: "jack",
+    });
+    expect(jack.find((plugin) => plugin.name === "key-auth")?.layer).toBe(
+      "route",
+    );
+    expect(jack.find((plugin) => plugin.name === "limit-count")).toMatchObject({
+      layer: "consumer_group",
+      id: "gold",
+      overrides: [{ layer: "service", id: "s1" }],
+    });
+  });
+});
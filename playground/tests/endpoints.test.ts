@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import {
+  EndpointPool,
+  type ApisixSDKConfig,
+} from "../../packages/apisix-sdk/src";
+import { createFakeAdmin } from "./test-helpers";
+
+// A cluster where node-a is down and node-b answers
+const down = new Set(["node-a.test"]);
+const hits: string[] = [];
+
+function createSDK(config: Partial<ApisixSDKConfig>) {
+  const { sdk } = createFakeAdmin({
+    initial: {
+      "routes/1": { id: "1", uri: "/one" },
+      "routes/2": { id: "2", uri: "/two" },
+    },
+    intercept: (request) => {
+      const { hostname } = new URL(request.url);
+      hits.push(hostname);
+      if (down.has(hostname)) throw new TypeError("fetch failed");
+    },
+    config,
+  });
+  return sdk;
+}
+
+describe("APISIX SDK - Multi-endpoint Failover", () => {
+  it("should move retries to the next endpoint and eject the failing one", async () => {
+    const sdk = createSDK({
+      adminAPI: {
+        baseURL: ["http://node-a.test:9180", "http://node-b.test:9180"],
+        failover: { cooldown: 60000 },
+      },
+      controlAPI: { baseURL: "http://node-b.test:9090" },
+      retry: { baseDelay: 100 },
+    });
+    await sdk.getVersion();
+    hits.length = 0;
+
+    const route = await sdk.routes.get("1");
+    expect(route.uri).toBe("/one");
+    expect(hits).toEqual(["node-a.test", "node-b.test"]);
+
+    // node-a is ejected, so the next call goes straight to node-b
+    hits.length = 0;
+    await sdk.routes.get("2");
+    expect(hits).toEqual(["node-b.test"]);
+
+    const [nodeA, nodeB] = sdk.getClient().getEndpointStats().admin;
+    expect(nodeA).toMatchObject({ healthy: false, requests: 1 });
+    expect(nodeB).toMatchObject({ healthy: true, requests: 2 });
+  });
+
+  it("should alternate endpoints with round-robin", () => {
+    const pool = new EndpointPool(["http://a", "http://b", "http://c/"], {
+      policy: "round-robin",
+    });
+
+    expect([
+      pool.select(),
+      pool.select(),
+      pool.select(),
+      pool.select(),
+    ]).toEqual(["http://a", "http://b", "http://c", "http://a"]);
+  });
+
+  it("should prefer the fastest endpoint with least-latency", () => {
+    const pool = new EndpointPool(["http://a", "http://b"], {
+      policy: "least-latency",
+    });
+    pool.reportSuccess("http://a", 120);
+    pool.reportSuccess("http://b", 15);
+
+    expect(pool.select()).toBe("http://b");
+  });
+
+  it("should restore ejected endpoints after the cool-down", async () => {
+    const pool = new EndpointPool(["http://a", "http://b"], {
+      ejectAfter: 2,
+      cooldown: 50,
+    });
+    pool.reportFailure("http://a");
+    expect(pool.select()).toBe("http://a");
+
+    pool.reportFailure("http://a");
+    expect(pool.select()).toBe("http://b");
+
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    expect(pool.select()).toBe("http://a");
+
+    // Half-open: one more failure ejects it again
+    pool.reportFailure("http://a");
+    expect(pool.select()).toBe("http://b");
+
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    pool.reportSuccess("http://a", 10);
+    pool.reportFailure("http://a");
+    expect(pool.select()).toBe("http://a");
+  });
+
+  it("should eject endpoints through active probing", async () => {
+    const sdk = createSDK({
+      adminAPI: {
+        baseURL: ["http://node-a.test:9180", "http://node-b.test:9180"],
+        failover: { probeInterval: 20 },
+      },
+      controlAPI: {
+        baseURL: ["http://node-a.test:9090", "http://node-b.test:9090"],
+      },
+      retry: { maxAttempts: 1 },
+    });
+
+    try {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      const stats = sdk.getClient().getEndpointStats().admin;
+      expect(stats.map((endpoint) => endpoint.healthy)).toEqual([false, true]);
+    } finally {
+      sdk.getClient().stopHealthProbes();
+    }
+  });
+});
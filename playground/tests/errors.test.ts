@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import {
+  ApisixAuthError,
+  ApisixConflictError,
+  ApisixError,
+  ApisixNetworkError,
+  ApisixNotFoundError,
+  ApisixSDK,
+  ApisixServerError,
+  ApisixTimeoutError,
+  ApisixValidationError,
+  createApisixError,
+} from "../../packages/apisix-sdk/src";
+import { createFakeAdmin } from "./test-helpers";
+
+// Answers with the status a path ends in, e.g. `routes/status/404`; paths
+// ending in `/slow` are never answered
+function answerStatus(
+  request: Request,
+): Response | Promise<Response> | undefined {
+  const { pathname } = new URL(request.url);
+  if (pathname.endsWith("/slow")) {
+    return new Promise((_resolve, reject) => {
+      request.signal.addEventListener("abort", () =>
+        reject(request.signal.reason),
+      );
+    });
+  }
+  const status = Number(pathname.match(/\/status\/(\d+)$/)?.[1]);
+  return status
+    ? Response.json({ error_msg: `status ${status}` }, { status })
+    : undefined;
+}
+
+function createSDK(timeout = 2000) {
+  const requests: string[] = [];
+  const { sdk } = createFakeAdmin({
+    intercept: (request) => {
+      requests.push(`${request.method} ${new URL(request.url).pathname}`);
+      return answerStatus(request);
+    },
+    config: {
+      adminAPI: { baseURL: "http://apisix.test:9180", timeout },
+      retry: { maxAttempts: 2, baseDelay: 100 },
+    },
+  });
+  return { sdk, requests };
+}
+
+describe("APISIX SDK - Error Handling", () => {
+  describe("createApisixError", () => {
+    it("should map status codes to error classes", () => {
+      expect(createApisixError("x", { status: 404 })).toBeInstanceOf(
+        ApisixNotFoundError,
+      );
+      expect(createApisixError("x", { status: 409 })).toBeInstanceOf(
+        ApisixConflictError,
+      );
+      expect(createApisixError("x", { status: 400 })).toBeInstanceOf(
+        ApisixValidationError,
+      );
+      expect(createApisixError("x", { status: 403 })).toBeInstanceOf(
+        ApisixAuthError,
+      );
+      expect(createApisixError("x", { status: 502 })).toBeInstanceOf(
+        ApisixServerError,
+      );
+      expect(createApisixError("x", { status: 418 }).constructor).toBe(
+        ApisixError,
+      );
+    });
+  });
+
+  describe("ApisixClient.request", () => {
+    it("should throw ApisixNotFoundError with request context", async () => {
+      const { sdk } = createSDK();
+      const error = await sdk.routes.get("status/404").catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ApisixNotFoundError);
+      const notFound = error as ApisixNotFoundError;
+      expect(notFound.status).toBe(404);
+      expect(notFound.method).toBe("GET");
+      expect(notFound.endpoint).toBe("/apisix/admin/routes/status/404");
+      expect(notFound.errorMsg).toBe("status 404");
+      expect(notFound.cause).toBeDefined();
+    });
+
+    it("should not retry conflict errors", async () => {
+      const { sdk, requests } = createSDK();
+
+      await expect(
+        sdk.routes.update("status/409", { uri: "/test" }),
+      ).rejects.toBeInstanceOf(ApisixConflictError);
+      expect(
+        requests.filter((request) => request.endsWith("/status/409")),
+      ).toEqual(["PUT /apisix/admin/routes/status/409"]);
+    });
+
+    it("should throw ApisixTimeoutError on timeouts", async () => {
+      const { sdk } = createSDK(100);
+
+      await expect(sdk.routes.get("slow")).rejects.toBeInstanceOf(
+        ApisixTimeoutError,
+      );
+    });
+
+    it("should throw ApisixNetworkError when APISIX is unreachable", async () => {
+      const sdk = new ApisixSDK({
+        adminAPI: { baseURL: "http://127.0.0.1:1", timeout: 1000 },
+      });
+      sdk.getClient().configureRetry({ maxAttempts: 1 });
+
+      await expect(sdk.routes.get("any")).rejects.toBeInstanceOf(
+        ApisixNetworkError,
+      );
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import {
+  mkdtemp,
+  readdir,
+  readFile,
+  rm,
+  utimes,
+  writeFile,
+} from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  ApisixConflictError,
+  ApisixNotFoundError,
+  ApisixSDK,
+  ApisixValidationError,
+  parseStandaloneConfig,
+} from "../../packages/apisix-sdk/src";
+
+describe("APISIX SDK - Standalone File Backend", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "apisix-sdk-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  function createSDK(file = "apisix.yaml") {
+    return new ApisixSDK({
+      standalone: { path: join(dir, file), lockTimeout: 500 },
+      retry: { maxAttempts: 1 },
+    });
+  }
+
+  it("should persist resource manager operations to apisix.yaml", async () => {
+    const sdk = createSDK();
+
+    await sdk.upstreams.create(
+      { type: "roundrobin", nodes: { "10.0.0.1:80": 1 } },
+      "u1",
+    );
+    const route = await sdk.routes.create({ uri: "/a", upstream_id: "u1" });
+    await sdk.routes.update(route.id as string, {
+      uri: "/b",
+      upstream_id: "u1",
+    });
+    await sdk.consumers.create({ username: "jack" });
+    await sdk.credentials.update("jack", "key", {
+      plugins: { "key-auth": { key: "k" } },
+    });
+
+    const text = await readFile(join(dir, "apisix.yaml"), "utf8");
+    expect(text.endsWith("#END\n")).toBe(true);
+    expect(parseStandaloneConfig(text)).toMatchObject({
+      upstreams: [{ id: "u1" }],
+      routes: [{ id: route.id, uri: "/b" }],
+      consumers: [{ username: "jack" }],
+      credentials: [{ consumer: "jack", id: "key" }],
+    });
+    expect((await sdk.routes.list()).map((item) => item.uri)).toEqual(["/b"]);
+    expect(await sdk.credentials.list("jack")).toHaveLength(1);
+
+    await sdk.consumers.delete("jack");
+    await sdk.routes.delete(route.id as string);
+    await expect(sdk.routes.get(route.id as string)).rejects.toBeInstanceOf(
+      ApisixNotFoundError,
+    );
+    expect(
+      parseStandaloneConfig(await readFile(join(dir, "apisix.yaml"), "utf8")),
+    ).toEqual({
+      upstreams: [expect.objectContaining({ id: "u1" })],
+      routes: [],
+      consumers: [],
+    });
+  });
+
+  it("should reject writes that leave dangling references", async () => {
+    const sdk = createSDK();
+    await sdk.upstreams.create({ nodes: { "10.0.0.1:80": 1 } }, "u1");
+    await sdk.routes.create({ uri: "/a", upstream_id: "u1" }, "r1");
+
+    await expect(
+      sdk.routes.create({ uri: "/b", upstream_id: "u9" }, "r2"),
+    ).rejects.toThrow('routes/r2 upstream_id "u9" is not in upstreams');
+    await expect(sdk.upstreams.delete("u1")).rejects.toBeInstanceOf(
+      ApisixValidationError,
+    );
+    expect(await sdk.routes.list()).toHaveLength(1);
+  });
+
+  it("should keep timestamps and dangling references it did not add", async () => {
+    const path = join(dir, "apisix.yaml");
+    await writeFile(
+      path,
+      [
+        "routes:",
+        "  - id: r1",
+        "    uri: /a",
+        "    upstream_id: u9",
+        "    create_time: 1700000000",
+        "    update_time: 1700000000",
+        "#END",
+        "",
+      ].join("\n"),
+    );
+    const sdk = createSDK();
+
+    await sdk.upstreams.create({ nodes: { "10.0.0.1:80": 1 } }, "u1");
+
+    const config = parseStandaloneConfig(await readFile(path, "utf8"));
+    expect(config.routes).toEqual([
+      {
+        id: "r1",
+        uri: "/a",
+        upstream_id: "u9",
+        create_time: 1700000000,
+        update_time: 1700000000,
+      },
+    ]);
+    expect(config.upstreams?.[0]).toMatchObject({
+      id: "u1",
+      create_time: expect.any(Number),
+      update_time: expect.any(Number),
+    });
+    await expect(
+      sdk.routes.create({ uri: "/b", upstream_id: "u8" }, "r2"),
+    ).rejects.toBeInstanceOf(ApisixValidationError);
+  });
+
+  it("should serialise concurrent writers and detect revisions", async () => {
+    const first = createSDK("apisix.json");
+    const second = createSDK("apisix.json");
+
+    await Promise.all(
+      Array.from({ length: 10 }, (_, index) =>
+        (index % 2 ? first : second).upstreams.create(
+          { nodes: { [`10.0.0.${index}:80`]: 1 } },
+          `u${index}`,
+        ),
+      ),
+    );
+
+    const content = JSON.parse(
+      await readFile(join(dir, "apisix.json"), "utf8"),
+    );
+    expect(content.upstreams).toHaveLength(10);
+    expect(await readdir(dir)).toEqual(["apisix.json"]);
+
+    const stale = await first.upstreams.get("u1");
+    await second.upstreams.patch("u1", { desc: "changed" });
+    await expect(
+      first.upstreams.updateIfMatch("u1", { ...stale, desc: "mine" }),
+    ).rejects.toThrow("modified concurrently");
+  });
+
+  it("should wait for the lock file and take over stale ones", async () => {
+    const sdk = createSDK();
+    const lock = join(dir, "apisix.yaml.lock");
+
+    await writeFile(lock, "4242@elsewhere\n");
+    const error = await sdk.upstreams
+      .create({ nodes: { "10.0.0.1:80": 1 } }, "u1")
+      .catch((error: unknown) => error);
+    expect(error).toBeInstanceOf(ApisixConflictError);
+    expect(error).toMatchObject({
+      status: 409,
+      message: expect.stringContaining("waiting for the lock"),
+    });
+
+    const old = new Date(Date.now() - 60_000);
+    await utimes(lock, old, old);
+    await sdk.upstreams.create({ nodes: { "10.0.0.1:80": 1 } }, "u1");
+    expect(await readdir(dir)).toEqual(["apisix.yaml"]);
+  });
+
+  it("should serialise writers finding the same stale lock", async () => {
+    const lock = join(dir, "apisix.yaml.lock");
+    await writeFile(lock, "4242@elsewhere\n");
+    const old = new Date(Date.now() - 60_000);
+    await utimes(lock, old, old);
+
+    // Separate instances only coordinate through the lock file
+    await Promise.all(
+      ["u1", "u2", "u3", "u4"].map((id) =>
+        createSDK().upstreams.create({ nodes: { "10.0.0.1:80": 1 } }, id),
+      ),
+    );
+
+    const config = parseStandaloneConfig(
+      await readFile(join(dir, "apisix.yaml"), "utf8"),
+    );
+    expect(config.upstreams?.map((upstream) => upstream.id).sort()).toEqual([
+      "u1",
+      "u2",
+      "u3",
+      "u4",
+    ]);
+    expect(await readdir(dir)).toEqual(["apisix.yaml"]);
+  });
+});
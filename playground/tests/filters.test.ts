@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { type Route } from "../../packages/apisix-sdk/src";
+import { createFakeAdmin } from "./test-helpers";
+
+const ids = (routes: Route[]) => routes.map((route) => route.id);
+const query = (read: string) => new URLSearchParams(read.split("?")[1]);
+
+const routes = [
+  {
+    id: "1",
+    name: "users-api",
+    uri: "/users",
+    methods: ["GET"],
+    labels: { env: "prod" },
+    status: 1,
+  },
+  {
+    id: "2",
+    name: "users-admin",
+    uris: ["/admin/users", "/admin/roles"],
+    methods: ["POST"],
+    labels: { env: "dev" },
+    status: 0,
+  },
+  {
+    id: "3",
+    name: "orders-api",
+    uri: "/orders",
+    host: "shop.example.com",
+    plugins: { "limit-count": {} },
+    status: 1,
+  },
+];
+
+function createSDK(version = "3.9.0") {
+  return createFakeAdmin({
+    version,
+    initial: Object.fromEntries(
+      routes.map((route) => [`routes/${route.id}`, route]),
+    ),
+  });
+}
+
+describe("APISIX SDK - Filtering", () => {
+  it("should push name, label and uri down to APISIX 3.x", async () => {
+    const { sdk, reads } = createSDK();
+
+    const result = await sdk.routes.query({
+      name: "users",
+      label: "env",
+      uri: "/admin",
+    });
+
+    expect(ids(result.items)).toEqual(["2"]);
+    expect(result.pushedDown).toEqual(["name", "label", "uri"]);
+    expect(result.clientSide).toEqual([]);
+    expect(query(reads[0]).get("name")).toBe("users");
+    expect(query(reads[0]).get("uri")).toBe("/admin");
+  });
+
+  it("should apply the remaining filters client-side", async () => {
+    const { sdk, reads } = createSDK();
+
+    const result = await sdk.routes.query({
+      name: "api",
+      status: 1,
+      method: "get",
+    });
+
+    expect(ids(result.items)).toEqual(["1"]);
+    expect(result).toMatchObject({
+      pushedDown: ["name"],
+      clientSide: ["status", "method"],
+    });
+    expect(query(reads[0]).has("status")).toBe(false);
+  });
+
+  it("should match label values client-side", async () => {
+    const { sdk, reads } = createSDK();
+
+    const result = await sdk.routes.query({ label: "env:dev" });
+
+    expect(ids(result.items)).toEqual(["2"]);
+    expect(result.clientSide).toEqual(["label"]);
+    expect(query(reads[0]).has("label")).toBe(false);
+  });
+
+  it("should filter everything client-side on 2.x", async () => {
+    const { sdk, reads } = createSDK("2.15.0");
+
+    const result = await sdk.routes.query({
+      uri: "/orders",
+      plugin: "limit-count",
+    });
+
+    expect(ids(result.items)).toEqual(["3"]);
+    expect(result.pushedDown).toEqual([]);
+    expect(result.clientSide).toEqual(["uri", "plugin"]);
+    expect(reads).toEqual(["routes"]);
+  });
+
+  it("should combine built-in filters with a custom predicate", async () => {
+    const { sdk } = createSDK();
+
+    const result = await sdk.routes.query({
+      uri: "/",
+      where: (route) => (route.uris?.length ?? 0) > 1,
+    });
+
+    expect(ids(result.items)).toEqual(["2"]);
+    expect(result.clientSide).toEqual(["where"]);
+    expect(ids(await sdk.routes.findByHost("shop.example.com"))).toEqual(["3"]);
+  });
+});
@@ -0,0 +1,267 @@
+import { describe, expect, it } from "vitest";
+import {
+  ApisixConflictError,
+  CONFIG_KINDS,
+  ResourceGraph,
+  type ApisixConfig,
+  type ConfigKind,
+} from "../../packages/apisix-sdk/src";
+import { createFakeAdmin } from "./test-helpers";
+
+function ids(nodes: { kind: string; id: string }[]): string[] {
+  return nodes.map((node) => `${node.kind}/${node.id}`);
+}
+
+const config: ApisixConfig = {
+  upstreams: [
+    { id: "u1", name: "backend", nodes: { "10.0.0.1:80": 1 } },
+    { id: "u2", nodes: { "10.0.0.2:80": 1 } },
+  ],
+  services: [{ id: "s1", upstream_id: "u1" }],
+  routes: [
+    { id: "r1", uri: "/a", service_id: "s1" },
+    {
+      id: "r2",
+      uri: "/b",
+      upstream_id: "u1",
+      plugin_config_id: "pc9",
+      plugins: {
+        "traffic-split": {
+          rules: [{ weighted_upstreams: [{ upstream_id: "u2" }] }],
+        },
+      },
+    },
+  ],
+};
+
+describe("APISIX SDK - Dependency Graph", () => {
+  it("should answer dependents and dependencies queries", () => {
+    const graph = new ResourceGraph(config);
+
+    expect(ids(graph.dependentsOf("upstreams", "u1"))).toEqual([
+      "services/s1",
+      "routes/r2",
+    ]);
+    expect(
+      ids(graph.dependentsOf("upstreams", "u1", { recursive: true })),
+    ).toEqual(["services/s1", "routes/r2", "routes/r1"]);
+    expect(ids(graph.dependenciesOf("routes", "r2"))).toEqual([
+      "upstreams/u1",
+      "plugin_configs/pc9",
+      "upstreams/u2",
+    ]);
+    expect(
+      ids(graph.dependenciesOf("routes", "r1", { recursive: true })),
+    ).toEqual(["services/s1", "upstreams/u1"]);
+    expect(graph.getNode("plugin_configs", "pc9")).toEqual({
+      kind: "plugin_configs",
+      id: "pc9",
+      missing: true,
+    });
+    expect(ids(graph.deletionOrder("upstreams", "u1"))).toEqual([
+      "routes/r2",
+      "routes/r1",
+      "services/s1",
+      "upstreams/u1",
+    ]);
+  });
+
+  it("should list every kind after the kinds it references", () => {
+    const rank = (kind: ConfigKind) =>
+      CONFIG_KINDS.findIndex((info) => info.kind === kind);
+    const plugins = {
+      "traffic-split": {
+        rules: [{ weighted_upstreams: [{ upstream_id: "u1" }] }],
+      },
+      "grpc-transcode": { proto_id: "p1" },
+      "http-logger": { auth_header: "$secret://vault/1/logger/token" },
+    };
+    const upstream = { nodes: {}, tls: { client_cert_id: "c1" } };
+    const graph = new ResourceGraph({
+      secrets: [{ id: "vault/1", uri: "http://vault:8200" }],
+      plugin_metadata: [
+        { id: "http-logger", log_format: { token: "$secret://vault/1/t/v" } },
+      ],
+      protos: [{ id: "p1", content: 'syntax = "proto3";' }],
+      ssls: [{ id: "c1", cert: "$secret://vault/1/tls/cert", key: "key" }],
+      upstreams: [{ id: "u1", ...upstream }],
+      services: [{ id: "s1", upstream_id: "u1", upstream, plugins }],
+      plugin_configs: [{ id: "pc1", plugins }],
+      consumer_groups: [{ id: "g1", plugins }],
+      consumers: [{ username: "jack", group_id: "g1", plugins }],
+      credentials: [{ id: "key", consumer: "jack", plugins }],
+      global_rules: [{ id: "gr1", plugins }],
+      routes: [
+        {
+          id: "r1",
+          uri: "/a",
+          upstream_id: "u1",
+          service_id: "s1",
+          plugin_config_id: "pc1",
+          upstream,
+          plugins,
+        },
+      ],
+      stream_routes: [
+        { id: "sr1", upstream_id: "u1", service_id: "s1", upstream },
+      ],
+    });
+
+    expect(graph.nodes.filter((node) => node.missing)).toEqual([]);
+    expect(graph.edges).toContainEqual({
+      from: { kind: "upstreams", id: "u1" },
+      to: { kind: "ssls", id: "c1" },
+      field: "tls/client_cert_id",
+    });
+    expect(
+      graph.edges
+        .filter((edge) => rank(edge.to.kind) >= rank(edge.from.kind))
+        .map((edge) => `${edge.from.kind} ${edge.field}`),
+    ).toEqual([]);
+    for (const { kind, references } of CONFIG_KINDS) {
+      for (const target of Object.values(references)) {
+        expect(rank(target)).toBeLessThan(rank(kind));
+      }
+    }
+  });
+
+  it("should export the graph as DOT and Mermaid", () => {
+    const graph = new ResourceGraph({
+      upstreams: [{ id: "u1", name: 'the "main" one', nodes: {} }],
+      routes: [{ id: "r1", uri: "/a", upstream_id: "u1", service_id: "s9" }],
+    });
+
+    expect(graph.toDot()).toBe(
+      [
+        "digraph apisix {",
+        "  rankdir=LR;",
+        '  "upstreams/u1" [label="upstreams/u1\\nthe \\"main\\" one", shape=ellipse];',
+        '  "routes/r1" [label="routes/r1", shape=box];',
+        '  "services/s9" [label="services/s9", shape=ellipse, style=dashed];',
+        '  "routes/r1" -> "upstreams/u1" [label="upstream_id"];',
+        '  "routes/r1" -> "services/s9" [label="service_id"];',
+        "}",
+        "",
+      ].join("\n"),
+    );
+    expect(graph.toMermaid()).toBe(
+      [
+        "flowchart LR",
+        '  n0("upstreams/u1<br/>the #quot;main#quot; one")',
+        '  n1["routes/r1"]',
+        '  n2("services/s9")',
+        '  n1 -->|"upstream_id"| n0',
+        '  n1 -->|"service_id"| n2',
+        "  classDef missing stroke-dasharray: 5 5",
+        "  class n2 missing",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("should refuse, cascade or force deletes of live resources", async () => {
+    const { sdk, store, writes } = createFakeAdmin({
+      initial: {
+        "upstreams/u1": { id: "u1", nodes: { "10.0.0.1:80": 1 } },
+        "upstreams/u2": { id: "u2", nodes: { "10.0.0.2:80": 1 } },
+        "services/s1": { id: "s1", upstream_id: "u1" },
+        "routes/r1": { id: "r1", uri: "/a", service_id: "s1" },
+      },
+    });
+
+    expect(
+      (await sdk.graph.dependentsOf("upstreams", "u1")).map((node) => node.id),
+    ).toEqual(["s1"]);
+    expect(await sdk.graph.dependenciesOf("routes", "r1")).toEqual([
+      { kind: "services", id: "s1" },
+    ]);
+
+    await expect(sdk.graph.delete("upstreams", "u1")).rejects.toThrow(
+      new ApisixConflictError(
+        "Cannot delete upstreams/u1, it is used by services/s1, routes/r1",
+      ),
+    );
+    const plan = await sdk.graph.delete("upstreams", "u1", {
+      policy: "cascade",
+      dryRun: true,
+    });
+    expect(plan.deleted.map((node) => node.id)).toEqual(["r1", "s1", "u1"]);
+    expect(writes).toEqual([]);
+
+    await sdk.graph.delete("upstreams", "u2", { policy: "force" });
+    await sdk.graph.delete("upstreams", "u1", { policy: "cascade" });
+    expect(writes).toEqual([
+      "DELETE upstreams/u2?force=true",
+      "DELETE routes/r1",
+      "DELETE services/s1",
+      "DELETE upstreams/u1",
+    ]);
+    expect(store.size).toBe(0);
+  });
+
+  it("should only delete unused resources through the managers when safe", async () => {
+    const { sdk, store, writes } = createFakeAdmin({
+      initial: {
+        "upstreams/u1": { id: "u1", nodes: { "10.0.0.1:80": 1 } },
+        "upstreams/u2": { id: "u2", nodes: { "10.0.0.2:80": 1 } },
+        "services/s1": { id: "s1", upstream_id: "u1" },
+        "routes/r1": { id: "r1", uri: "/a", service_id: "s1" },
+      },
+    });
+
+    await expect(sdk.upstreams.delete("u1", { safe: true })).rejects.toThrow(
+      new ApisixConflictError(
+        "Cannot delete upstreams/u1, it is used by services/s1, routes/r1",
+      ),
+    );
+    await expect(sdk.services.delete("s1", { safe: true })).rejects.toThrow(
+      new ApisixConflictError(
+        "Cannot delete services/s1, it is used by routes/r1",
+      ),
+    );
+    expect(writes).toEqual([]);
+
+    await sdk.routes.delete("r1", { safe: true });
+    await sdk.services.delete("s1", { safe: true });
+    await sdk.upstreams.delete("u1", { safe: true });
+    await sdk.upstreams.delete("u2", { safe: true, force: true });
+    expect(writes).toEqual([
+      "DELETE routes/r1",
+      "DELETE services/s1",
+      "DELETE upstreams/u1",
+      "DELETE upstreams/u2?force=true",
+    ]);
+    expect(store.size).toBe(0);
+  });
+
+  it("should load only the kinds that can reference a resource", async () => {
+    const { sdk, reads } = createFakeAdmin({
+      initial: {
+        "upstreams/u1": { id: "u1", nodes: { "10.0.0.1:80": 1 } },
+        "routes/r1": { id: "r1", uri: "/a", upstream_id: "u1" },
+        "consumers/jack": { username: "jack" },
+        "consumers/jack/credentials/key": {
+          plugins: { "key-auth": { key: "k" } },
+        },
+      },
+    });
+
+    expect(
+      ids(await sdk.graph.dependentsOf("upstreams", "u1", { recursive: true })),
+    ).toEqual(["routes/r1"]);
+    const loaded = () => reads.map((read) => read.split("?")[0]);
+    expect(loaded()).not.toContain("consumers/jack/credentials");
+    expect(loaded()).not.toContain("ssls");
+
+    const graph = await sdk.graph.load();
+    expect(loaded()).toContain("consumers/jack/credentials");
+    reads.length = 0;
+    expect(
+      ids(await sdk.graph.dependentsOf("upstreams", "u1", { graph })),
+    ).toEqual(["routes/r1"]);
+    expect(await sdk.graph.dependenciesOf("routes", "r1", { graph })).toEqual([
+      { kind: "upstreams", id: "u1" },
+    ]);
+    expect(reads).toEqual([]);
+  });
+});
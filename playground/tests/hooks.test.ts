@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import {
+  ApisixNotFoundError,
+  type ApisixHooks,
+  type RequestContext,
+} from "../../packages/apisix-sdk/src";
+import { createFakeAdmin } from "./test-helpers";
+
+async function createSDK(hooks?: ApisixHooks | ApisixHooks[]) {
+  const requests: Request[] = [];
+  let flaky = 0;
+  const { sdk } = createFakeAdmin({
+    initial: Object.fromEntries(
+      ["1", "runtime", "runtime-2", "flaky"].map((id) => [
+        `routes/${id}`,
+        { id, uri: "/test" },
+      ]),
+    ),
+    // The first read of `routes/flaky` fails
+    intercept: (request) => {
+      requests.push(request);
+      if (request.url.endsWith("/flaky") && flaky++ === 0) {
+        return Response.json({ error_msg: "unavailable" }, { status: 503 });
+      }
+    },
+    config: { hooks },
+  });
+  // Resolve version detection up front so it does not show up in assertions
+  await sdk.getVersion();
+  return { sdk, requests };
+}
+
+describe("APISIX SDK - Hook Pipeline", () => {
+  it("should run hooks from config and allow header rewriting", async () => {
+    const calls: string[] = [];
+    const { sdk, requests } = await createSDK({
+      onRequest: (context) => {
+        calls.push(`request:${context.api}:${context.method}`);
+        context.headers["X-Request-Id"] = "req-1";
+      },
+      onResponse: (context) => {
+        calls.push(`response:${context.endpoint}`);
+      },
+    });
+    calls.length = 0;
+
+    await sdk.routes.get("1");
+    await sdk.getClient().controlRequest("/v1/healthcheck");
+
+    const request = requests.find((item) => item.url.endsWith("/routes/1"));
+    expect(request?.headers.get("X-Request-Id")).toBe("req-1");
+    expect(calls).toEqual([
+      "request:admin:GET",
+      "response:/apisix/admin/routes/1",
+      "request:control:GET",
+      "response:/v1/healthcheck",
+    ]);
+  });
+
+  it("should register and unregister hooks at runtime", async () => {
+    const seen: RequestContext[] = [];
+    const { sdk } = await createSDK();
+    const unregister = sdk.addHooks({ onRequest: (c) => void seen.push(c) });
+
+    await sdk.routes.get("runtime");
+    unregister();
+    await sdk.routes.get("runtime-2");
+
+    expect(seen).toHaveLength(1);
+    expect(seen[0].attempt).toBe(1);
+  });
+
+  it("should invoke onRetry and onError", async () => {
+    const events: string[] = [];
+    const hooks: ApisixHooks = {
+      onRetry: (c) => void events.push(`retry:${c.attempt}`),
+      onError: (c) => void events.push(`error:${c.error.name}`),
+      onResponse: (c) => void events.push(`response:${c.attempt}`),
+    };
+    const { sdk } = await createSDK([hooks]);
+    events.length = 0;
+    sdk.getClient().configureRetry({ baseDelay: 100 });
+
+    await sdk.routes.get("flaky");
+    await expect(sdk.routes.get("missing")).rejects.toBeInstanceOf(
+      ApisixNotFoundError,
+    );
+
+    expect(events).toEqual([
+      "retry:1",
+      "response:2",
+      "error:ApisixNotFoundError",
+    ]);
+  });
+
+  it("should abort the request when a hook throws", async () => {
+    const { sdk } = await createSDK();
+    sdk.addHooks({
+      onRequest: () => {
+        throw new Error("blocked by hook");
+      },
+    });
+
+    await expect(sdk.routes.get("blocked")).rejects.toThrow("blocked by hook");
+  });
+});
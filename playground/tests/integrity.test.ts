@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import { checkIntegrity } from "../../packages/apisix-sdk/src";
+import { createFakeAdmin } from "./test-helpers";
+
+describe("APISIX SDK - Integrity Check", () => {
+  it("should report dangling references with suggested fixes", () => {
+    const report = checkIntegrity({
+      upstreams: [{ id: "u1", nodes: { "10.0.0.1:80": 1 } }],
+      ssls: [
+        {
+          id: "c1",
+          snis: ["example.com"],
+          cert: "cert",
+          key: "key",
+          client: { ca: "$secret://vault/1/mtls/ca" },
+        },
+      ],
+      consumers: [{ username: "jack", group_id: "gone" }],
+      credentials: [{ consumer: "jill", id: "key", plugins: {} }],
+      routes: [
+        { id: "r1", uri: "/a", upstream_id: "u9", plugin_config_id: "pc9" },
+        {
+          id: "r2",
+          uri: "/b",
+          upstream_id: "u1",
+          plugins: {
+            "traffic-split": {
+              rules: [{ weighted_upstreams: [{ upstream_id: "u8" }] }],
+            },
+          },
+        },
+      ],
+    });
+
+    expect(report).toMatchObject({ ok: false, dangling: 6, orphans: 0 });
+    expect(
+      report.issues.map((issue) => `${issue.kind}/${issue.id} ${issue.field}`),
+    ).toEqual([
+      "ssls/c1 client/ca",
+      "consumers/jack group_id",
+      "credentials/jill/key consumer",
+      "routes/r1 upstream_id",
+      "routes/r1 plugin_config_id",
+      "routes/r2 plugins/traffic-split/rules/0/weighted_upstreams/0/upstream_id",
+    ]);
+
+    const byField = (field: string) =>
+      report.issues.find((issue) => issue.field === field)?.fixes;
+    expect(byField("upstream_id")?.map((fix) => fix.action)).toEqual([
+      "create",
+      "unset",
+    ]);
+    expect(byField("group_id")?.[0]).toEqual({
+      action: "unset",
+      kind: "consumers",
+      id: "jack",
+      description: "Remove group_id from consumers/jack",
+      patch: { group_id: null },
+    });
+    expect(byField("consumer")?.map((fix) => fix.description)).toEqual([
+      "Create consumers/jill",
+      "Delete credentials/jill/key",
+    ]);
+    expect(byField("client/ca")?.map((fix) => fix.description)).toEqual([
+      "Create secrets/vault/1",
+    ]);
+  });
+
+  it("should report orphaned resources", () => {
+    const report = checkIntegrity({
+      protos: [{ id: "p1", content: 'syntax = "proto3";' }],
+      upstreams: [
+        { id: "u1", nodes: {} },
+        { id: "u2", nodes: {} },
+      ],
+      services: [{ id: "s1", upstream_id: "u1" }],
+      plugin_configs: [{ id: "pc1", plugins: {} }],
+      consumer_groups: [{ id: "g1", plugins: {} }],
+      consumers: [{ username: "jack", group_id: "g1" }],
+      routes: [
+        {
+          id: "r1",
+          uri: "/a",
+          service_id: "s1",
+          plugins: { "grpc-transcode": { proto_id: "p1" } },
+        },
+      ],
+    });
+
+    expect(report).toMatchObject({ ok: true, dangling: 0, orphans: 2 });
+    expect(report.issues).toEqual([
+      {
+        type: "orphan",
+        kind: "upstreams",
+        id: "u2",
+        message: "upstreams/u2 is not used by any resource",
+        fixes: [
+          {
+            action: "delete",
+            kind: "upstreams",
+            id: "u2",
+            description: "Delete upstreams/u2",
+          },
+        ],
+      },
+      expect.objectContaining({ kind: "plugin_configs", id: "pc1" }),
+    ]);
+  });
+
+  it("should check the live gateway and offline documents alike", async () => {
+    const { sdk } = createFakeAdmin({
+      initial: {
+        "upstreams/u1": { id: "u1", nodes: { "10.0.0.1:80": 1 } },
+        "routes/r1": { id: "r1", uri: "/a", upstream_id: "u1" },
+        "routes/r2": { id: "r2", uri: "/b", service_id: "s1" },
+      },
+    });
+
+    const live = await sdk.integrity.check();
+    expect(live).toMatchObject({ ok: false, resources: 3, dangling: 1 });
+    expect(live.issues[0].target).toEqual({ kind: "services", id: "s1" });
+
+    const offline = sdk.integrity.checkConfig(
+      "upstreams:\n  - id: u1\n    nodes: {}\n---\nroutes:\n  - id: r1\n    uri: /a\n    upstream_id: u1\n",
+    );
+    expect(offline).toMatchObject({ ok: true, resources: 2, issues: [] });
+  });
+});
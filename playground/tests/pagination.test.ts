@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { ApisixNetworkError, type Route } from "../../packages/apisix-sdk/src";
+import { createFakeAdmin } from "./test-helpers";
+
+// 25 routes, paginated like 3.x or listed at once like 2.x
+function createSDK(version = "3.9.0") {
+  const { sdk, reads } = createFakeAdmin({
+    version,
+    initial: Object.fromEntries(
+      Array.from({ length: 25 }, (_, i) => [
+        `routes/${i + 1}`,
+        { id: String(i + 1), uri: `/route-${i + 1}` },
+      ]),
+    ),
+  });
+  return { sdk, reads };
+}
+
+describe("APISIX SDK - Pagination", () => {
+  async function collect(iterator: AsyncIterable<Route>, limit = Infinity) {
+    const items: Route[] = [];
+    for await (const item of iterator) {
+      items.push(item);
+      if (items.length >= limit) break;
+    }
+    return items;
+  }
+
+  it("should walk every page on 3.x", async () => {
+    const { sdk, reads } = createSDK();
+
+    const routes = await collect(sdk.routes.iterate({ page_size: 10 }));
+
+    expect(routes.map((route) => route.id)).toEqual(
+      Array.from({ length: 25 }, (_, i) => String(i + 1)),
+    );
+    expect(reads).toEqual([
+      "routes?page_size=10&page=1",
+      "routes?page_size=10&page=2",
+      "routes?page_size=10&page=3",
+    ]);
+  });
+
+  it("should stop fetching when the loop ends early", async () => {
+    const { sdk, reads } = createSDK();
+
+    const routes = await collect(sdk.routes.iterate({ page_size: 10 }), 12);
+
+    expect(routes).toHaveLength(12);
+    expect(reads).toHaveLength(2);
+  });
+
+  it("should list everything at once on 2.x", async () => {
+    const { sdk, reads } = createSDK("2.15.0");
+
+    const routes = await collect(sdk.routes.iterate({ page_size: 10 }));
+
+    expect(routes).toHaveLength(25);
+    expect(reads).toEqual(["routes"]);
+  });
+
+  it("should abort iteration through an AbortSignal", async () => {
+    const { sdk, reads } = createSDK();
+    const controller = new AbortController();
+    const seen: Route[] = [];
+
+    await expect(async () => {
+      for await (const route of sdk.routes.iterate(
+        { page_size: 10 },
+        { signal: controller.signal },
+      )) {
+        seen.push(route);
+        if (seen.length === 5) controller.abort();
+      }
+    }).rejects.toBeInstanceOf(ApisixNetworkError);
+
+    expect(seen).toHaveLength(5);
+    expect(reads).toHaveLength(1);
+  });
+
+  it("should report hasMore from the total instead of the page size", async () => {
+    const { sdk } = createSDK();
+
+    const second = await sdk.routes.listPaginated(2, 10);
+    const last = await sdk.routes.listPaginated(3, 10);
+    const exact = await sdk.routes.listPaginated(1, 25);
+
+    expect(second.hasMore).toBe(true);
+    expect(last).toMatchObject({ total: 25, hasMore: false });
+    expect(exact.hasMore).toBe(false);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import {
+  ApisixNetworkError,
+  type RateLimitOptions,
+} from "../../packages/apisix-sdk/src";
+import { createFakeAdmin } from "./test-helpers";
+
+// The first `throttled` Admin API requests are answered with 429
+function createSDK(rateLimit: RateLimitOptions, throttled = 0) {
+  const times: number[] = [];
+  const { sdk, stats } = createFakeAdmin({
+    initial: Object.fromEntries(
+      Array.from({ length: 6 }, (_, i) => [`routes/${i}`, { uri: `/${i}` }]),
+    ),
+    readDelay: 20,
+    intercept: (request) => {
+      if (!new URL(request.url).pathname.startsWith("/apisix/admin/")) return;
+      times.push(Date.now());
+      if (times.length <= throttled) {
+        return Response.json(
+          { error_msg: "too many requests" },
+          { status: 429, headers: { "Retry-After": "0.1" } },
+        );
+      }
+    },
+    config: {
+      adminAPI: { baseURL: "http://apisix.test:9180", rateLimit },
+      retry: { baseDelay: 10 },
+    },
+  });
+  return { sdk, stats, times };
+}
+
+describe("APISIX SDK - Rate Limiting", () => {
+  it("should cap concurrent Admin API requests", async () => {
+    const { sdk, stats } = createSDK({ maxConcurrency: 2 });
+    await sdk.getVersion();
+
+    await Promise.all(
+      Array.from({ length: 6 }, (_, i) => sdk.routes.get(String(i))),
+    );
+
+    expect(stats.maxActive).toBe(2);
+    expect(sdk.getClient().getRateLimitStats().admin).toMatchObject({
+      active: 0,
+      queued: 0,
+    });
+  });
+
+  it("should space requests according to the token bucket", async () => {
+    const { sdk, times } = createSDK({
+      requestsPerSecond: 20,
+      burst: 1,
+    });
+    await sdk.getVersion();
+
+    await Promise.all(
+      Array.from({ length: 5 }, (_, i) => sdk.routes.get(String(i))),
+    );
+
+    // The first token is available immediately, then one every 50ms
+    expect(times[4] - times[0]).toBeGreaterThanOrEqual(190);
+  });
+
+  it("should pause and slow down after throttling when adaptive", async () => {
+    const { sdk, times } = createSDK(
+      { requestsPerSecond: 10, adaptive: true },
+      1,
+    );
+    await sdk.getVersion();
+
+    await sdk.routes.get("1");
+
+    expect(times[1] - times[0]).toBeGreaterThanOrEqual(95);
+    expect(sdk.getClient().getRateLimitStats().admin).toMatchObject({
+      throttled: 1,
+      requestsPerSecond: 6, // Halved, then recovered by a tenth
+    });
+  });
+
+  it("should reject queued requests when their signal aborts", async () => {
+    const { sdk } = createSDK({ maxConcurrency: 1 });
+    await sdk.getVersion();
+    const client = sdk.getClient();
+    const controller = new AbortController();
+
+    const first = client.get("/apisix/admin/routes/1");
+    const second = client.get("/apisix/admin/routes/2", undefined, {
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    await expect(second).rejects.toBeInstanceOf(ApisixNetworkError);
+    expect(client.getRateLimitStats().admin.queued).toBe(0);
+    await first;
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import {
+  ApisixServerError,
+  type RetryPolicy,
+} from "../../packages/apisix-sdk/src";
+import { createFakeAdmin } from "./test-helpers";
+
+// Admin API requests are answered with 503 until `failures` have been seen
+function createSDK(failures: number, retry?: RetryPolicy, retryAfter?: string) {
+  const calls: Array<{ method: string; path: string; time: number }> = [];
+  const { sdk } = createFakeAdmin({
+    initial: { "routes/1": { id: "1", uri: "/test" } },
+    intercept: (request) => {
+      const { pathname } = new URL(request.url);
+      if (!pathname.startsWith("/apisix/admin/")) return;
+      calls.push({ method: request.method, path: pathname, time: Date.now() });
+      if (calls.length <= failures) {
+        return Response.json(
+          { error_msg: "unavailable" },
+          {
+            status: 503,
+            headers: retryAfter ? { "Retry-After": retryAfter } : {},
+          },
+        );
+      }
+    },
+    config: { retry: { baseDelay: 10, ...retry } },
+  });
+  return { sdk, calls };
+}
+
+describe("APISIX SDK - Retry Policy", () => {
+  it("should retry idempotent requests on retryable status codes", async () => {
+    const { sdk, calls } = createSDK(2);
+
+    await sdk.routes.get("1");
+
+    expect(calls).toHaveLength(3);
+  });
+
+  it("should not retry POST creates without an explicit ID", async () => {
+    const { sdk, calls } = createSDK(1);
+
+    await expect(sdk.routes.create({ uri: "/test" })).rejects.toBeInstanceOf(
+      ApisixServerError,
+    );
+    expect(calls).toEqual([
+      expect.objectContaining({ method: "POST", path: "/apisix/admin/routes" }),
+    ]);
+  });
+
+  it("should retry creates with an explicit ID since they become a PUT", async () => {
+    const { sdk, calls } = createSDK(1);
+
+    await sdk.routes.create({ uri: "/test" }, "1");
+
+    expect(calls.map((call) => call.method)).toEqual(["PUT", "PUT"]);
+  });
+
+  it("should apply per-method rules and retryable status codes", async () => {
+    const { sdk, calls } = createSDK(2, {
+      methods: { POST: true, GET: { retryableStatusCodes: [500] } },
+    });
+
+    // 503 is not retryable for GET under this policy
+    await expect(sdk.routes.get("1")).rejects.toBeInstanceOf(ApisixServerError);
+    await sdk.routes.create({ uri: "/test" });
+    expect(calls.map((call) => call.method)).toEqual(["GET", "POST", "POST"]);
+  });
+
+  it("should respect Retry-After", async () => {
+    const { sdk, calls } = createSDK(1, { jitter: "none" }, "1");
+
+    await sdk.routes.get("1");
+
+    expect(calls[1].time - calls[0].time).toBeGreaterThanOrEqual(950);
+  });
+
+  it("should cap the Retry-After delay", async () => {
+    const { sdk, calls } = createSDK(
+      1,
+      { jitter: "none", maxRetryAfter: 50 },
+      "86400",
+    );
+
+    await sdk.routes.get("1");
+
+    expect(calls).toHaveLength(2);
+    expect(calls[1].time - calls[0].time).toBeLessThan(1000);
+  });
+
+  it("should stop when the max elapsed time would be exceeded", async () => {
+    const { sdk, calls } = createSDK(5, {
+      baseDelay: 200,
+      jitter: "none",
+      maxAttempts: 10,
+      maxElapsedTime: 500,
+    });
+
+    await expect(sdk.routes.get("1")).rejects.toBeInstanceOf(ApisixServerError);
+    // Attempts at 0ms, 200ms and 600ms; the third wait would exceed 500ms
+    expect(calls).toHaveLength(2);
+  });
+
+  it("should honour a custom predicate and scoped policies", async () => {
+    const { sdk, calls } = createSDK(1, { shouldRetry: () => false });
+
+    await expect(sdk.routes.get("1")).rejects.toBeInstanceOf(ApisixServerError);
+    expect(calls).toHaveLength(1);
+
+    await sdk.withRetryPolicy({ shouldRetry: () => undefined }, () =>
+      sdk.routes.get("1"),
+    );
+    expect(calls).toHaveLength(2);
+  });
+
+  it("should disable retries per call", async () => {
+    const { sdk, calls } = createSDK(1);
+
+    await expect(
+      sdk
+        .getClient()
+        .get("/apisix/admin/routes/1", undefined, { retry: false }),
+    ).rejects.toBeInstanceOf(ApisixServerError);
+    expect(calls).toHaveLength(1);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import {
+  ApisixValidationError,
+  matchesSelector,
+  parseSelector,
+} from "../../packages/apisix-sdk/src";
+import { createFakeAdmin } from "./test-helpers";
+
+describe("APISIX SDK - Label Selectors", () => {
+  describe("parseSelector", () => {
+    it("should parse every requirement form", () => {
+      expect(
+        parseSelector(
+          "env in (prod, staging),team=payments,tier==web,region!=eu,!deprecated,canary,zone notin (a)",
+        ),
+      ).toEqual([
+        { key: "env", operator: "in", values: ["prod", "staging"] },
+        { key: "team", operator: "=", values: ["payments"] },
+        { key: "tier", operator: "=", values: ["web"] },
+        { key: "region", operator: "!=", values: ["eu"] },
+        { key: "deprecated", operator: "notexists", values: [] },
+        { key: "canary", operator: "exists", values: [] },
+        { key: "zone", operator: "notin", values: ["a"] },
+      ]);
+      expect(parseSelector("  ")).toEqual([]);
+    });
+
+    it("should report the position of syntax errors", () => {
+      expect(() => parseSelector("env in prod")).toThrow(
+        'expected "(", found "prod" at position 7',
+      );
+      expect(() => parseSelector("env in (prod")).toThrow(
+        'expected "," or ")", found end of input at position 12',
+      );
+      expect(() => parseSelector("team=payments,")).toThrow(
+        ApisixValidationError,
+      );
+      expect(() => parseSelector("a b")).toThrow('expected ","');
+    });
+  });
+
+  describe("matchesSelector", () => {
+    const labels = { env: "prod", team: "payments" };
+
+    it("should AND all requirements", () => {
+      expect(
+        matchesSelector(labels, "env in (prod,staging),team=payments"),
+      ).toBe(true);
+      expect(matchesSelector(labels, "env in (prod,staging),team=search")).toBe(
+        false,
+      );
+      expect(matchesSelector(labels, "")).toBe(true);
+    });
+
+    it("should treat missing labels like Kubernetes", () => {
+      expect(matchesSelector(labels, "!deprecated")).toBe(true);
+      expect(matchesSelector(labels, "tier!=web,tier notin (db)")).toBe(true);
+      expect(matchesSelector(labels, "tier in (web)")).toBe(false);
+      expect(matchesSelector(undefined, "!deprecated")).toBe(true);
+    });
+  });
+
+  function createSDK() {
+    return createFakeAdmin({
+      initial: {
+        "upstreams/1": { id: "1", labels: { env: "prod", team: "payments" } },
+        "upstreams/2": {
+          id: "2",
+          labels: { env: "staging", team: "payments" },
+        },
+        "upstreams/3": { id: "3", labels: { env: "prod", deprecated: "true" } },
+        "upstreams/4": { id: "4" },
+      },
+    });
+  }
+
+  it("should filter list, iterate and query results", async () => {
+    const { sdk, reads } = createSDK();
+    const selector = "team=payments,env in (prod,staging)";
+
+    const listed = await sdk.upstreams.list({ selector });
+    const iterated: string[] = [];
+    for await (const upstream of sdk.upstreams.iterate({ selector: "!env" })) {
+      iterated.push(upstream.id!);
+    }
+    const queried = await sdk.upstreams.query({
+      selector: "env=prod,!deprecated",
+    });
+
+    expect(listed.map((upstream) => upstream.id)).toEqual(["1", "2"]);
+    expect(iterated).toEqual(["4"]);
+    expect(queried.items.map((upstream) => upstream.id)).toEqual(["1"]);
+    expect(queried.clientSide).toEqual(["selector"]);
+    expect(reads.some((read) => read.includes("selector"))).toBe(false);
+  });
+
+  it("should delete only the matching resources", async () => {
+    const { sdk, store, writes } = createSDK();
+
+    const deleted = await sdk.upstreams.deleteMany("env=prod", { force: true });
+
+    expect(deleted).toEqual(["1", "3"]);
+    expect([...store.keys()]).toEqual(["upstreams/2", "upstreams/4"]);
+    expect(writes).toEqual([
+      "DELETE upstreams/1?force=true",
+      "DELETE upstreams/3?force=true",
+    ]);
+  });
+
+  it("should refuse to delete with an empty selector", async () => {
+    const { sdk, store } = createSDK();
+
+    await expect(sdk.upstreams.deleteMany(" ")).rejects.toBeInstanceOf(
+      ApisixValidationError,
+    );
+    expect(store.size).toBe(4);
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, expect, it } from "vitest";
+import {
+  ApisixValidationError,
+  ApisixYamlError,
+} from "../../packages/apisix-sdk/src";
+import { createFakeAdmin } from "./test-helpers";
+
+function createSDK(initial: Record<string, Record<string, unknown>> = {}) {
+  return createFakeAdmin({
+    initial,
+    hostname: "prod-1",
+    timestamp: 1800000000,
+  });
+}
+
+describe("APISIX SDK - Snapshot and Restore", () => {
+  const stamped = { create_time: 1700000000, update_time: 1700000000 };
+  const production = {
+    "secrets/vault/1": { uri: "http://vault:8200", prefix: "kv", token: "t" },
+    "plugin_metadata/http-logger": { log_format: { host: "$host" } },
+    "protos/p1": { content: 'syntax = "proto3";', ...stamped },
+    "upstreams/u1": { id: "u1", nodes: { "10.0.0.1:80": 1 }, ...stamped },
+    "ssls/c1": { id: "c1", snis: ["example.com"], cert: "c", key: "k" },
+    "services/s1": { id: "s1", upstream_id: "u1", ...stamped },
+    "plugin_configs/pc1": { id: "pc1", plugins: { cors: {} } },
+    "consumer_groups/g1": { id: "g1", plugins: { "limit-count": {} } },
+    "consumers/jack": { username: "jack", group_id: "g1", ...stamped },
+    "consumers/jack/credentials/key": { plugins: { "key-auth": { key: "k" } } },
+    "global_rules/1": { id: "1", plugins: { prometheus: {} } },
+    "routes/r1": { id: "r1", uri: "/pay", service_id: "s1", ...stamped },
+    "stream_routes/sr1": { id: "sr1", server_port: 9100, upstream_id: "u1" },
+  };
+
+  it("should capture every resource kind in a versioned archive", async () => {
+    const { sdk } = createSDK(production);
+
+    const snapshot = await sdk.snapshot();
+
+    expect(snapshot).toMatchObject({
+      format: "apisix-sdk/snapshot",
+      version: 1,
+      source: { hostname: "prod-1", version: "3.9.0" },
+    });
+    expect(Object.values(snapshot.counts)).toEqual(Array(13).fill(1));
+    expect(snapshot.config.credentials).toEqual([
+      { id: "key", consumer: "jack", plugins: { "key-auth": { key: "k" } } },
+    ]);
+    expect(snapshot.config.secrets?.[0].id).toBe("vault/1");
+    expect(snapshot.config.routes?.[0]).not.toHaveProperty("create_time");
+  });
+
+  it("should clone a cluster into an empty instance", async () => {
+    const { sdk: prod } = createSDK(production);
+    const { sdk: local, store, writes } = createSDK();
+
+    const archive = JSON.stringify(await prod.snapshot());
+    const report = await local.restore(archive);
+
+    expect(report).toMatchObject({ created: 13, failed: 0 });
+    expect(writes.indexOf("PUT upstreams/u1")).toBeLessThan(
+      writes.indexOf("PUT services/s1"),
+    );
+    expect(writes.indexOf("PUT consumers/jack")).toBeLessThan(
+      writes.indexOf("PUT consumers/jack/credentials/key"),
+    );
+    expect([...store.keys()].sort()).toEqual(Object.keys(production).sort());
+    expect(store.get("secrets/vault/1")).toMatchObject({ token: "t" });
+  });
+
+  it("should keep other resources when merging", async () => {
+    const { sdk: prod } = createSDK(production);
+    const snapshot = await prod.snapshot({ kinds: ["routes"] });
+    const {
+      sdk: local,
+      store,
+      writes,
+    } = createSDK({
+      "routes/r1": { id: "r1", uri: "/old" },
+      "routes/local": { id: "local", uri: "/local" },
+    });
+
+    const report = await local.restore(snapshot, { mode: "merge" });
+
+    expect(report).toMatchObject({ updated: 1, deleted: 0 });
+    expect(writes).toEqual(["PUT routes/r1"]);
+    expect(store.has("routes/local")).toBe(true);
+  });
+
+  it("should replace everything when overwriting", async () => {
+    const { sdk: prod } = createSDK(production);
+    const snapshot = await prod.snapshot({ kinds: ["upstreams", "routes"] });
+    const {
+      sdk: local,
+      store,
+      writes,
+    } = createSDK({
+      "upstreams/u1": { id: "u1", nodes: { "10.0.0.1:80": 1 }, desc: "mine" },
+      "routes/local": { id: "local", uri: "/local" },
+      "services/s9": { id: "s9" },
+    });
+
+    const report = await local.restore(snapshot, { mode: "overwrite" });
+
+    expect(report).toMatchObject({
+      created: 1,
+      updated: 1,
+      deleted: 1,
+      unchanged: 0,
+    });
+    expect(writes).toEqual([
+      "PUT upstreams/u1",
+      "PUT routes/r1",
+      "DELETE routes/local",
+    ]);
+    expect(store.get("upstreams/u1")).not.toHaveProperty("desc");
+    expect(store.has("services/s9")).toBe(true);
+  });
+
+  it("should reject foreign or newer archives", async () => {
+    const { sdk } = createSDK();
+
+    await expect(sdk.restore("{}")).rejects.toBeInstanceOf(
+      ApisixValidationError,
+    );
+    await expect(
+      sdk.restore(
+        JSON.stringify({
+          format: "apisix-sdk/snapshot",
+          version: 2,
+          config: {},
+        }),
+      ),
+    ).rejects.toThrow("Unsupported snapshot version 2");
+    await expect(sdk.restore("not json")).rejects.toThrow(
+      "Not an APISIX snapshot",
+    );
+    await expect(sdk.restore("format: [apisix")).rejects.toBeInstanceOf(
+      ApisixYamlError,
+    );
+  });
+
+  it("should restore a snapshot stored as YAML", async () => {
+    const { sdk, store } = createSDK();
+
+    await sdk.restore(
+      [
+        "format: apisix-sdk/snapshot",
+        "version: 1",
+        "config:",
+        "  upstreams:",
+        "    - id: u1",
+        "      nodes:",
+        '        "10.0.0.1:80": 1',
+      ].join("\n"),
+    );
+
+    expect(store.get("upstreams/u1")).toMatchObject({
+      id: "u1",
+      nodes: { "10.0.0.1:80": 1 },
+    });
+  });
+});
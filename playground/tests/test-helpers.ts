@@ -1,6 +1,11 @@
 import { readFileSync } from "node:fs";
 import { join } from "node:path";
-import type { ApisixSDK } from "../../packages/apisix-sdk/src";
+import {
+  ApisixSDK,
+  applyMergePatch,
+  type ApisixRequestHandler,
+  type ApisixSDKConfig,
+} from "../../packages/apisix-sdk/src";
 
 export class TestHelpers {
   private sdk: ApisixSDK;
@@ -444,3 +449,191 @@ NKXdl/cPy1+tkySZyjwyafCIwJbeSPs3Mg==
     };
   }
 }
+
+export interface FakeAdminOptions {
+  // Resources by etcd-like key, e.g. `routes/r1` or `consumers/jack/credentials/key`
+  initial?: Record<string, Record<string, unknown>>;
+  // Keys, or `METHOD key` pairs, whose writes are answered with 400
+  rejected?: string[];
+  // Fields APISIX fills in on every write to a key
+  defaults?: (key: string) => Record<string, unknown>;
+  // Set as create_time and update_time on every write
+  timestamp?: number;
+  // Milliseconds each GET takes, to observe concurrent reads
+  readDelay?: number;
+  // Milliseconds each PUT takes, to observe concurrent writes
+  writeDelay?: number;
+  hostname?: string;
+  // Reported by /v1/server_info, 2.x answers in its own format (default: 3.9.0)
+  version?: string;
+  // Answers a request in place of the store when it returns a response,
+  // e.g. to fail it
+  intercept?: (request: Request) => Response | void | Promise<Response | void>;
+  config?: Partial<ApisixSDKConfig>;
+}
+
+// Collection paths of the Admin API, secrets are grouped per manager
+const COLLECTION = new RegExp(
+  "(^|/)(routes|services|upstreams|consumers|credentials|ssls|global_rules|" +
+    "consumer_groups|plugin_configs|plugin_metadata|stream_routes|protos)$" +
+    "|^secrets(/[^/]+)?$",
+);
+
+// Filter on list queries the way 3.x does: `name` and `uri` by substring,
+// `label` by key
+function matchesQuery(
+  value: Record<string, unknown>,
+  params: URLSearchParams,
+): boolean {
+  const name = params.get("name");
+  const label = params.get("label");
+  const uri = params.get("uri");
+  const uris = [value.uri, ...((value.uris as unknown[]) ?? [])];
+  return (
+    (name === null || String(value.name ?? "").includes(name)) &&
+    (label === null || label in ((value.labels as object) ?? {})) &&
+    (uri === null || uris.some((item) => String(item ?? "").includes(uri)))
+  );
+}
+
+/**
+ * In-process APISIX Admin API storing resources under etcd-like keys
+ *
+ * Every read is logged as `key?search` in `reads` and every write as
+ * `METHOD key?search` in `writes`. Deleting a resource deletes the resources
+ * below it too, like a consumer's credentials.
+ */
+export function createFakeAdmin(options: FakeAdminOptions = {}) {
+  const store = new Map(Object.entries(options.initial ?? {}));
+  const revisions = new Map<string, { created: number; modified: number }>();
+  const reads: string[] = [];
+  const writes: string[] = [];
+  const stats = { active: 0, maxActive: 0 };
+  const legacy = options.version?.startsWith("2.") ?? false;
+  let revision = 0;
+  let generated = 0;
+  for (const key of store.keys()) {
+    revisions.set(key, { created: ++revision, modified: revision });
+  }
+
+  // Store a resource under the next revision, keeping when it was created
+  const save = (key: string, value: Record<string, unknown>) => {
+    const created = store.has(key) ? revisions.get(key)?.created : undefined;
+    store.set(key, value);
+    revision++;
+    revisions.set(key, { created: created ?? revision, modified: revision });
+  };
+
+  // Requests inside a delay are counted in `stats`
+  const delay = async (ms?: number) => {
+    if (!ms) return;
+    stats.maxActive = Math.max(stats.maxActive, ++stats.active);
+    await new Promise((resolve) => setTimeout(resolve, ms));
+    stats.active--;
+  };
+
+  const entry = (key: string) => ({
+    key: `/apisix/${key}`,
+    value: store.get(key),
+    createdIndex: revisions.get(key)?.created,
+    modifiedIndex: revisions.get(key)?.modified,
+  });
+
+  const handler: ApisixRequestHandler = async (request) => {
+    const intercepted = await options.intercept?.(request);
+    if (intercepted) return intercepted;
+
+    const url = new URL(request.url);
+    if (url.pathname === "/v1/server_info") {
+      return Response.json({
+        hostname: options.hostname ?? "test",
+        version: options.version ?? "3.9.0",
+      });
+    }
+    if (url.pathname === "/v1/healthcheck") return new Response("");
+
+    let key = url.pathname.replace("/apisix/admin/", "");
+    if (request.method === "GET") {
+      reads.push(`${key}${url.search}`);
+      await delay(options.readDelay);
+      if (!COLLECTION.test(key)) {
+        if (!store.has(key)) {
+          return Response.json({ error_msg: "not found" }, { status: 404 });
+        }
+        return Response.json(legacy ? { node: entry(key) } : entry(key));
+      }
+      const children = [...store.keys()].filter(
+        (item) =>
+          item.startsWith(`${key}/`) &&
+          !item.slice(key.length + 1).includes("/"),
+      );
+      // 2.x neither filters nor pages lists
+      if (legacy) {
+        return Response.json({
+          count: children.length,
+          node: {
+            key: `/apisix/${key}`,
+            dir: true,
+            nodes: children.map(entry),
+          },
+        });
+      }
+      const list = children.filter((item) =>
+        matchesQuery(store.get(item) ?? {}, url.searchParams),
+      );
+      const pageSize = Number(url.searchParams.get("page_size"));
+      const page = Number(url.searchParams.get("page")) || 1;
+      return Response.json({
+        total: list.length,
+        list: (pageSize
+          ? list.slice((page - 1) * pageSize, page * pageSize)
+          : list
+        ).map(entry),
+      });
+    }
+
+    if (request.method === "POST") key += `/${String(++generated)}`;
+    writes.push(`${request.method} ${key}${url.search}`);
+    if (request.method === "PUT") await delay(options.writeDelay);
+    if (
+      options.rejected?.includes(key) ||
+      options.rejected?.includes(`${request.method} ${key}`)
+    ) {
+      return Response.json({ error_msg: "invalid" }, { status: 400 });
+    }
+
+    if (request.method === "DELETE") {
+      if (!store.delete(key)) {
+        return Response.json({ error_msg: "not found" }, { status: 404 });
+      }
+      for (const item of store.keys()) {
+        if (item.startsWith(`${key}/`)) store.delete(item);
+      }
+      return Response.json({ deleted: "1", key: `/apisix/${key}` });
+    }
+
+    const body = (await request.json()) as Record<string, unknown>;
+    const value =
+      request.method === "PATCH"
+        ? applyMergePatch(store.get(key) ?? {}, body)
+        : { ...options.defaults?.(key), ...body };
+    if (options.timestamp !== undefined) {
+      value.create_time = options.timestamp;
+      value.update_time = options.timestamp;
+    }
+    save(key, value);
+    return Response.json(entry(key));
+  };
+
+  const sdk = new ApisixSDK({
+    adminAPI: { baseURL: "http://apisix.test:9180" },
+    controlAPI: { baseURL: "http://apisix.test:9090" },
+    transport: { handler },
+    ...options.config,
+  });
+  // Change a resource behind the SDK's back, as another client would
+  const change = (key: string, patch: Record<string, unknown>) =>
+    save(key, { ...store.get(key), ...patch });
+
+  return { sdk, handler, store, reads, writes, stats, change };
+}
@@ -0,0 +1,193 @@
+import { describe, expect, it } from "vitest";
+import {
+  ApisixValidationError,
+  type Transaction,
+} from "../../packages/apisix-sdk/src";
+import { createFakeAdmin } from "./test-helpers";
+
+function createSDK(
+  initial: Record<string, Record<string, unknown>> = {},
+  rejected: string[] = [],
+) {
+  return createFakeAdmin({
+    initial,
+    rejected,
+    config: { retry: { maxAttempts: 1 } },
+  });
+}
+
+describe("APISIX SDK - Transactions", () => {
+  it("should commit when every step succeeds", async () => {
+    const { sdk, store } = createSDK();
+
+    const report = await sdk.transaction(async (tx) => {
+      await tx.create("upstreams", { id: "u1", nodes: { "10.0.0.1:80": 1 } });
+      const route = await tx.create("routes", { uri: "/a", upstream_id: "u1" });
+      return route.id;
+    });
+
+    expect(report).toMatchObject({
+      committed: true,
+      result: "1",
+      rollback: [],
+    });
+    expect(report.steps.map((step) => `${step.action} ${step.id}`)).toEqual([
+      "create u1",
+      "create 1",
+    ]);
+    expect(store.get("routes/1")).toEqual({ uri: "/a", upstream_id: "u1" });
+  });
+
+  it("should restore touched resources in reverse order on failure", async () => {
+    const { sdk, store, writes } = createSDK(
+      {
+        "routes/r1": { id: "r1", uri: "/old", upstream_id: "u0" },
+        "routes/r2": { id: "r2", uri: "/gone" },
+        "consumers/jack": { username: "jack" },
+      },
+      ["PUT upstreams/u2"],
+    );
+
+    const report = await sdk.transaction(async (tx) => {
+      await tx.create("upstreams", { id: "u1", nodes: { "10.0.0.1:80": 1 } });
+      await tx.patch("routes", "r1", { upstream_id: "u1" });
+      await tx.delete("routes", "r2");
+      await tx.create("credentials", {
+        id: "key",
+        consumer: "jack",
+        plugins: { "key-auth": { key: "k" } },
+      });
+      await tx.create("upstreams", { id: "u2", nodes: {} });
+    });
+
+    expect(report).toMatchObject({
+      committed: false,
+      error: expect.stringContaining("invalid"),
+      unrestored: [],
+    });
+    expect(report.steps.at(-1)).toMatchObject({ id: "u2", status: "failed" });
+    expect(
+      report.rollback.map((step) => `${step.action} ${step.kind}/${step.id}`),
+    ).toEqual([
+      "delete upstreams/u2",
+      "delete credentials/jack/key",
+      "restore routes/r2",
+      "restore routes/r1",
+      "delete upstreams/u1",
+    ]);
+    expect(writes.slice(-4)).toEqual([
+      "DELETE consumers/jack/credentials/key",
+      "PUT routes/r2",
+      "PUT routes/r1",
+      "DELETE upstreams/u1",
+    ]);
+    expect([...store.keys()].sort()).toEqual([
+      "consumers/jack",
+      "routes/r1",
+      "routes/r2",
+    ]);
+    expect(store.get("routes/r1")).toEqual({
+      id: "r1",
+      uri: "/old",
+      upstream_id: "u0",
+    });
+  });
+
+  it("should restore a deleted consumer together with its credentials", async () => {
+    const { sdk, store, writes } = createSDK({
+      "consumers/jack": { username: "jack" },
+      "consumers/jack/credentials/key": {
+        id: "key",
+        plugins: { "key-auth": { key: "k" } },
+      },
+      "consumers/jack/credentials/basic": {
+        id: "basic",
+        plugins: { "basic-auth": { username: "jack", password: "p" } },
+      },
+    });
+
+    const report = await sdk.transaction(async (tx) => {
+      await tx.delete("consumers", "jack");
+      throw new Error("deployment check failed");
+    });
+
+    expect(report).toMatchObject({ committed: false, unrestored: [] });
+    expect(
+      report.rollback.map((step) => `${step.action} ${step.kind}/${step.id}`),
+    ).toEqual([
+      "restore consumers/jack",
+      "restore credentials/jack/basic",
+      "restore credentials/jack/key",
+    ]);
+    expect(writes).toEqual([
+      "DELETE consumers/jack",
+      "PUT consumers/jack",
+      "PUT consumers/jack/credentials/basic",
+      "PUT consumers/jack/credentials/key",
+    ]);
+    expect(store.get("consumers/jack")).toEqual({ username: "jack" });
+    expect(store.get("consumers/jack/credentials/key")).toEqual({
+      plugins: { "key-auth": { key: "k" } },
+    });
+  });
+
+  it("should record a resource once when steps touch it concurrently", async () => {
+    const { sdk, store, reads } = createSDK({
+      "routes/r1": { id: "r1", uri: "/old" },
+    });
+
+    const report = await sdk.transaction(async (tx) => {
+      await Promise.all([
+        tx.patch("routes", "r1", { uri: "/new" }),
+        tx.patch("routes", "r1", { desc: "changed" }),
+      ]);
+      await tx.patch("routes", "r1", { uri: "/newer" });
+      throw new Error("deployment check failed");
+    });
+
+    expect(reads).toEqual(["routes/r1"]);
+    expect(
+      report.rollback.map((step) => `${step.action} ${step.kind}/${step.id}`),
+    ).toEqual(["restore routes/r1"]);
+    expect(store.get("routes/r1")).toEqual({ id: "r1", uri: "/old" });
+  });
+
+  it("should report resources it could not restore", async () => {
+    const { sdk, store } = createSDK(
+      { "routes/r1": { id: "r1", uri: "/old" } },
+      ["PUT routes/r1"],
+    );
+
+    const report = await sdk.transaction(async (tx) => {
+      await tx.patch("routes", "r1", { uri: "/new" });
+      throw new Error("deployment check failed");
+    });
+
+    expect(report).toMatchObject({
+      committed: false,
+      error: "deployment check failed",
+    });
+    expect(report.unrestored).toHaveLength(1);
+    expect(report.unrestored[0]).toMatchObject({
+      kind: "routes",
+      id: "r1",
+      action: "restore",
+      status: "failed",
+      before: { id: "r1", uri: "/old" },
+    });
+    expect(store.get("routes/r1")).toMatchObject({ uri: "/new" });
+  });
+
+  it("should refuse changes once finished", async () => {
+    const { sdk } = createSDK();
+    let leaked: Transaction | undefined;
+
+    await sdk.transaction(async (tx) => {
+      leaked = tx;
+    });
+
+    await expect(leaked!.delete("routes", "r1")).rejects.toBeInstanceOf(
+      ApisixValidationError,
+    );
+  });
+});
@@ -0,0 +1,136 @@
+import { createServer } from "node:http";
+import { type AddressInfo, connect } from "node:net";
+import { describe, expect, it } from "vitest";
+import {
+  ApisixNotFoundError,
+  ApisixSDK,
+  ApisixValidationError,
+} from "../../packages/apisix-sdk/src";
+import { createFakeAdmin } from "./test-helpers";
+
+// Prometheus metrics as the Control API's exporter serves them
+function serveMetrics(request: Request): Response | undefined {
+  if (new URL(request.url).pathname === "/apisix/prometheus/metrics") {
+    return new Response("apisix_nginx_http_current_connections 1\n");
+  }
+}
+
+describe("APISIX SDK - Pluggable Transport", () => {
+  it("should route Admin API requests through an in-process handler", async () => {
+    const requests: Request[] = [];
+    const { sdk } = createFakeAdmin({
+      initial: { "routes/1": { uri: "/in-process" } },
+      intercept: (request) => void requests.push(request),
+      config: {
+        adminAPI: { baseURL: "http://apisix.test:9180", apiKey: "secret" },
+      },
+    });
+
+    const route = await sdk.routes.get("1");
+
+    expect(route.id).toBe("1");
+    expect(route.uri).toBe("/in-process");
+    const adminRequest = requests.find((r) => r.url.includes("/routes/1"));
+    expect(adminRequest?.headers.get("X-API-KEY")).toBe("secret");
+    expect(sdk.getClient().getConnectionPoolStats().transport.admin).toBe(
+      "handler",
+    );
+  });
+
+  it("should map handler error responses to typed errors", async () => {
+    const { sdk } = createFakeAdmin();
+
+    await expect(sdk.routes.get("missing")).rejects.toBeInstanceOf(
+      ApisixNotFoundError,
+    );
+  });
+
+  it("should use a custom fetch implementation for Prometheus metrics", async () => {
+    const { handler } = createFakeAdmin({ intercept: serveMetrics });
+    const urls: string[] = [];
+    const sdk = new ApisixSDK({
+      adminAPI: { baseURL: "http://apisix.test:9180" },
+      transport: {
+        fetch: async (input, init) => {
+          urls.push(String(input instanceof Request ? input.url : input));
+          return handler(new Request(input, init));
+        },
+      },
+    });
+
+    const metrics = await sdk.control.getPrometheusMetrics();
+
+    expect(metrics).toContain("apisix_nginx_http_current_connections");
+    expect(urls).toContain("http://127.0.0.1:9091/apisix/prometheus/metrics");
+    expect(sdk.getClient().getConnectionPoolStats()).toMatchObject({
+      totalConnections: 0,
+      transport: { admin: "custom-fetch", control: "custom-fetch" },
+    });
+  });
+
+  it("should tunnel requests through an HTTP proxy", async () => {
+    const target = createServer((_req, res) => {
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify({ hostname: "test", version: "3.9.0" }));
+    });
+    const tunnels: string[] = [];
+    const proxy = createServer();
+    proxy.on("connect", (req, socket, head) => {
+      tunnels.push(req.url ?? "");
+      const [host, port] = (req.url ?? "").split(":");
+      const upstream = connect(Number(port), host, () => {
+        socket.write("HTTP/1.1 200 Connection Established\r\n\r\n");
+        upstream.write(head);
+        upstream.pipe(socket).pipe(upstream);
+      });
+    });
+    await new Promise<void>((resolve) => target.listen(0, resolve));
+    await new Promise<void>((resolve) => proxy.listen(0, resolve));
+    const targetPort = (target.address() as AddressInfo).port;
+    const proxyPort = (proxy.address() as AddressInfo).port;
+
+    const sdk = new ApisixSDK({
+      adminAPI: { baseURL: `http://127.0.0.1:${targetPort}` },
+      controlAPI: {
+        baseURL: `http://127.0.0.1:${targetPort}`,
+        proxy: `http://127.0.0.1:${proxyPort}`,
+      },
+    });
+
+    try {
+      const info = await sdk.getServerInfo();
+
+      expect(info.version).toBe("3.9.0");
+      expect(tunnels).toEqual([`127.0.0.1:${targetPort}`]);
+      expect(sdk.getClient().getConnectionPoolStats().transport).toEqual({
+        admin: "fetch",
+        control: "dispatcher",
+      });
+
+      // Requests after clearing the pool tunnel through a new connection
+      sdk.getClient().clearConnectionPool();
+      sdk.getClient().clearCache();
+      expect((await sdk.control.getServerInfo()).version).toBe("3.9.0");
+      expect(tunnels).toHaveLength(2);
+    } finally {
+      sdk.getClient().clearConnectionPool();
+      proxy.closeAllConnections();
+      target.closeAllConnections();
+      await new Promise((resolve) => proxy.close(resolve));
+      await new Promise((resolve) => target.close(resolve));
+    }
+  });
+
+  it("should reject a custom dispatcher combined with TLS options", () => {
+    expect(
+      () =>
+        new ApisixSDK({
+          adminAPI: {
+            baseURL: "https://127.0.0.1:9180",
+            tls: { rejectUnauthorized: false },
+          },
+          transport: { dispatcher: {} },
+        }),
+    ).toThrow(ApisixValidationError);
+  });
+});
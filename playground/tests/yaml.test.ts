@@ -0,0 +1,313 @@
+import { describe, expect, it } from "vitest";
+import {
+  ApisixValidationError,
+  ApisixYamlError,
+  parseConfig,
+  parseYaml,
+  parseYamlDocuments,
+  stringifyConfig,
+  stringifyYaml,
+} from "../../packages/apisix-sdk/src";
+import { createFakeAdmin } from "./test-helpers";
+
+const CERT = `-----BEGIN CERTIFICATE-----
+MIIBszCCAVmgAwIBAgIUQ0
+ZlbjEQMA4GA1UEAwwHZXhh
+-----END CERTIFICATE-----
+`;
+
+describe("APISIX SDK - YAML", () => {
+  it("should parse block collections and core-schema scalars", () => {
+    const value = parseYaml(`
+# Upstream with a comment
+upstream:
+  type: roundrobin   # trailing comment
+  nodes:
+    "10.0.0.1:80": 1
+    10.0.0.2:80: 2
+  retries: 0x3
+  timeout: {connect: 1.5, send: 6, read: .inf}
+uris:
+- /a
+- "/b # not a comment"
+- '/c ''quoted'''
+methods: [GET, POST]
+enable_websocket: false
+desc: ~
+labels: {}
+`);
+
+    expect(value).toEqual({
+      upstream: {
+        type: "roundrobin",
+        nodes: { "10.0.0.1:80": 1, "10.0.0.2:80": 2 },
+        retries: 3,
+        timeout: { connect: 1.5, send: 6, read: Infinity },
+      },
+      uris: ["/a", "/b # not a comment", "/c 'quoted'"],
+      methods: ["GET", "POST"],
+      enable_websocket: false,
+      desc: null,
+      labels: {},
+    });
+  });
+
+  it("should parse sequences of mappings and nested sequences", () => {
+    expect(
+      parseYaml(`routes:
+  - id: 1
+    uri: /a
+    vars:
+      - - arg_name
+        - ==
+        - json
+  -
+    id: "2"
+    plugins:
+      limit-count:
+        count: 10
+`),
+    ).toEqual({
+      routes: [
+        { id: 1, uri: "/a", vars: [["arg_name", "==", "json"]] },
+        { id: "2", plugins: { "limit-count": { count: 10 } } },
+      ],
+    });
+  });
+
+  it("should parse block and multi-line scalars", () => {
+    expect(
+      parseYaml(`cert: |
+  -----BEGIN CERTIFICATE-----
+  MIIBszCCAVmgAwIBAgIUQ0
+  ZlbjEQMA4GA1UEAwwHZXhh
+  -----END CERTIFICATE-----
+strip: |-
+  a
+   b
+
+keep: |+
+  x
+
+folded: >
+  one
+  two
+
+  three
+    indented
+plain: first
+  second
+quoted: "tab\\there \\u00e9
+  next"
+last: end`),
+    ).toEqual({
+      cert: CERT,
+      strip: "a\n b",
+      keep: "x\n\n",
+      folded: "one two\nthree\n  indented\n",
+      plain: "first second",
+      quoted: "tab\there é next",
+      last: "end",
+    });
+  });
+
+  it("should read multi-document files", () => {
+    const documents = parseYamlDocuments(`%YAML 1.2
+---
+id: 1
+...
+---
+- a
+--- plain
+---
+`);
+
+    expect(documents).toEqual([{ id: 1 }, ["a"], "plain", null]);
+    expect(() => parseYaml("a: 1\n---\nb: 2\n")).toThrow(
+      "Expected a single YAML document, found 2 at line 2, column 1",
+    );
+  });
+
+  it("should parse JSON", () => {
+    const value = {
+      a: [1, "two", { three: null }],
+      b: "multi\nline",
+      c: -1.5e-3,
+    };
+
+    expect(parseYaml(JSON.stringify(value))).toEqual(value);
+    expect(parseYaml(JSON.stringify(value, null, 2))).toEqual(value);
+  });
+
+  it.each([
+    ["key: [a, b", "Unterminated flow sequence at line 1, column 6"],
+    [
+      "a: 1\n  b: 2\n",
+      "Bad indentation of a mapping entry at line 2, column 3",
+    ],
+    ["a:\n  b: 1\n c: 2\n", "Bad indentation of a mapping entry"],
+    ["a: 1\na: 2\n", 'Duplicate mapping key "a" at line 2, column 1'],
+    ["a: b: c\n", "Nested mappings are not allowed on a single line"],
+    ['a: "open\n', "Unterminated quoted scalar at line 1, column 4"],
+    ["a: &x 1\n", "Anchors and aliases are not supported at line 1, column 4"],
+    ["a:\n\t- b\n", "Tabs are not allowed for indentation at line 2, column 2"],
+    ['a: "\\q"\n', "Invalid escape sequence '\\q' at line 1, column 5"],
+  ])("should report %j with its position", (text, message) => {
+    const error = (() => {
+      try {
+        parseYaml(text);
+      } catch (error) {
+        return error;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(ApisixYamlError);
+    expect((error as Error).message).toContain(message);
+  });
+
+  it("should expose line and column on errors", () => {
+    const error = (() => {
+      try {
+        parseYaml("routes:\n  - uri: /a\n    methods: [GET,\n");
+      } catch (error) {
+        return error as ApisixYamlError;
+      }
+    })();
+
+    expect(error).toMatchObject({ line: 3, column: 14 });
+  });
+
+  it("should quote strings only where needed", () => {
+    expect(
+      stringifyYaml({
+        plain: "roundrobin",
+        uri: "/api/*",
+        number: "123",
+        bool: "true",
+        empty: "",
+        nil: "null",
+        colon: "a: b",
+        hash: "a #b",
+        indicator: "*star",
+        spaces: " padded ",
+        tab: "a\tb",
+        node: { "10.0.0.1:80": 1, "200": "ok" },
+        list: [],
+        nothing: null,
+        skipped: undefined,
+      }),
+    ).toBe(
+      [
+        "plain: roundrobin",
+        "uri: /api/*",
+        'number: "123"',
+        'bool: "true"',
+        'empty: ""',
+        'nil: "null"',
+        'colon: "a: b"',
+        'hash: "a #b"',
+        'indicator: "*star"',
+        'spaces: " padded "',
+        'tab: "a\\tb"',
+        "node:",
+        '  "200": ok',
+        "  10.0.0.1:80: 1",
+        "list: []",
+        "nothing: null",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("should write certificates and proto content as block scalars", () => {
+    const text = stringifyYaml({
+      ssls: [{ id: "1", cert: CERT, key: CERT.trimEnd() }],
+    });
+
+    expect(text).toBe(
+      [
+        "ssls:",
+        '  - id: "1"',
+        "    cert: |",
+        ...CERT.trimEnd()
+          .split("\n")
+          .map((line) => `      ${line}`),
+        "    key: |-",
+        ...CERT.trimEnd()
+          .split("\n")
+          .map((line) => `      ${line}`),
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("should round-trip tricky values", () => {
+    const value = {
+      routes: [
+        {
+          id: "007",
+          uri: "/a",
+          vars: [["http_x", "~~", "^(a|b)$"], []],
+          script: "  indented first\nsecond\n\n",
+          blank: "\n\nafter blank lines",
+          trailing: "line \nnext",
+          unicode: "é — 中文 \u2028",
+          control: "bell\x07",
+          dashes: "---\n...",
+          numbers: [0, -1, 1.5, 1e21, Number.POSITIVE_INFINITY],
+          nested: { "a/b": { "": "empty key", "- x": "dash" } },
+        },
+      ],
+      proto: 'syntax = "proto3";\nmessage A {\n  string name = 1;\n}\n',
+    };
+
+    expect(parseYaml(stringifyYaml(value))).toEqual(value);
+    expect(parseYaml(stringifyYaml("  lead\ntrail"))).toBe("  lead\ntrail");
+    expect(parseYaml(stringifyYaml(["x", ["y"], [{ z: 1 }]]))).toEqual([
+      "x",
+      ["y"],
+      [{ z: 1 }],
+    ]);
+  });
+
+  it("should merge multi-document configuration files", () => {
+    const config = parseConfig(`
+upstreams:
+  - id: u1
+    nodes: {"10.0.0.1:80": 1}
+---
+routes:
+  - id: r1
+    uri: /a
+    upstream_id: u1
+---
+routes:
+  - id: r2
+    uri: /b
+`);
+
+    expect(config.routes?.map((route) => route.id)).toEqual(["r1", "r2"]);
+    expect(stringifyConfig({ routes: config.routes, ...config })).toMatch(
+      /^upstreams:\n[\s\S]*\nroutes:\n/,
+    );
+    expect(() => parseConfig("- id: r1")).toThrow(ApisixValidationError);
+    expect(() => parseConfig("routes: {id: r1}")).toThrow(
+      "routes must be an array",
+    );
+  });
+
+  it("should import YAML data", async () => {
+    const { sdk } = createFakeAdmin();
+    const yaml = "- id: r1\n  uri: /a\n---\nid: r2\nuri: /b\n";
+
+    await expect(
+      sdk.importData("routes", yaml, { dryRun: true }),
+    ).resolves.toMatchObject({ total: 2 });
+    await expect(
+      sdk.importData("routes", yaml, { dryRun: true, format: "json" }),
+    ).rejects.toThrow("Invalid JSON data provided");
+    await expect(
+      sdk.importData("routes", "- [", { dryRun: true }),
+    ).rejects.toBeInstanceOf(ApisixYamlError);
+  });
+});